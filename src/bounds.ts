@@ -0,0 +1,346 @@
+/**
+ * Coordinate Layer Bounds
+ *
+ * Computes the painted extent of coordinate-mode layers: exact extrema of
+ * curves, arcs and ellipses, layer transforms and half the stroke width.
+ * Text bounds are estimated from the font size.
+ */
+
+import type {
+  SvgSpec,
+  SvgLayer,
+  RectProps,
+  CircleProps,
+  EllipseProps,
+  LineProps,
+  PolylineProps,
+  PathProps,
+  TextProps,
+  BaseShapeProps,
+} from './schema.js';
+import { parsePathData, arcEllipse, type Point } from './path.js';
+import { unionBounds, type Bounds } from './fit.js';
+
+// Affine matrix [a, b, c, d, e, f]: x' = a·x + c·y + e, y' = b·x + d·y + f
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export const DEFAULT_FONT_SIZE = 16;
+// Distance between the lines of multi-line text, as a multiple of the font size
+export const DEFAULT_LINE_HEIGHT = 1.2;
+// Average glyph width as a fraction of font size, used to estimate text bounds
+const CHAR_WIDTH = 0.6;
+const BOLD_CHAR_WIDTH = 0.65;
+// Fraction of the font size above the baseline
+const ASCENT = 0.8;
+
+/**
+ * Lines of a text layer with the y of each, the first at the layer's y
+ */
+export function textLines(props: TextProps): { text: string, y: number }[] {
+  const step = (props.fontSize ?? DEFAULT_FONT_SIZE) * (props.lineHeight ?? DEFAULT_LINE_HEIGHT);
+  return props.text.split('\n').map((text, i) => ({ text, y: props.y + i * step }));
+}
+
+/**
+ * Matrix applying n, then m
+ */
+export function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+export function applyPoint(m: Matrix, [x, y]: Point): Point {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+export function applyVector(m: Matrix, [x, y]: Point): Point {
+  return [m[0] * x + m[2] * y, m[1] * x + m[3] * y];
+}
+
+/**
+ * Estimated width of one line of text
+ */
+export function estimateTextWidth(text: string, fontSize: number, fontWeight?: 'normal' | 'bold'): number {
+  return text.length * fontSize * (fontWeight === 'bold' ? BOLD_CHAR_WIDTH : CHAR_WIDTH);
+}
+
+/**
+ * Parse an SVG transform list (matrix, translate, scale, rotate, skewX, skewY).
+ * Returns null if it can't be parsed.
+ */
+export function parseTransform(transform: string): Matrix | null {
+  let matrix = IDENTITY;
+  const pattern = /\s*(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)\s*,?/y;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < transform.length && (match = pattern.exec(transform))) {
+    const args = match[2].trim().split(/[\s,]+/).filter(Boolean).map(Number);
+    if (args.some(n => !Number.isFinite(n))) return null;
+
+    const rad = (degrees: number) => (degrees * Math.PI) / 180;
+    let step: Matrix;
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length !== 6) return null;
+        step = args as Matrix;
+        break;
+      case 'translate':
+        step = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+        break;
+      case 'scale':
+        step = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const cos = Math.cos(rad(args[0] ?? 0));
+        const sin = Math.sin(rad(args[0] ?? 0));
+        const [cx, cy] = [args[1] ?? 0, args[2] ?? 0];
+        step = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        step = [1, 0, Math.tan(rad(args[0] ?? 0)), 1, 0, 0];
+        break;
+      default:
+        step = [1, Math.tan(rad(args[0] ?? 0)), 0, 1, 0, 0];
+    }
+    matrix = multiply(matrix, step);
+  }
+
+  return pattern.lastIndex === transform.length || transform.trim() === '' ? matrix : null;
+}
+
+/**
+ * Parse a points attribute ("0,0 10,10") into points
+ */
+export function parsePoints(points: string): Point[] {
+  const numbers = points.trim().split(/[\s,]+/).filter(Boolean).map(Number);
+  const result: Point[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    result.push([numbers[i], numbers[i + 1]]);
+  }
+  return result;
+}
+
+/**
+ * Collects extreme points of transformed geometry
+ */
+function createExtent(matrix: Matrix) {
+  const bounds: Bounds = { left: Infinity, right: -Infinity, top: Infinity, bottom: -Infinity };
+
+  const addTransformed = ([x, y]: Point) => {
+    bounds.left = Math.min(bounds.left, x);
+    bounds.right = Math.max(bounds.right, x);
+    bounds.top = Math.min(bounds.top, y);
+    bounds.bottom = Math.max(bounds.bottom, y);
+  };
+
+  // Real roots of a·t² + b·t + c
+  const unitRoots = (a: number, b: number, c: number): number[] => {
+    if (Math.abs(a) < 1e-12) return Math.abs(b) < 1e-12 ? [] : [-c / b];
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return [];
+    const root = Math.sqrt(discriminant);
+    return [(-b + root) / (2 * a), (-b - root) / (2 * a)];
+  };
+
+  // Bezier curves stay Bezier curves under affine transforms, so transform the control points first
+  const addCubic = (p0: Point, p1: Point, p2: Point, p3: Point) => {
+    const [a, b, c, d] = [p0, p1, p2, p3].map(p => applyPoint(matrix, p));
+    addTransformed(a);
+    addTransformed(d);
+    for (const axis of [0, 1]) {
+      const roots = unitRoots(
+        -a[axis] + 3 * b[axis] - 3 * c[axis] + d[axis],
+        2 * (a[axis] - 2 * b[axis] + c[axis]),
+        b[axis] - a[axis]
+      );
+      for (const t of roots.filter(t => t > 0 && t < 1)) {
+        const mt = 1 - t;
+        addTransformed([0, 1].map(k =>
+          mt * mt * mt * a[k] + 3 * mt * mt * t * b[k] + 3 * mt * t * t * c[k] + t * t * t * d[k]
+        ) as Point);
+      }
+    }
+  };
+
+  return {
+    bounds,
+    addCubic,
+
+    addPoint(point: Point) {
+      addTransformed(applyPoint(matrix, point));
+    },
+
+    addQuadratic(p0: Point, p1: Point, p2: Point) {
+      // Exact cubic elevation of the quadratic
+      const c1: Point = [p0[0] + (2 / 3) * (p1[0] - p0[0]), p0[1] + (2 / 3) * (p1[1] - p0[1])];
+      const c2: Point = [p2[0] + (2 / 3) * (p1[0] - p2[0]), p2[1] + (2 / 3) * (p1[1] - p2[1])];
+      addCubic(p0, c1, c2, p2);
+    },
+
+    // Ellipse center + u·cos(θ) + v·sin(θ), θ from start to start + delta (full ellipse by default)
+    addEllipse(center: Point, u: Point, v: Point, start = 0, delta = 2 * Math.PI) {
+      const c = applyPoint(matrix, center);
+      const tu = applyVector(matrix, u);
+      const tv = applyVector(matrix, v);
+      const at = (theta: number): Point => [
+        c[0] + tu[0] * Math.cos(theta) + tv[0] * Math.sin(theta),
+        c[1] + tu[1] * Math.cos(theta) + tv[1] * Math.sin(theta),
+      ];
+
+      addTransformed(at(start));
+      addTransformed(at(start + delta));
+      const [low, high] = delta >= 0 ? [start, start + delta] : [start + delta, start];
+      for (const axis of [0, 1]) {
+        // d/dθ = 0 where tan(θ) = v / u, every π
+        const base = Math.atan2(tv[axis], tu[axis]);
+        for (let k = Math.floor((low - base) / Math.PI); base + k * Math.PI <= high; k++) {
+          const theta = base + k * Math.PI;
+          if (theta >= low) addTransformed(at(theta));
+        }
+      }
+    },
+  };
+}
+
+// Stroke a layer inherits from its enclosing groups
+export type InheritedStroke = Pick<BaseShapeProps, 'stroke' | 'strokeWidth'>;
+
+/**
+ * Painted bounds of a coordinate layer (null if it draws nothing or can't be measured)
+ */
+export function layerBounds(layer: SvgLayer): Bounds | null {
+  return nestedLayerBounds(layer, IDENTITY, {});
+}
+
+/**
+ * Painted bounds of a layer inside groups with the given combined transform and stroke
+ */
+export function nestedLayerBounds(layer: SvgLayer, parent: Matrix, inherited: InheritedStroke): Bounds | null {
+  const props = layer.props as BaseShapeProps;
+  const own = props.transform ? parseTransform(props.transform) ?? IDENTITY : IDENTITY;
+  const matrix = multiply(parent, own);
+  const stroke = props.stroke ?? inherited.stroke;
+  const strokeWidth = props.strokeWidth ?? inherited.strokeWidth;
+
+  if (layer.type === 'group') {
+    return unionBounds((layer.children ?? []).map(child => nestedLayerBounds(child, matrix, { stroke, strokeWidth })));
+  }
+
+  const extent = createExtent(matrix);
+
+  switch (layer.type) {
+    case 'rect': {
+      const p = props as RectProps;
+      extent.addPoint([p.x, p.y]);
+      extent.addPoint([p.x + p.width, p.y]);
+      extent.addPoint([p.x, p.y + p.height]);
+      extent.addPoint([p.x + p.width, p.y + p.height]);
+      break;
+    }
+
+    case 'circle': {
+      const p = props as CircleProps;
+      extent.addEllipse([p.cx, p.cy], [p.r, 0], [0, p.r]);
+      break;
+    }
+
+    case 'ellipse': {
+      const p = props as EllipseProps;
+      extent.addEllipse([p.cx, p.cy], [p.rx, 0], [0, p.ry]);
+      break;
+    }
+
+    case 'line': {
+      const p = props as LineProps;
+      extent.addPoint([p.x1, p.y1]);
+      extent.addPoint([p.x2, p.y2]);
+      break;
+    }
+
+    case 'polyline':
+    case 'polygon':
+      parsePoints((props as PolylineProps).points).forEach(point => extent.addPoint(point));
+      break;
+
+    case 'path': {
+      let segments;
+      try {
+        segments = parsePathData((props as PathProps).d);
+      } catch {
+        return null;
+      }
+      for (const segment of segments) {
+        switch (segment.type) {
+          case 'move':
+            break;
+          case 'cubic':
+            extent.addCubic(segment.from, segment.c1, segment.c2, segment.to);
+            break;
+          case 'quadratic':
+            extent.addQuadratic(segment.from, segment.c, segment.to);
+            break;
+          case 'arc': {
+            const ellipse = arcEllipse(segment);
+            if (ellipse) {
+              extent.addEllipse(ellipse.center, ellipse.u, ellipse.v, ellipse.start, ellipse.delta);
+            } else {
+              extent.addPoint(segment.from);
+              extent.addPoint(segment.to);
+            }
+            break;
+          }
+          default:
+            extent.addPoint(segment.from);
+            extent.addPoint(segment.to);
+        }
+      }
+      break;
+    }
+
+    case 'text': {
+      const p = props as TextProps;
+      const fontSize = p.fontSize ?? DEFAULT_FONT_SIZE;
+      for (const line of textLines(p)) {
+        const width = estimateTextWidth(line.text, fontSize, p.fontWeight);
+        const left = p.textAnchor === 'middle' ? p.x - width / 2 : p.textAnchor === 'end' ? p.x - width : p.x;
+        const top = p.dominantBaseline === 'middle' ? line.y - fontSize / 2
+          : p.dominantBaseline === 'hanging' ? line.y
+          : line.y - fontSize * ASCENT;
+        extent.addPoint([left, top]);
+        extent.addPoint([left + width, top]);
+        extent.addPoint([left, top + fontSize]);
+        extent.addPoint([left + width, top + fontSize]);
+      }
+      break;
+    }
+  }
+
+  const { bounds } = extent;
+  if (!Number.isFinite(bounds.left) || !Number.isFinite(bounds.top)) return null;
+
+  // Half the stroke lies outside the outline (scaled with the shape)
+  const stroked = stroke !== undefined && stroke !== 'none';
+  const halfStroke = stroked ? ((strokeWidth ?? 1) / 2) * Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2])) : 0;
+  return {
+    left: bounds.left - halfStroke,
+    right: bounds.right + halfStroke,
+    top: bounds.top - halfStroke,
+    bottom: bounds.bottom + halfStroke,
+  };
+}
+
+/**
+ * Painted bounds of every layer in a coordinate spec (null if nothing is drawn)
+ */
+export function svgSpecBounds(spec: SvgSpec): Bounds | null {
+  return unionBounds(spec.layers.map(layerBounds));
+}
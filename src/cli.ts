@@ -9,11 +9,27 @@
 import { createInterface } from 'readline/promises';
 import { stdin as input, stdout as output } from 'process';
 import { readFileSync, existsSync } from 'fs';
-import { generateSvg, refineSvg } from './llm.js';
-import { generateSvgMarkup } from './generator.js';
-import { generateSemanticSvg, refineSemanticSvg } from './llm-semantic.js';
-import { generateSemanticSvg as generateSemanticSvgMarkup } from './generator-semantic.js';
-import { saveSvg, getLastSvg, type GenerationMode } from './storage.js';
+import { getLastSvg, outputPath, type GenerationMode } from './storage.js';
+import {
+  runGeneration,
+  runRefinement,
+  runConversion,
+  runImport,
+  runPngExport,
+  runExport,
+  savedLint,
+  parseMode,
+  EXPORT_FORMATS,
+  requireProviderConfig,
+  type GenerationResult,
+  type GenerationOptions,
+} from './pipeline.js';
+import { runCommand, COMMANDS } from './commands.js';
+import { listProviders, setCurrentProvider, getCurrentProviderName, missingEnv } from './providers.js';
+import { parseFitPadding, parseFitSize, formatFit, type FitOptions } from './fit.js';
+import { parsePngSizes, formatPngSize, type PngSize } from './raster.js';
+import { parseOptimizeOptions, formatOptimize, type OptimizeOptions } from './optimize.js';
+import { lintFeedback, formatFindings, type LintFinding } from './lint.js';
 
 // Load .env file if it exists
 if (existsSync('.env')) {
@@ -29,34 +45,93 @@ if (existsSync('.env')) {
   });
 }
 
-// Check for API key
-if (!process.env.ANTHROPIC_API_KEY) {
-  console.error('Error: ANTHROPIC_API_KEY environment variable not set');
-  console.error('Please create a .env file or export ANTHROPIC_API_KEY=your_key');
-  process.exit(1);
+/**
+ * Print lint findings, if any
+ */
+function printFindings(findings: LintFinding[]): void {
+  if (findings.length === 0) return;
+  console.log(`Lint: ${findings.length} finding(s) (use "fix" to refine them away)`);
+  console.log(`${formatFindings(findings).replace(/^/gm, '  ')}\n`);
 }
 
-const rl = createInterface({ input, output });
+/**
+ * Print a summary of a saved generation
+ */
+function printResult(result: GenerationResult): void {
+  console.log(`\nSuccess! SVG saved to: ${result.filepath}`);
+  console.log(`Layers: ${result.spec.layers.length}`);
+  console.log(`Description: ${result.spec.description}\n`);
+  printFindings(result.lint);
+}
+
+/**
+ * Print all registered providers, marking the current one
+ */
+function printProviders(): void {
+  const current = getCurrentProviderName();
+  console.log('Available providers:');
+  for (const provider of listProviders()) {
+    const marker = provider.name === current ? '*' : ' ';
+    const aliases = provider.aliases?.length ? ` (${provider.aliases.join(', ')})` : '';
+    const missing = missingEnv(provider);
+    const status = missing.length > 0 ? ` [needs ${missing.join(', ')}]` : '';
+    console.log(`  ${marker} ${provider.name}${aliases} - ${provider.description}${status}`);
+  }
+  console.log('');
+}
 
 /**
  * Main CLI loop
  */
 async function main() {
+  // Check for API key
+  try {
+    requireProviderConfig();
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    console.error('Please create a .env file or export the settings for your provider');
+    process.exit(1);
+  }
+
+  const rl = createInterface({ input, output });
   let currentMode: GenerationMode = 'coordinate';
-  let currentProvider = process.env.LLM_PROVIDER || 'anthropic';
+  let currentFit: FitOptions | undefined;
+  let currentPng: PngSize[] | undefined;
+  let currentOptimize: OptimizeOptions | undefined;
+  let currentFixLint: number | undefined;
+
+  // Settings for new SVGs
+  const generationOptions = (): GenerationOptions => ({
+    fit: currentFit,
+    png: currentPng,
+    optimize: currentOptimize,
+    fixLint: currentFixLint,
+  });
 
   console.log('=== AISVG - AI-Powered SVG Generator ===\n');
   console.log('Commands:');
   console.log('  <description>    - Generate new SVG from description');
   console.log('  refine <text>    - Refine the last generated SVG');
   console.log('  mode <s|c>       - Switch mode: s=semantic, c=coordinate');
-  console.log('  provider <a|o>   - Switch provider: a=anthropic, o=openai');
+  console.log('  convert          - Convert the last semantic SVG to coordinate mode');
+  console.log('  import <file>    - Import an SVG file so it can be refined');
+  console.log('  provider [name]  - List providers, or switch to one');
+  console.log('  fit <n|off>      - Fit the canvas to the content with padding n');
+  console.log('  size <n|WxH|off> - Fit the content into a fixed size, e.g. 24 or 64x64');
+  console.log('  png <sizes|off>  - Also render PNGs of each new SVG, e.g. 1x,2x,3x or 16,32,64,256');
+  console.log('  optimize [s|off] - Optimize new SVGs, e.g. optimize, optimize 2,min or optimize no-merge');
+  console.log('  lint             - Check the last SVG for shapes outside the canvas, unreadable text, etc.');
+  console.log('  fix              - Refine the last SVG to fix what lint found');
+  console.log('  autofix [n|off]  - Refine each new SVG up to n times until lint finds nothing, or show the setting');
+  console.log('  export <sizes>   - Render the last SVG to PNG at the given sizes');
+  console.log('  export <format>  - Export the last SVG as a draw.io library (drawio), DXF file (dxf),');
+  console.log('                     React component (react) or Vue component (vue)');
   console.log('  exit             - Exit the tool\n');
   console.log(`Current mode: ${currentMode}`);
-  console.log(`Current provider: ${currentProvider}\n`);
+  console.log(`Current provider: ${getCurrentProviderName()}\n`);
 
   while (true) {
-    const prompt = await rl.question(`[${currentMode}|${currentProvider}] > `);
+    const prompt = await rl.question(`[${currentMode}|${getCurrentProviderName()}] > `);
 
     if (!prompt.trim()) {
       continue;
@@ -70,37 +145,190 @@ async function main() {
 
     // Handle mode switching
     if (prompt.toLowerCase().startsWith('mode ')) {
-      const modeArg = prompt.slice(5).trim().toLowerCase();
-      if (modeArg === 's' || modeArg === 'semantic') {
-        currentMode = 'semantic';
-        console.log('Switched to SEMANTIC mode\n');
-      } else if (modeArg === 'c' || modeArg === 'coordinate') {
-        currentMode = 'coordinate';
-        console.log('Switched to COORDINATE mode\n');
+      const newMode = parseMode(prompt.slice(5));
+      if (newMode) {
+        currentMode = newMode;
+        console.log(`Switched to ${newMode.toUpperCase()} mode\n`);
       } else {
         console.log('Invalid mode. Use: mode s (semantic) or mode c (coordinate)\n');
       }
       continue;
     }
 
-    // Handle provider switching
+    // Handle canvas fitting
+    if (prompt.toLowerCase().startsWith('fit ')) {
+      const value = prompt.slice(4).trim();
+      const padding = parseFitPadding(value);
+      if (value.toLowerCase() === 'off') {
+        currentFit = undefined;
+        console.log('Canvas fitting off\n');
+      } else if (padding !== null) {
+        currentFit = { ...currentFit, padding };
+        console.log(`Fitting canvas to content (${formatFit(currentFit)})\n`);
+      } else {
+        console.log('Invalid padding. Use: fit <number> or fit off\n');
+      }
+      continue;
+    }
+    if (prompt.toLowerCase().startsWith('size ')) {
+      const value = prompt.slice(5).trim();
+      const size = parseFitSize(value);
+      if (value.toLowerCase() === 'off') {
+        // Fitting stays on only if padding was set separately
+        currentFit = currentFit?.padding !== undefined ? { padding: currentFit.padding } : undefined;
+        console.log(currentFit ? `Fixed size off (${formatFit(currentFit)})\n` : 'Fixed size off, canvas fitting off\n');
+      } else if (size) {
+        currentFit = { ...currentFit, size };
+        console.log(`Fitting canvas to content (${formatFit(currentFit)})\n`);
+      } else {
+        console.log('Invalid size. Use: size 24, size 64x48 or size off\n');
+      }
+      continue;
+    }
+
+    // Handle PNG rendering of new SVGs
+    if (prompt.toLowerCase().startsWith('png ')) {
+      const value = prompt.slice(4).trim();
+      const sizes = parsePngSizes(value);
+      if (value.toLowerCase() === 'off') {
+        currentPng = undefined;
+        console.log('PNG rendering off\n');
+      } else if (sizes) {
+        currentPng = sizes;
+        console.log(`Rendering PNGs of new SVGs (${sizes.map(formatPngSize).join(', ')})\n`);
+      } else {
+        console.log('Invalid sizes. Use: png 1x,2x,3x, png 16,32,64,256 or png off\n');
+      }
+      continue;
+    }
+
+    // Handle markup optimization of new SVGs
+    if (prompt.trim().toLowerCase() === 'optimize' || prompt.toLowerCase().startsWith('optimize ')) {
+      const value = prompt.trim().slice(8).trim();
+      const options = parseOptimizeOptions(value);
+      if (value.toLowerCase() === 'off') {
+        currentOptimize = undefined;
+        console.log('Optimization off\n');
+      } else if (options) {
+        currentOptimize = options;
+        console.log(`Optimizing new SVGs (${formatOptimize(options)})\n`);
+      } else {
+        console.log('Invalid settings. Use: optimize, optimize <decimals>, optimize min, optimize no-paths or optimize off\n');
+      }
+      continue;
+    }
+
+    // Handle automatic lint fixing of new SVGs (bare "autofix" shows the setting)
+    if (prompt.trim().toLowerCase() === 'autofix' || prompt.toLowerCase().startsWith('autofix ')) {
+      const value = prompt.trim().slice(7).trim();
+      if (!value) {
+        console.log(currentFixLint
+          ? `Fixing lint findings of new SVGs (up to ${currentFixLint} round(s))\n`
+          : 'Automatic lint fixing is off. Use: autofix <number> or autofix off\n');
+      } else if (value.toLowerCase() === 'off') {
+        currentFixLint = undefined;
+        console.log('Automatic lint fixing off\n');
+      } else if (/^[1-9]\d*$/.test(value)) {
+        currentFixLint = Number(value);
+        console.log(`Fixing lint findings of new SVGs (up to ${currentFixLint} round(s))\n`);
+      } else {
+        console.log('Invalid rounds. Use: autofix <number> or autofix off\n');
+      }
+      continue;
+    }
+
+    // Handle provider listing and switching
+    if (prompt.trim().toLowerCase() === 'provider') {
+      printProviders();
+      continue;
+    }
     if (prompt.toLowerCase().startsWith('provider ')) {
-      const providerArg = prompt.slice(9).trim().toLowerCase();
-      if (providerArg === 'a' || providerArg === 'anthropic') {
-        currentProvider = 'anthropic';
-        process.env.LLM_PROVIDER = 'anthropic';
-        console.log('Switched to ANTHROPIC provider\n');
-      } else if (providerArg === 'o' || providerArg === 'openai') {
-        currentProvider = 'openai';
-        process.env.LLM_PROVIDER = 'openai';
-        console.log('Switched to OPENAI provider\n');
+      const provider = setCurrentProvider(prompt.slice(9));
+      if (provider) {
+        console.log(`Switched to ${provider.name.toUpperCase()} provider (${provider.model() || 'no model set'})`);
+        const missing = missingEnv(provider);
+        if (missing.length > 0) {
+          console.log(`Warning: ${missing.join(', ')} not set`);
+        }
+        console.log('');
       } else {
-        console.log('Invalid provider. Use: provider a (anthropic) or provider o (openai)\n');
+        console.log('Invalid provider.');
+        printProviders();
       }
       continue;
     }
 
     try {
+      // Export the last result to draw.io or DXF, or render it to PNG
+      if (prompt.toLowerCase().startsWith('export ')) {
+        const value = prompt.slice(7).trim().toLowerCase();
+        const format = EXPORT_FORMATS.find(name => name === value);
+        const sizes = format ? null : parsePngSizes(value);
+        if (!format && !sizes) {
+          console.log(`Invalid export. Use: export ${EXPORT_FORMATS.join('|')}, export 1x,2x,3x or export 16,32,64,256\n`);
+          continue;
+        }
+        const lastSvg = getLastSvg();
+        if (!lastSvg) {
+          console.log('Error: No previous SVG found to export');
+          continue;
+        }
+
+        if (format) {
+          console.log(`\nExported: ${runExport(lastSvg, format)}\n`);
+        } else if (sizes) {
+          await runPngExport(lastSvg.filename, readFileSync(outputPath(lastSvg.filename), 'utf-8'), sizes);
+          console.log('');
+        }
+        continue;
+      }
+
+      // Lint the last result, or refine it with the findings as feedback
+      if (prompt.trim().toLowerCase() === 'lint' || prompt.trim().toLowerCase() === 'fix') {
+        const lastSvg = getLastSvg();
+        if (!lastSvg) {
+          console.log('Error: No previous SVG found to lint');
+          continue;
+        }
+
+        const findings = savedLint(lastSvg);
+        if (findings.length === 0) {
+          console.log(`\nLint: no findings for ${lastSvg.name}\n`);
+        } else if (prompt.trim().toLowerCase() === 'lint') {
+          console.log('');
+          printFindings(findings);
+        } else {
+          console.log(`\nFixing ${findings.length} lint finding(s): ${lastSvg.name} (using ${lastSvg.mode} mode)`);
+          printResult(await runRefinement(lastSvg, lintFeedback(findings), generationOptions()));
+        }
+        continue;
+      }
+
+      // Convert the last semantic result so it can be refined with coordinates
+      if (prompt.trim().toLowerCase() === 'convert') {
+        const lastSvg = getLastSvg();
+        if (!lastSvg) {
+          console.log('Error: No previous SVG found to convert');
+          continue;
+        }
+
+        console.log(`\nConverting: ${lastSvg.name} (semantic -> coordinate)`);
+        printResult(await runConversion(lastSvg, generationOptions()));
+        currentMode = 'coordinate';
+        console.log('Switched to COORDINATE mode (refine edits the converted SVG)\n');
+        continue;
+      }
+
+      // Import an existing SVG file as the new last result
+      if (prompt.toLowerCase().startsWith('import ')) {
+        const file = prompt.slice(7).trim().replace(/^(["'])(.*)\1$/, '$2');
+        console.log(`\nImporting: ${file}`);
+        printResult(await runImport(file, generationOptions()));
+        currentMode = 'coordinate';
+        console.log('Switched to COORDINATE mode (refine edits the imported SVG)\n');
+        continue;
+      }
+
       // Check if this is a refinement request
       if (prompt.toLowerCase().startsWith('refine ')) {
         const refinementText = prompt.slice(7).trim();
@@ -118,45 +346,12 @@ async function main() {
 
         console.log(`\nRefining: ${lastSvg.name} (using ${lastSvg.mode} mode)`);
 
-        // Use the same mode as the last generation
-        if (lastSvg.mode === 'semantic') {
-          const spec = await refineSemanticSvg(lastSvg.spec as any, refinementText);
-          const svgMarkup = generateSemanticSvgMarkup(spec);
-          const filepath = saveSvg(svgMarkup, spec, `refine: ${refinementText}`, 'semantic');
-
-          console.log(`\nSuccess! SVG saved to: ${filepath}`);
-          console.log(`Layers: ${spec.layers.length}`);
-          console.log(`Description: ${spec.description}\n`);
-        } else {
-          const spec = await refineSvg(lastSvg.spec as any, refinementText);
-          const svgMarkup = generateSvgMarkup(spec);
-          const filepath = saveSvg(svgMarkup, spec, `refine: ${refinementText}`, 'coordinate');
-
-          console.log(`\nSuccess! SVG saved to: ${filepath}`);
-          console.log(`Layers: ${spec.layers.length}`);
-          console.log(`Description: ${spec.description}\n`);
-        }
+        // Uses the same mode as the last generation
+        printResult(await runRefinement(lastSvg, refinementText, generationOptions()));
       } else {
         // Generate new SVG using current mode
         console.log(`\nGenerating SVG (${currentMode} mode)...`);
-
-        if (currentMode === 'semantic') {
-          const spec = await generateSemanticSvg(prompt);
-          const svgMarkup = generateSemanticSvgMarkup(spec);
-          const filepath = saveSvg(svgMarkup, spec, prompt, 'semantic');
-
-          console.log(`\nSuccess! SVG saved to: ${filepath}`);
-          console.log(`Layers: ${spec.layers.length}`);
-          console.log(`Description: ${spec.description}\n`);
-        } else {
-          const spec = await generateSvg(prompt);
-          const svgMarkup = generateSvgMarkup(spec);
-          const filepath = saveSvg(svgMarkup, spec, prompt, 'coordinate');
-
-          console.log(`\nSuccess! SVG saved to: ${filepath}`);
-          console.log(`Layers: ${spec.layers.length}`);
-          console.log(`Description: ${spec.description}\n`);
-        }
+        printResult(await runGeneration(prompt, currentMode, generationOptions()));
       }
     } catch (error) {
       if (error instanceof Error) {
@@ -168,7 +363,13 @@ async function main() {
   }
 }
 
-main().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+// Run a one-shot command if one was given, otherwise start the REPL
+const args = process.argv.slice(2);
+if (args.length > 0 && COMMANDS.includes(args[0])) {
+  runCommand(args).then((code) => process.exit(code));
+} else {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
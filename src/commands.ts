@@ -0,0 +1,400 @@
+/**
+ * One-shot CLI Commands
+ *
+ * Non-interactive subcommands (generate, refine, batch, components) for scripts and CI.
+ * Progress output goes to stderr; stdout carries a single JSON result.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import {
+  runGeneration,
+  runRefinement,
+  parseMode,
+  requireProviderConfig,
+  savedCoordinateSpec,
+  type GenerationResult,
+  type GenerationOptions,
+} from './pipeline.js';
+import { getSvgById, listSvgs, latestVersions, outputPath, type GenerationMode } from './storage.js';
+import { setCurrentProvider, getCurrentProviderName, listProviders } from './providers.js';
+import { RECORD_DIR_ENV, REPLAY_DIR_ENV } from './fixtures.js';
+import { setProgressStream } from './log.js';
+import { parseFitPadding, parseFitSize } from './fit.js';
+import { parsePngSizes } from './raster.js';
+import { parseOptimizeOptions } from './optimize.js';
+import type { LintFinding } from './lint.js';
+import {
+  exportComponent,
+  componentIndex,
+  componentName,
+  COMPONENT_FRAMEWORKS,
+  type ComponentFile,
+  type ComponentFramework,
+} from './export-components.js';
+
+// Exit codes
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export const COMMANDS = ['generate', 'refine', 'batch', 'components', 'help'];
+
+const USAGE = `Usage:
+  aisvg                                   Start the interactive REPL
+  aisvg generate "<prompt>" [options]     Generate one SVG
+  aisvg refine <id|last> "<feedback>" [options]
+                                          Refine a saved SVG
+  aisvg batch <file> [options]            Generate one SVG per line of <file>
+  aisvg components <dir> [--framework <f>]
+                                          Write the newest version of every saved SVG as a
+                                          React (default) or Vue component into <dir>, with an index.ts
+
+Options:
+  --mode <s|c>          semantic or coordinate (default: coordinate)
+  --provider <name>     LLM provider: anthropic, openai, local, replay (default: $LLM_PROVIDER or anthropic)
+  --record <dir>        save every LLM request/response as a fixture in <dir>
+  --replay <dir>        serve LLM responses from fixtures in <dir> (offline, implies --provider replay)
+  --max-repairs <n>     LLM repair attempts for invalid specs (default: $AISVG_MAX_REPAIRS or 2)
+  --fit <padding>       fit the viewBox to the drawn content plus <padding>
+  --size <n|WxH>        fit the content into a fixed output size, e.g. 24 or 64x64 (implies --fit 0)
+  --png <sizes>         also render PNGs next to each SVG, e.g. 1x,2x,3x or 16,32,64,256
+  --optimize <s>        optimize the markup: "on" for the defaults, or decimals, pretty|min
+                        and no-round|no-defaults|no-comments|no-merge|no-paths, e.g. 2,min
+  --fix-lint <n>        refine each new SVG up to <n> times until lint finds nothing
+                        (shapes outside the viewBox, unreadable text, duplicate ids, ...)
+  --out <file>          generate/refine: also write the SVG to <file>
+  --out-dir <dir>       batch: also write each SVG into <dir>
+  --framework <f>       components: react or vue (default: react)
+
+Prints a JSON result to stdout. Exit codes: 0 success, 1 generation failure, 2 usage error.`;
+
+// Parsed command line
+interface ParsedArgs {
+  command: string;
+  positional: string[];
+  options: Record<string, string>;
+}
+
+// JSON description of one saved file
+interface FileResult {
+  id: string;
+  file: string;
+  out?: string;
+  name: string;
+  description: string;
+  mode: GenerationMode;
+  provider: string;
+  prompt: string;
+  layers: number;
+  repairs: number;
+  sanitized: number;
+  png?: string[]; // rendered PNG paths
+  bytes?: { before: number, after: number }; // markup size before and after optimizing
+  lint?: LintFinding[]; // geometric problems left in the saved spec
+}
+
+// JSON description of one exported component
+interface ComponentResult {
+  id: string; // saved SVG the component was made from
+  file: string;
+  name: string;
+  component: string;
+}
+
+// JSON description of a failed generation
+interface ErrorResult {
+  prompt?: string;
+  error: string;
+}
+
+class UsageError extends Error {}
+
+/**
+ * Split argv into command, positional args and --options
+ */
+function parseArgs(argv: string[]): ParsedArgs {
+  const [command, ...rest] = argv;
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      if (eq !== -1) {
+        options[arg.slice(2, eq)] = arg.slice(eq + 1);
+      } else {
+        const value = rest[i + 1];
+        if (value === undefined || value.startsWith('--')) {
+          throw new UsageError(`Missing value for ${arg}`);
+        }
+        options[arg.slice(2)] = value;
+        i++;
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { command, positional, options };
+}
+
+/**
+ * Write a file to an extra output path, creating parent directories
+ */
+function writeOut(path: string, content: string): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, content);
+}
+
+function toFileResult(result: GenerationResult, out?: string): FileResult {
+  return {
+    id: result.id,
+    file: result.filepath,
+    ...(out ? { out } : {}),
+    name: result.spec.name,
+    description: result.spec.description,
+    mode: result.mode,
+    provider: getCurrentProviderName(),
+    prompt: result.prompt,
+    layers: result.spec.layers.length,
+    repairs: result.repairs.length,
+    sanitized: result.sanitized.length,
+    ...(result.png ? { png: result.png.map(png => outputPath(png.filename)) } : {}),
+    ...(result.optimized ? { bytes: result.optimized } : {}),
+    ...(result.lint.length > 0 ? { lint: result.lint } : {}),
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Read prompts from a batch file (one per line, # comments and blanks skipped)
+ */
+function readPrompts(file: string): string[] {
+  if (!existsSync(file)) {
+    throw new UsageError(`Batch file not found: ${file}`);
+  }
+  return readFileSync(file, 'utf-8')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+}
+
+/**
+ * Write the newest version of each saved SVG as a component into dir, plus an
+ * index re-exporting them all. Returns the index path.
+ */
+function exportComponents(
+  dir: string,
+  framework: ComponentFramework,
+  files: (FileResult | ComponentResult)[],
+  errors: ErrorResult[]
+): string {
+  const exported: { result: ComponentResult, file: ComponentFile }[] = [];
+  const taken = new Set<string>();
+  for (const saved of latestVersions(listSvgs())) {
+    const id = saved.filename.replace(/\.svg$/, '');
+    try {
+      const spec = savedCoordinateSpec(saved);
+      // Unrelated SVGs can share a component name (valve-1 and valve_1, or two "pump"s)
+      const name = componentName(spec.name);
+      let component = name;
+      for (let n = 2; taken.has(component); n++) component = `${name}_${n}`;
+      if (component !== name) {
+        console.error(`Warning: ${id} exported as ${component}, ${name} is already taken`);
+      }
+
+      const file = exportComponent(spec, framework, saved.fit, component);
+      taken.add(component);
+      exported.push({ result: { id, file: join(dir, file.filename), name: saved.name, component }, file });
+    } catch (error) {
+      errors.push({ prompt: saved.prompt, error: `${id}: ${errorMessage(error)}` });
+    }
+  }
+  if (exported.length === 0) {
+    throw new Error('No saved SVGs to export');
+  }
+
+  for (const { result, file } of exported) {
+    console.error(`${result.component} <- ${result.id}`);
+    writeOut(result.file, file.content);
+    files.push(result);
+  }
+  const index = componentIndex(exported.map(({ file }) => file), framework);
+  writeOut(join(dir, index.filename), index.content);
+  return join(dir, index.filename);
+}
+
+/**
+ * Run a one-shot command and return the process exit code
+ */
+export async function runCommand(argv: string[]): Promise<number> {
+  // Keep stdout clean for the JSON result
+  setProgressStream(process.stderr);
+
+  const files: (FileResult | ComponentResult)[] = [];
+  const errors: ErrorResult[] = [];
+  let index: string | undefined;
+
+  try {
+    const { command, positional, options } = parseArgs(argv);
+
+    if (command === 'help') {
+      console.error(USAGE);
+      return EXIT_OK;
+    }
+
+    let mode: GenerationMode = 'coordinate';
+    if (options.mode !== undefined) {
+      const parsed = parseMode(options.mode);
+      if (!parsed) {
+        throw new UsageError(`Invalid mode: ${options.mode}`);
+      }
+      mode = parsed;
+    }
+    if (options.record !== undefined) {
+      process.env[RECORD_DIR_ENV] = options.record;
+    }
+    if (options.replay !== undefined) {
+      process.env[REPLAY_DIR_ENV] = options.replay;
+      setCurrentProvider('replay');
+    }
+    if (options.provider !== undefined && !setCurrentProvider(options.provider)) {
+      const known = listProviders().map(p => p.name).join(', ');
+      throw new UsageError(`Unknown provider: ${options.provider} (available: ${known})`);
+    }
+    if (options['max-repairs'] !== undefined) {
+      if (!/^\d+$/.test(options['max-repairs'])) {
+        throw new UsageError(`Invalid --max-repairs: ${options['max-repairs']}`);
+      }
+      process.env.AISVG_MAX_REPAIRS = options['max-repairs'];
+    }
+    const generation: GenerationOptions = {};
+    if (options.fit !== undefined || options.size !== undefined) {
+      const padding = options.fit !== undefined ? parseFitPadding(options.fit) : 0;
+      if (padding === null) {
+        throw new UsageError(`Invalid --fit padding: ${options.fit}`);
+      }
+      const size = options.size !== undefined ? parseFitSize(options.size) : undefined;
+      if (size === null) {
+        throw new UsageError(`Invalid --size: ${options.size}`);
+      }
+      generation.fit = { padding, ...(size ? { size } : {}) };
+    }
+    if (options.png !== undefined) {
+      const sizes = parsePngSizes(options.png);
+      if (!sizes) {
+        throw new UsageError(`Invalid --png sizes: ${options.png}`);
+      }
+      generation.png = sizes;
+    }
+    if (options.optimize !== undefined) {
+      const optimize = parseOptimizeOptions(options.optimize);
+      if (!optimize) {
+        throw new UsageError(`Invalid --optimize settings: ${options.optimize}`);
+      }
+      generation.optimize = optimize;
+    }
+    if (options['fix-lint'] !== undefined) {
+      if (!/^\d+$/.test(options['fix-lint'])) {
+        throw new UsageError(`Invalid --fix-lint: ${options['fix-lint']}`);
+      }
+      generation.fixLint = Number(options['fix-lint']);
+    }
+    // Exporting components needs no LLM
+    if (command !== 'components') {
+      requireProviderConfig();
+    }
+
+    switch (command) {
+      case 'generate': {
+        const [prompt] = positional;
+        if (!prompt || positional.length > 1) {
+          throw new UsageError('generate takes exactly one prompt argument');
+        }
+        try {
+          const result = await runGeneration(prompt, mode, generation);
+          if (options.out) writeOut(options.out, result.svgMarkup);
+          files.push(toFileResult(result, options.out));
+        } catch (error) {
+          errors.push({ prompt, error: errorMessage(error) });
+        }
+        break;
+      }
+
+      case 'refine': {
+        const [id, feedback] = positional;
+        if (!id || !feedback || positional.length > 2) {
+          throw new UsageError('refine takes an id and a feedback argument');
+        }
+        const previous = getSvgById(id);
+        if (!previous) {
+          throw new UsageError(`No saved SVG with id "${id}"`);
+        }
+        try {
+          const result = await runRefinement(previous, feedback, generation);
+          if (options.out) writeOut(options.out, result.svgMarkup);
+          files.push(toFileResult(result, options.out));
+        } catch (error) {
+          errors.push({ prompt: feedback, error: errorMessage(error) });
+        }
+        break;
+      }
+
+      case 'batch': {
+        const [file] = positional;
+        if (!file || positional.length > 1) {
+          throw new UsageError('batch takes exactly one file argument');
+        }
+        const prompts = readPrompts(file);
+        for (const [index, prompt] of prompts.entries()) {
+          console.error(`\n[${index + 1}/${prompts.length}] ${prompt}`);
+          try {
+            const result = await runGeneration(prompt, mode, generation);
+            const out = options['out-dir'] ? join(options['out-dir'], `${result.id}.svg`) : undefined;
+            if (out) writeOut(out, result.svgMarkup);
+            files.push(toFileResult(result, out));
+          } catch (error) {
+            errors.push({ prompt, error: errorMessage(error) });
+          }
+        }
+        break;
+      }
+
+      case 'components': {
+        const [dir] = positional;
+        if (!dir || positional.length > 1) {
+          throw new UsageError('components takes exactly one directory argument');
+        }
+        const framework = COMPONENT_FRAMEWORKS.find(name => name === (options.framework ?? 'react'));
+        if (!framework) {
+          throw new UsageError(`Invalid --framework: ${options.framework} (use ${COMPONENT_FRAMEWORKS.join(' or ')})`);
+        }
+        index = exportComponents(dir, framework, files, errors);
+        break;
+      }
+
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}\n`);
+      console.error(USAGE);
+      process.stdout.write(JSON.stringify({ ok: false, files, errors: [{ error: error.message }] }, null, 2) + '\n');
+      return EXIT_USAGE;
+    }
+    errors.push({ error: errorMessage(error) });
+  }
+
+  const ok = errors.length === 0;
+  process.stdout.write(JSON.stringify({ ok, files, errors, ...(index ? { index } : {}) }, null, 2) + '\n');
+  return ok ? EXIT_OK : EXIT_FAILURE;
+}
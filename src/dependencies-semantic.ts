@@ -0,0 +1,256 @@
+/**
+ * Semantic Layer Dependencies
+ *
+ * Builds the dependency graph between semantic layers and layout groups
+ * (position references, connector endpoints and group membership), reports
+ * cycles, self-references, unknown references, duplicate ids and relative
+ * positions without an alignment, and orders items so references come first.
+ */
+
+import type { SemanticLayer, LayoutGroup, Anchor, Position } from './schema-semantic.js';
+import { SpecValidationError, joinPath, type ValidationIssue } from './validate.js';
+
+// A reference from one layer or group to another, and the path of the field that holds it
+interface Reference {
+  id: string;
+  path: string;
+}
+
+// A layer or layout group in the dependency graph
+export type LayoutItem =
+  | { kind: 'layer', layer: SemanticLayer }
+  | { kind: 'group', group: LayoutGroup };
+
+interface Node {
+  id: string;
+  kind: LayoutItem['kind'];
+  path: string; // e.g. "layers[0]" or "groups[1]"
+  references: Reference[];
+}
+
+export const ANCHORS = [
+  'left', 'right', 'top', 'bottom', 'center',
+  'top_left', 'top_right', 'bottom_left', 'bottom_right',
+] as const satisfies readonly Anchor[];
+
+/**
+ * Split a connector endpoint into layer id and anchor ("pump.right" -> pump, right).
+ * Without a known anchor suffix the whole string is the layer id.
+ */
+export function parseEndpoint(endpoint: string): { id: string, anchor?: Anchor } {
+  const dot = endpoint.lastIndexOf('.');
+  const suffix = endpoint.slice(dot + 1);
+  if (dot !== -1 && (ANCHORS as readonly string[]).includes(suffix)) {
+    return { id: endpoint.slice(0, dot), anchor: suffix as Anchor };
+  }
+  return { id: endpoint };
+}
+
+/**
+ * Every layer or group id a position refers to
+ */
+function positionReferences(position: Position, path: string): Reference[] {
+  const refs: Reference[] = [];
+  const pair = (between: [string, string] | undefined, parent: string) => {
+    between?.forEach((id, i) => refs.push({ id, path: joinPath(joinPath(parent, 'between'), i) }));
+  };
+
+  if (position.type === 'relative' && position.relativeTo) {
+    refs.push({ id: position.relativeTo, path: joinPath(path, 'relativeTo') });
+  }
+  if (position.type === 'between') {
+    pair(position.between, path);
+  }
+  if (position.type === 'constrained') {
+    for (const axis of ['horizontal', 'vertical'] as const) {
+      const constraint = position[axis];
+      const axisPath = joinPath(path, axis);
+      if (constraint?.relativeTo) refs.push({ id: constraint.relativeTo, path: joinPath(axisPath, 'relativeTo') });
+      pair(constraint?.between, axisPath);
+    }
+  }
+  return refs;
+}
+
+function memberPath(prefix: string, groupIndex: number, memberIndex: number): string {
+  return joinPath(joinPath(joinPath(joinPath(prefix, 'groups'), groupIndex), 'layers'), memberIndex);
+}
+
+/**
+ * Build graph nodes for layers and groups. Group members depend on their group.
+ */
+function buildNodes(layers: SemanticLayer[], groups: LayoutGroup[], prefix = ''): Node[] {
+  const groupOf = new Map<string, Reference>();
+  groups.forEach((group, g) => {
+    group.layers.forEach((member, k) => {
+      if (!groupOf.has(member)) {
+        groupOf.set(member, { id: group.id, path: memberPath(prefix, g, k) });
+      }
+    });
+  });
+
+  const layerNodes = layers.map((layer, i): Node => {
+    const path = joinPath(joinPath(prefix, 'layers'), i);
+    const { shape, position } = layer;
+    const references: Reference[] = [];
+
+    if (shape.shapeType === 'connector') {
+      references.push(
+        { id: parseEndpoint(shape.from).id, path: joinPath(joinPath(path, 'shape'), 'from') },
+        { id: parseEndpoint(shape.to).id, path: joinPath(joinPath(path, 'shape'), 'to') },
+      );
+    } else if (position) {
+      references.push(...positionReferences(position, joinPath(path, 'position')));
+    }
+
+    const group = groupOf.get(layer.id);
+    if (group) references.push(group);
+
+    return { id: layer.id, kind: 'layer', path, references };
+  });
+
+  const groupNodes = groups.map((group, g): Node => {
+    const path = joinPath(joinPath(prefix, 'groups'), g);
+    return { id: group.id, kind: 'group', path, references: positionReferences(group.position, joinPath(path, 'position')) };
+  });
+
+  return [...layerNodes, ...groupNodes];
+}
+
+/**
+ * Ids of the layers a layer's position depends on
+ */
+export function layerDependencies(layer: SemanticLayer): string[] {
+  return buildNodes([layer], [])[0].references.map(ref => ref.id);
+}
+
+/**
+ * Report every dependency problem in a list of layers and groups (empty = resolvable).
+ * `prefix` is the path of the object holding them (e.g. "components[0]").
+ */
+export function diagnoseDependencies(layers: SemanticLayer[], groups: LayoutGroup[] = [], prefix = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const nodes = buildNodes(layers, groups, prefix);
+  const nodeById = new Map<string, Node>();
+
+  for (const node of nodes) {
+    const first = nodeById.get(node.id);
+    if (first) {
+      issues.push({ path: joinPath(node.path, 'id'), message: `duplicate ${node.kind} id "${node.id}" (also ${first.path})` });
+    } else {
+      nodeById.set(node.id, node);
+    }
+  }
+
+  // Group members must be existing layers, and belong to one group only
+  const memberOf = new Map<string, string>();
+  groups.forEach((group, g) => {
+    group.layers.forEach((member, k) => {
+      const kind = nodeById.get(member)?.kind;
+      if (kind === undefined) {
+        issues.push({ path: memberPath(prefix, g, k), message: `unknown layer "${member}"` });
+      } else if (kind === 'group') {
+        issues.push({ path: memberPath(prefix, g, k), message: `"${member}" is a group, only layers can be members` });
+      }
+      const other = memberOf.get(member);
+      if (other !== undefined) {
+        issues.push({ path: memberPath(prefix, g, k), message: `over-constrained: layer "${member}" is already in group "${other}"` });
+      } else {
+        memberOf.set(member, group.id);
+      }
+    });
+  });
+
+  nodes.forEach((node, i) => {
+    const position = node.kind === 'layer' ? layers[i].position : undefined;
+    if (position?.type === 'relative' && !position.alignment) {
+      issues.push({ path: joinPath(joinPath(node.path, 'position'), 'alignment'), message: 'required for relative positioning' });
+    }
+    for (const { id, path } of node.references) {
+      if (id === node.id) {
+        issues.push({ path, message: `${node.kind} "${node.id}" references itself` });
+      } else if (!nodeById.has(id)) {
+        issues.push({ path, message: `unknown layer "${id}"` });
+      }
+    }
+  });
+
+  // Depth-first search for cycles, reporting the full chain once per cycle
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const reported = new Set<string>();
+
+  function visit(node: Node): void {
+    state.set(node.id, 'visiting');
+    stack.push(node.id);
+
+    for (const { id: ref, path } of node.references) {
+      if (ref === node.id || !nodeById.has(ref)) continue;
+
+      if (state.get(ref) === 'visiting') {
+        const chain = stack.slice(stack.indexOf(ref));
+        const key = [...chain].sort().join('\u0000');
+        if (!reported.has(key)) {
+          reported.add(key);
+          issues.push({ path, message: `dependency cycle: ${[...chain, ref].join(' -> ')}` });
+        }
+      } else if (!state.has(ref)) {
+        visit(nodeById.get(ref)!);
+      }
+    }
+
+    stack.pop();
+    state.set(node.id, 'done');
+  }
+
+  for (const node of nodeById.values()) {
+    if (!state.has(node.id)) visit(node);
+  }
+
+  return issues;
+}
+
+/**
+ * Sort layers and groups by dependencies (referenced items come first).
+ * Throws a SpecValidationError listing every problem if the graph can't be resolved.
+ */
+export function sortByDependencies(layers: SemanticLayer[], groups: LayoutGroup[] = []): LayoutItem[] {
+  const issues = diagnoseDependencies(layers, groups);
+  if (issues.length > 0) {
+    throw new SpecValidationError(issues);
+  }
+
+  const items = new Map<string, LayoutItem>([
+    ...layers.map((layer): [string, LayoutItem] => [layer.id, { kind: 'layer', layer }]),
+    ...groups.map((group): [string, LayoutItem] => [group.id, { kind: 'group', group }]),
+  ]);
+  const nodeById = new Map(buildNodes(layers, groups).map(node => [node.id, node]));
+  const sorted: LayoutItem[] = [];
+  const processed = new Set<string>();
+
+  function processItem(id: string) {
+    if (processed.has(id)) return;
+    processed.add(id);
+
+    // If this item references others, process those first
+    for (const ref of nodeById.get(id)!.references) {
+      processItem(ref.id);
+    }
+
+    sorted.push(items.get(id)!);
+  }
+
+  for (const id of items.keys()) {
+    processItem(id);
+  }
+
+  return sorted;
+}
+
+/**
+ * Sort layers by dependencies (referenced shapes must come first).
+ * Throws a SpecValidationError listing every problem if the graph can't be resolved.
+ */
+export function sortLayersByDependencies(layers: SemanticLayer[], groups: LayoutGroup[] = []): SemanticLayer[] {
+  return sortByDependencies(layers, groups).flatMap(item => (item.kind === 'layer' ? [item.layer] : []));
+}
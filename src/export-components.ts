@@ -0,0 +1,267 @@
+/**
+ * React / Vue Component Export
+ *
+ * Writes a coordinate spec as a typed icon component: a React function
+ * component (TSX) or a Vue single-file component. Components take a size,
+ * a className (Vue: the class attribute falls through), an accessible title
+ * and one prop per theme-able colour. A drawing with a single colour uses
+ * currentColor instead, so it follows the surrounding text colour like an
+ * icon font. Layer ids are left out so the component can be used many times
+ * on a page; def ids get a per-instance prefix (useId) for the same reason.
+ */
+
+import type { SvgSpec, SvgLayer, BaseShapeProps } from './schema.js';
+import { layerElement, defElement, svgCanvas, type SvgElement } from './generator.js';
+import { escapeAttr, escapeText, escapeComment } from './sanitize.js';
+import type { FitOptions } from './fit.js';
+
+export const COMPONENT_FRAMEWORKS = ['react', 'vue'] as const;
+export type ComponentFramework = typeof COMPONENT_FRAMEWORKS[number];
+
+// A colour that became a prop
+export interface ColorProp {
+  name: string; // e.g. "bodyFill", named after the first layer using it
+  value: string; // the spec's colour, used as the default
+}
+
+// A generated component file
+export interface ComponentFile {
+  component: string; // component name, e.g. "BallValveIsa"
+  filename: string; // e.g. "BallValveIsa.tsx"
+  content: string;
+}
+
+// Attribute value in a component: a literal or a script expression
+type ComponentValue = string | number | { expression: string };
+
+// Paint values that are not colours
+const NOT_A_COLOR = /^(none|transparent|currentColor|inherit|url\(.*\))$/i;
+
+const FILE_EXTENSION: Record<ComponentFramework, string> = { react: 'tsx', vue: 'vue' };
+
+/**
+ * Words of an id or name: "ball_valve-ISA" -> ["ball", "valve", "ISA"]
+ */
+function words(value: string): string[] {
+  return value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+function camelCase(value: string): string {
+  const [first = '', ...rest] = words(value);
+  return first.charAt(0).toLowerCase() + first.slice(1) + rest.map(capitalize).join('');
+}
+
+/**
+ * Component name for a spec name: "ball_valve_isa" -> "BallValveIsa"
+ */
+export function componentName(name: string): string {
+  const pascal = words(name).map(word => capitalize(word.toLowerCase())).join('');
+  // Identifiers can't start with a digit
+  return /^[A-Za-z]/.test(pascal) ? pascal : `Icon${pascal}`;
+}
+
+/**
+ * Colours used as fill or stroke, each named after the first layer and property
+ * using it (one colour becomes currentColor and needs no prop)
+ */
+export function colorProps(spec: SvgSpec): ColorProp[] {
+  const props: ColorProp[] = [];
+  const names = new Set<string>();
+
+  const visit = (layers: SvgLayer[]) => {
+    for (const layer of layers) {
+      const { fill, stroke } = layer.props as BaseShapeProps;
+      for (const [value, suffix] of [[fill, 'Fill'], [stroke, 'Stroke']] as const) {
+        if (value === undefined || NOT_A_COLOR.test(value)) continue;
+        if (props.some(prop => prop.value.toLowerCase() === value.toLowerCase())) continue;
+
+        let name = `${camelCase(layer.id) || 'layer'}${suffix}`;
+        for (let i = 2; names.has(name); i++) name = `${camelCase(layer.id) || 'layer'}${suffix}${i}`;
+        names.add(name);
+        props.push({ name, value });
+      }
+      visit(layer.children ?? []);
+    }
+  };
+  for (const def of spec.defs ?? []) {
+    if ('layers' in def) visit(def.layers);
+  }
+  visit(spec.layers);
+  return props;
+}
+
+/**
+ * Attribute values of an element as component values: colours become props,
+ * def ids and references get the instance prefix, layer ids are dropped
+ */
+function componentAttrs(element: SvgElement, colors: ColorProp[], defIds: Set<string>): [string, ComponentValue][] {
+  const single = colors.length === 1;
+  const result: [string, ComponentValue][] = [];
+
+  for (const [name, value] of element.attrs) {
+    if (name === 'id') {
+      if (defIds.has(String(value))) result.push([name, { expression: `\`\${uid}-${value}\`` }]);
+      continue;
+    }
+
+    const reference = typeof value === 'string' ? /^url\(#(.+)\)$/.exec(value) : null;
+    if (reference && defIds.has(reference[1])) {
+      result.push([name, { expression: `\`url(#\${uid}-${reference[1]})\`` }]);
+      continue;
+    }
+
+    const color = (name === 'fill' || name === 'stroke') && typeof value === 'string'
+      ? colors.find(prop => prop.value.toLowerCase() === value.toLowerCase())
+      : undefined;
+    if (color) {
+      result.push([name, single ? 'currentColor' : { expression: color.name }]);
+    } else {
+      result.push([name, value]);
+    }
+  }
+  return result;
+}
+
+// JSX attribute names are camelCase: stroke-width -> strokeWidth
+function jsxName(name: string): string {
+  return name.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+}
+
+function jsxAttr(name: string, value: ComponentValue): string {
+  if (typeof value === 'object') return `${jsxName(name)}={${value.expression}}`;
+  if (typeof value === 'number') return `${jsxName(name)}={${value}}`;
+  return `${jsxName(name)}="${escapeAttr(value)}"`;
+}
+
+function vueAttr(name: string, value: ComponentValue): string {
+  if (typeof value === 'object') return `:${name}="${escapeAttr(value.expression)}"`;
+  return `${name}="${escapeAttr(value)}"`;
+}
+
+/**
+ * Serialize an element as JSX or a Vue template
+ */
+function elementMarkup(
+  element: SvgElement,
+  framework: ComponentFramework,
+  colors: ColorProp[],
+  defIds: Set<string>,
+  indent: string
+): string {
+  const { tag, text, children } = element;
+  const toAttr = framework === 'react' ? jsxAttr : vueAttr;
+  const open = [tag, ...componentAttrs(element, colors, defIds).map(([name, value]) => toAttr(name, value))].join(' ');
+
+  if (text !== undefined) {
+    // Vue would read "{{" as an interpolation, JSX "{" as an expression
+    const content = framework === 'react' ? `{${JSON.stringify(text)}}` : escapeText(text).replace(/{/g, '&#123;');
+    return `${indent}<${open}>${content}</${tag}>`;
+  }
+  if (children) {
+    return [
+      `${indent}<${open}>`,
+      ...children.map(child => elementMarkup(child, framework, colors, defIds, `${indent}  `)),
+      `${indent}</${tag}>`,
+    ].join('\n');
+  }
+  return `${indent}<${open} />`;
+}
+
+/**
+ * Component source for a coordinate spec (fit matches a fitted saved SVG)
+ */
+export function exportComponent(
+  spec: SvgSpec,
+  framework: ComponentFramework,
+  fit?: FitOptions,
+  component = componentName(spec.name)
+): ComponentFile {
+  const { viewBox, width, height } = svgCanvas(spec, fit);
+  const viewBoxStr = `${viewBox.minX} ${viewBox.minY} ${viewBox.width} ${viewBox.height}`;
+  const size = Math.max(width, height);
+
+  const colors = colorProps(spec);
+  const themed = colors.length > 1 ? colors : [];
+  const defIds = new Set((spec.defs ?? []).map(def => def.id));
+  const usesIds = defIds.size > 0;
+
+  const elements: SvgElement[] = [
+    ...(spec.defs?.length ? [{ tag: 'defs', attrs: [], children: spec.defs.map(defElement) }] : []),
+    ...spec.layers.map(layerElement),
+  ];
+  const body = elements.map(element => elementMarkup(element, framework, colors, defIds, framework === 'react' ? '      ' : '    '));
+  const summary = `Generated by aisvg from "${spec.name}": ${spec.description.replace(/\s+/g, ' ')}`;
+
+  if (framework === 'react') {
+    const content = [
+      `// ${summary}`,
+      ...(usesIds ? ["import { useId } from 'react';", ''] : []),
+      `export interface ${component}Props {`,
+      '  size?: number | string;',
+      '  className?: string;',
+      '  title?: string;',
+      ...themed.map(prop => `  ${prop.name}?: string;`),
+      '}',
+      '',
+      `export function ${component}({`,
+      `  size = ${size},`,
+      '  className,',
+      '  title,',
+      ...themed.map(prop => `  ${prop.name} = ${JSON.stringify(prop.value)},`),
+      `}: ${component}Props) {`,
+      ...(usesIds ? ['  const uid = useId();', ''] : []),
+      '  return (',
+      `    <svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBoxStr}" width={size} height={size} className={className} role="img" aria-hidden={title ? undefined : true}>`,
+      '      {title && <title>{title}</title>}',
+      ...body,
+      '    </svg>',
+      '  );',
+      '}',
+      '',
+      `export default ${component};`,
+      '',
+    ];
+    return { component, filename: `${component}.${FILE_EXTENSION.react}`, content: content.join('\n') };
+  }
+
+  const defaults = [`size: ${size}`, ...themed.map(prop => `${prop.name}: ${JSON.stringify(prop.value)}`)];
+  const content = [
+    `<!-- ${escapeComment(summary)} -->`,
+    '<script setup lang="ts">',
+    ...(usesIds ? ["import { useId } from 'vue';", ''] : []),
+    'withDefaults(defineProps<{',
+    '  size?: number | string;',
+    '  title?: string;',
+    ...themed.map(prop => `  ${prop.name}?: string;`),
+    '}>(), {',
+    ...defaults.map(line => `  ${line},`),
+    '});',
+    ...(usesIds ? ['', 'const uid = useId();'] : []),
+    '</script>',
+    '',
+    '<template>',
+    `  <svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBoxStr}" :width="size" :height="size" role="img" :aria-hidden="title ? undefined : 'true'">`,
+    '    <title v-if="title">{{ title }}</title>',
+    ...body,
+    '  </svg>',
+    '</template>',
+    '',
+  ];
+  return { component, filename: `${component}.${FILE_EXTENSION.vue}`, content: content.join('\n') };
+}
+
+/**
+ * Index module re-exporting every component of a batch
+ */
+export function componentIndex(files: ComponentFile[], framework: ComponentFramework): ComponentFile {
+  // TypeScript resolves .tsx modules without the extension, .vue files need it
+  const extension = framework === 'vue' ? `.${FILE_EXTENSION.vue}` : '';
+  const sorted = [...files].sort((a, b) => a.component.localeCompare(b.component));
+  const lines = sorted.map(file => `export { default as ${file.component} } from './${file.component}${extension}';`);
+  return { component: 'index', filename: 'index.ts', content: lines.join('\n') + '\n' };
+}
+
@@ -0,0 +1,108 @@
+/**
+ * draw.io Library Export
+ *
+ * Writes a coordinate spec as a draw.io / diagrams.net shape library: one
+ * image shape holding the SVG, cropped to its drawn content, with connection
+ * points where the drawing reaches its edges (pipe ends, valve tips, the
+ * sides of a circle) so connectors snap onto the symbol.
+ */
+
+import type { SvgSpec } from './schema.js';
+import { generateSvgMarkup } from './generator.js';
+import { layerBounds, svgSpecBounds } from './bounds.js';
+import { fitCanvas, unionBounds, type Canvas } from './fit.js';
+import { attr, escapeText } from './sanitize.js';
+
+// One entry of a draw.io library (the JSON inside <mxlibrary>)
+export interface DrawioLibraryEntry {
+  xml: string; // mxGraphModel with a single image cell
+  w: number;
+  h: number;
+  aspect: 'fixed';
+  title: string;
+}
+
+// Connection point as fractions of the shape's width and height
+type ConnectionPoint = [number, number];
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Connection points where layers touch the edges of the content: one per
+ * touching layer and side, at the middle of where it touches
+ */
+export function connectionPoints(spec: SvgSpec, canvas: Canvas): ConnectionPoint[] {
+  const { minX, minY, width, height } = canvas.viewBox;
+  // Labels don't connect to anything, so the edges are those of the other layers
+  const layers = spec.layers.filter(layer => layer.type !== 'text').map(layerBounds);
+  const content = unionBounds(layers);
+  if (!content) return [];
+
+  const points: ConnectionPoint[] = [];
+  const add = (x: number, y: number) => {
+    const point: ConnectionPoint = [round((x - minX) / width), round((y - minY) / height)];
+    if (!points.some(([px, py]) => px === point[0] && py === point[1])) points.push(point);
+  };
+
+  // Clockwise from the top
+  for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+    for (const bounds of layers) {
+      if (!bounds || bounds[side] !== content[side]) continue;
+      if (side === 'top' || side === 'bottom') {
+        add((bounds.left + bounds.right) / 2, content[side]);
+      } else {
+        add(content[side], (bounds.top + bounds.bottom) / 2);
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Library entry for a coordinate spec
+ */
+export function drawioLibraryEntry(spec: SvgSpec): DrawioLibraryEntry {
+  const bounds = svgSpecBounds(spec);
+  if (!bounds) {
+    throw new Error(`${spec.name} has no drawn content to export`);
+  }
+
+  // Crop to the content so connection points sit on the shape's edges
+  const canvas = fitCanvas(bounds, { padding: 0 });
+  const svg = generateSvgMarkup(spec, { padding: 0 });
+  const points = connectionPoints(spec, canvas);
+
+  // draw.io style values can't contain ";", so the data URI leaves out ";base64"
+  const style = [
+    'shape=image',
+    'verticalLabelPosition=bottom',
+    'verticalAlign=top',
+    'aspect=fixed',
+    'imageAspect=0',
+    `points=${JSON.stringify(points)}`,
+    `image=data:image/svg+xml,${Buffer.from(svg).toString('base64')}`,
+  ].join(';');
+
+  const cell = [
+    `<mxCell ${attr('id', '2')} ${attr('value', '')} ${attr('style', style)} ${attr('vertex', '1')} ${attr('parent', '1')}>`,
+    `<mxGeometry ${attr('width', canvas.width)} ${attr('height', canvas.height)} ${attr('as', 'geometry')} />`,
+    '</mxCell>',
+  ].join('');
+
+  return {
+    xml: `<mxGraphModel><root><mxCell id="0" /><mxCell id="1" parent="0" />${cell}</root></mxGraphModel>`,
+    w: canvas.width,
+    h: canvas.height,
+    aspect: 'fixed',
+    title: spec.name,
+  };
+}
+
+/**
+ * draw.io library file (open it with File > Open Library in draw.io)
+ */
+export function drawioLibrary(entries: DrawioLibraryEntry[]): string {
+  return `<mxlibrary>${escapeText(JSON.stringify(entries))}</mxlibrary>\n`;
+}
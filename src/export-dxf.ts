@@ -0,0 +1,347 @@
+/**
+ * DXF Export
+ *
+ * Writes a coordinate spec as a minimal AutoCAD R2000 DXF file (header,
+ * symbol tables, model and paper space blocks, entities and the root
+ * dictionary) for use in CAD. Every object has a handle and names its owner,
+ * as R2000 readers expect. Every SVG layer becomes entities on a DXF layer
+ * named after its id: LINE, CIRCLE, ELLIPSE, LWPOLYLINE and TEXT, with curves
+ * and arcs in paths flattened to polylines. The y axis is flipped
+ * so the drawing is upright with the viewBox's bottom-left corner at 0,0.
+ * Fills, gradients, clip paths and markers have no DXF equivalent and are
+ * not exported.
+ */
+
+import type {
+  SvgSpec,
+  SvgLayer,
+  BaseShapeProps,
+  RectProps,
+  CircleProps,
+  EllipseProps,
+  LineProps,
+  PolylineProps,
+  PathProps,
+  TextProps,
+} from './schema.js';
+import { parsePathData, flattenPath, type Point, type FlatSubpath } from './path.js';
+import {
+  parseTransform,
+  parsePoints,
+  multiply,
+  applyPoint,
+  applyVector,
+  svgSpecBounds,
+  DEFAULT_FONT_SIZE,
+  textLines,
+  type Matrix,
+} from './bounds.js';
+
+// DXF file and the layers that could not be exported
+export interface DxfExport {
+  dxf: string;
+  skipped: string[]; // ids of layers left out (e.g. unparseable path data)
+}
+
+// One DXF group: code and value
+type Group = [number, string | number];
+
+// TEXT horizontal (72) and vertical (73) justification codes
+const HORIZONTAL_JUSTIFY: Record<NonNullable<TextProps['textAnchor']>, number> = { start: 0, middle: 1, end: 2 };
+const VERTICAL_JUSTIFY: Record<NonNullable<TextProps['dominantBaseline']>, number> = { auto: 0, middle: 2, hanging: 3 };
+
+// Characters not allowed in DXF layer names
+const INVALID_LAYER_CHARS = /[<>/\\":;?*|=`,]/g;
+
+/**
+ * DXF layer name for a layer id
+ */
+export function dxfLayerName(id: string): string {
+  return id.replace(INVALID_LAYER_CHARS, '_');
+}
+
+/**
+ * Format a number without float noise or exponent notation
+ */
+function num(value: number): string {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  return Object.is(rounded, -0) ? '0' : rounded.toFixed(6).replace(/\.?0+$/, '');
+}
+
+/**
+ * Text as DXF expects it: non-ASCII characters as \U+XXXX escapes
+ */
+function dxfText(text: string): string {
+  return [...text].map(char => {
+    const code = char.codePointAt(0)!;
+    return code < 0x80 ? char : `\\U+${code.toString(16).toUpperCase().padStart(4, '0')}`;
+  }).join('');
+}
+
+function length([x, y]: Point): number {
+  return Math.hypot(x, y);
+}
+
+/**
+ * CIRCLE or ELLIPSE for the ellipse center + u·cos(θ) + v·sin(θ)
+ */
+function ellipseGroups(center: Point, u: Point, v: Point): Group[] {
+  // Principal axes of the (possibly skewed) ellipse
+  const dot = (a: Point, b: Point) => a[0] * b[0] + a[1] * b[1];
+  const t = Math.atan2(2 * dot(u, v), dot(u, u) - dot(v, v)) / 2;
+  const a: Point = [u[0] * Math.cos(t) + v[0] * Math.sin(t), u[1] * Math.cos(t) + v[1] * Math.sin(t)];
+  const b: Point = [-u[0] * Math.sin(t) + v[0] * Math.cos(t), -u[1] * Math.sin(t) + v[1] * Math.cos(t)];
+  const [major, minor] = length(a) >= length(b) ? [a, b] : [b, a];
+
+  if (length(major) - length(minor) < 1e-9 * length(major)) {
+    return [[0, 'CIRCLE'], [100, 'AcDbCircle'], [10, num(center[0])], [20, num(center[1])], [30, 0], [40, num(length(major))]];
+  }
+  return [
+    [0, 'ELLIPSE'],
+    [100, 'AcDbEllipse'],
+    [10, num(center[0])], [20, num(center[1])], [30, 0],
+    [11, num(major[0])], [21, num(major[1])], [31, 0],
+    [210, 0], [220, 0], [230, 1],
+    [40, num(length(minor) / length(major))],
+    [41, 0],
+    [42, num(2 * Math.PI)],
+  ];
+}
+
+function polylineGroups(points: Point[], closed: boolean): Group[] {
+  return [
+    [0, 'LWPOLYLINE'],
+    [100, 'AcDbPolyline'],
+    [90, points.length],
+    [70, closed ? 1 : 0],
+    ...points.flatMap(([x, y]): Group[] => [[10, num(x)], [20, num(y)]]),
+  ];
+}
+
+/**
+ * Outline of a rounded rectangle as path data (radii clamped like SVG does)
+ */
+function roundedRectPath({ x, y, width, height, rx, ry }: RectProps): string {
+  const rX = Math.min(rx ?? ry ?? 0, width / 2);
+  const rY = Math.min(ry ?? rx ?? 0, height / 2);
+  return [
+    `M${x + rX},${y}`,
+    `H${x + width - rX}`, `A${rX},${rY} 0 0 1 ${x + width},${y + rY}`,
+    `V${y + height - rY}`, `A${rX},${rY} 0 0 1 ${x + width - rX},${y + height}`,
+    `H${x + rX}`, `A${rX},${rY} 0 0 1 ${x},${y + height - rY}`,
+    `V${y + rY}`, `A${rX},${rY} 0 0 1 ${x + rX},${y}`,
+    'Z',
+  ].join(' ');
+}
+
+/**
+ * Add the entities of one layer (groups recurse into their children), or its id
+ * to skipped if it can't be exported
+ */
+function layerEntities(layer: SvgLayer, parent: Matrix, entities: Group[][], skipped: string[]): void {
+  const props = layer.props as BaseShapeProps;
+  const own = props.transform ? parseTransform(props.transform) : null;
+  if (props.transform && !own) {
+    skipped.push(layer.id);
+    return;
+  }
+  const matrix = own ? multiply(parent, own) : parent;
+  const at = (point: Point) => applyPoint(matrix, point);
+  const onLayer = (groups: Group[]) => {
+    // Common entity data goes between the entity type and its subclass
+    const [type, subclass, ...rest] = groups;
+    entities.push([type, [100, 'AcDbEntity'], [8, dxfLayerName(layer.id)], subclass, ...rest]);
+  };
+  const subpaths = (flat: FlatSubpath[]) => {
+    for (const { points, closed } of flat) onLayer(polylineGroups(points.map(at), closed));
+  };
+
+  switch (layer.type) {
+    case 'group':
+      for (const child of layer.children ?? []) layerEntities(child, matrix, entities, skipped);
+      break;
+
+    case 'rect': {
+      const p = props as RectProps;
+      if (p.rx || p.ry) {
+        subpaths(flattenPath(parsePathData(roundedRectPath(p))));
+      } else {
+        const corners: Point[] = [[p.x, p.y], [p.x + p.width, p.y], [p.x + p.width, p.y + p.height], [p.x, p.y + p.height]];
+        onLayer(polylineGroups(corners.map(at), true));
+      }
+      break;
+    }
+
+    case 'circle': {
+      const p = props as CircleProps;
+      onLayer(ellipseGroups(at([p.cx, p.cy]), applyVector(matrix, [p.r, 0]), applyVector(matrix, [0, p.r])));
+      break;
+    }
+
+    case 'ellipse': {
+      const p = props as EllipseProps;
+      onLayer(ellipseGroups(at([p.cx, p.cy]), applyVector(matrix, [p.rx, 0]), applyVector(matrix, [0, p.ry])));
+      break;
+    }
+
+    case 'line': {
+      const p = props as LineProps;
+      const [x1, y1] = at([p.x1, p.y1]);
+      const [x2, y2] = at([p.x2, p.y2]);
+      onLayer([[0, 'LINE'], [100, 'AcDbLine'], [10, num(x1)], [20, num(y1)], [30, 0], [11, num(x2)], [21, num(y2)], [31, 0]]);
+      break;
+    }
+
+    case 'polyline':
+    case 'polygon':
+      onLayer(polylineGroups(parsePoints((props as PolylineProps).points).map(at), layer.type === 'polygon'));
+      break;
+
+    case 'path': {
+      let flat: FlatSubpath[];
+      try {
+        flat = flattenPath(parsePathData((props as PathProps).d));
+      } catch {
+        skipped.push(layer.id);
+        return;
+      }
+      subpaths(flat);
+      break;
+    }
+
+    case 'text': {
+      const p = props as TextProps;
+      const [dx, dy] = applyVector(matrix, [1, 0]);
+      const scale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+      const rotation = (Math.atan2(dy, dx) * 180) / Math.PI;
+      const horizontal = HORIZONTAL_JUSTIFY[p.textAnchor ?? 'start'];
+      const vertical = VERTICAL_JUSTIFY[p.dominantBaseline ?? 'auto'];
+      const aligned = horizontal !== 0 || vertical !== 0;
+
+      // One TEXT entity per line
+      for (const line of textLines(p)) {
+        const [x, y] = at([p.x, line.y]);
+        onLayer([
+          [0, 'TEXT'],
+          [100, 'AcDbText'],
+          [10, num(x)], [20, num(y)], [30, 0],
+          [40, num((p.fontSize ?? DEFAULT_FONT_SIZE) * scale)],
+          [1, dxfText(line.text)],
+          ...(Math.abs(rotation) > 1e-9 ? [[50, num(rotation)] as Group] : []),
+          ...(horizontal !== 0 ? [[72, horizontal] as Group] : []),
+          // Justified text is placed by its alignment point
+          ...(aligned ? [[11, num(x)], [21, num(y)], [31, 0]] as Group[] : []),
+          [100, 'AcDbText'],
+          ...(vertical !== 0 ? [[73, vertical] as Group] : []),
+        ]);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Symbol table with its records, each given a handle and owned by the table
+ * (extra groups follow the table's own subclass)
+ */
+function table(name: string, handle: () => string, records: Group[][], extra: Group[] = [], recordHandles = records.map(handle)): Group[] {
+  const own = handle();
+  return [
+    [0, 'TABLE'], [2, name], [5, own], [330, 0], [100, 'AcDbSymbolTable'], [70, records.length], ...extra,
+    ...records.flatMap(([type, ...rest], i): Group[] => [type, [5, recordHandles[i]], [330, own], [100, 'AcDbSymbolTableRecord'], ...rest]),
+    [0, 'ENDTAB'],
+  ];
+}
+
+/**
+ * BLOCK and ENDBLK of an empty block, owned by its block record
+ */
+function block(name: string, handle: () => string, owner: string): Group[] {
+  return [
+    [0, 'BLOCK'], [5, handle()], [330, owner], [100, 'AcDbEntity'], [8, '0'], [100, 'AcDbBlockBegin'],
+    [2, name], [70, 0], [10, 0], [20, 0], [30, 0], [3, name], [1, ''],
+    [0, 'ENDBLK'], [5, handle()], [330, owner], [100, 'AcDbEntity'], [8, '0'], [100, 'AcDbBlockEnd'],
+  ];
+}
+
+/**
+ * Export a coordinate spec as a DXF file
+ */
+export function exportDxf(spec: SvgSpec): DxfExport {
+  const { minX = 0, minY = 0, height } = spec.viewBox;
+  // SVG y grows downwards, DXF y upwards
+  const flip: Matrix = [1, 0, 0, -1, -minX, minY + height];
+
+  const entities: Group[][] = [];
+  const skipped: string[] = [];
+  for (const layer of spec.layers) layerEntities(layer, flip, entities, skipped);
+
+  // Handles are hexadecimal; $HANDSEED is the next free one
+  let lastHandle = 0;
+  const handle = () => (++lastHandle).toString(16).toUpperCase();
+  const modelSpace = handle();
+  const paperSpace = handle();
+  const rootDictionary = handle();
+  const groupDictionary = handle();
+
+  const layerNames = [...new Set(['0', ...entities.map(entity => String(entity.find(([code]) => code === 8)![1]))])];
+  const bounds = svgSpecBounds(spec);
+  const [extMinX, extMinY] = bounds ? applyPoint(flip, [bounds.left, bounds.bottom]) : [0, 0];
+  const [extMaxX, extMaxY] = bounds ? applyPoint(flip, [bounds.right, bounds.top]) : [0, 0];
+
+  const lineType = (name: string, description: string): Group[] =>
+    [[0, 'LTYPE'], [100, 'AcDbLinetypeTableRecord'], [2, name], [70, 0], [3, description], [72, 65], [73, 0], [40, 0]];
+  const blockRecord = (name: string): Group[] => [[0, 'BLOCK_RECORD'], [100, 'AcDbBlockTableRecord'], [2, name]];
+
+  const tables: Group[] = [
+    ...table('VPORT', handle, []),
+    ...table('LTYPE', handle, [lineType('ByBlock', ''), lineType('ByLayer', ''), lineType('Continuous', 'Solid line')]),
+    ...table('LAYER', handle, layerNames.map((name): Group[] =>
+      [[0, 'LAYER'], [100, 'AcDbLayerTableRecord'], [2, name], [70, 0], [62, 7], [6, 'Continuous']])),
+    ...table('STYLE', handle, [[
+      [0, 'STYLE'], [100, 'AcDbTextStyleTableRecord'],
+      [2, 'Standard'], [70, 0], [40, 0], [41, 1], [50, 0], [71, 0], [42, 1], [3, 'txt'], [4, ''],
+    ]]),
+    ...table('VIEW', handle, []),
+    ...table('UCS', handle, []),
+    ...table('APPID', handle, [[[0, 'APPID'], [100, 'AcDbRegAppTableRecord'], [2, 'ACAD'], [70, 0]]]),
+    ...table('DIMSTYLE', handle, [], [[100, 'AcDbDimStyleTable'], [71, 0]]),
+    ...table('BLOCK_RECORD', handle, [blockRecord('*Model_Space'), blockRecord('*Paper_Space')], [], [modelSpace, paperSpace]),
+  ];
+  const blocks: Group[] = [...block('*Model_Space', handle, modelSpace), ...block('*Paper_Space', handle, paperSpace)];
+  // Entities are owned by model space; handle and owner go right after the entity type
+  const entityGroups = entities.flatMap(([type, ...rest]): Group[] => [type, [5, handle()], [330, modelSpace], ...rest]);
+
+  const groups: Group[] = [
+    [0, 'SECTION'], [2, 'HEADER'],
+    [9, '$ACADVER'], [1, 'AC1015'],
+    [9, '$HANDSEED'], [5, handle()],
+    [9, '$INSUNITS'], [70, 0],
+    [9, '$EXTMIN'], [10, num(extMinX)], [20, num(extMinY)], [30, 0],
+    [9, '$EXTMAX'], [10, num(extMaxX)], [20, num(extMaxY)], [30, 0],
+    [0, 'ENDSEC'],
+
+    [0, 'SECTION'], [2, 'CLASSES'],
+    [0, 'ENDSEC'],
+
+    [0, 'SECTION'], [2, 'TABLES'],
+    ...tables,
+    [0, 'ENDSEC'],
+
+    [0, 'SECTION'], [2, 'BLOCKS'],
+    ...blocks,
+    [0, 'ENDSEC'],
+
+    [0, 'SECTION'], [2, 'ENTITIES'],
+    ...entityGroups,
+    [0, 'ENDSEC'],
+
+    [0, 'SECTION'], [2, 'OBJECTS'],
+    [0, 'DICTIONARY'], [5, rootDictionary], [330, 0], [100, 'AcDbDictionary'], [281, 1], [3, 'ACAD_GROUP'], [350, groupDictionary],
+    [0, 'DICTIONARY'], [5, groupDictionary], [330, rootDictionary], [100, 'AcDbDictionary'], [281, 1],
+    [0, 'ENDSEC'],
+    [0, 'EOF'],
+  ];
+
+  return { dxf: groups.map(([code, value]) => `${code}\n${value}`).join('\n') + '\n', skipped };
+}
@@ -0,0 +1,122 @@
+/**
+ * Canvas Fitting
+ *
+ * Optional step after layout: replaces the canvas the LLM picked with one
+ * fitted to the drawn content, either as a viewBox around the content plus
+ * padding or scaled and centered into a fixed output size (e.g. 24x24 icons)
+ */
+
+// Axis-aligned extent of drawn content
+export interface Bounds {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// How to fit the canvas to the content
+export interface FitOptions {
+  padding?: number; // space around the content, in drawing units (default 0)
+  size?: { width: number, height: number }; // fixed output size; content is scaled to fit and centered
+}
+
+// Final viewBox and rendered size of an SVG
+export interface Canvas {
+  viewBox: { minX: number, minY: number, width: number, height: number };
+  width: number;
+  height: number;
+}
+
+// Smallest extent used for content without width or height (a lone point or straight line)
+const MIN_EXTENT = 1;
+
+/**
+ * Smallest bounds containing all the given bounds (null if there are none)
+ */
+export function unionBounds(all: (Bounds | null)[]): Bounds | null {
+  const present = all.filter((b): b is Bounds => b !== null);
+  if (present.length === 0) return null;
+  return {
+    left: Math.min(...present.map(b => b.left)),
+    right: Math.max(...present.map(b => b.right)),
+    top: Math.min(...present.map(b => b.top)),
+    bottom: Math.max(...present.map(b => b.bottom)),
+  };
+}
+
+/**
+ * Round away floating point noise so fitted numbers stay readable in markup
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Fit a canvas to content bounds
+ */
+export function fitCanvas(bounds: Bounds, options: FitOptions): Canvas {
+  const padding = options.padding ?? 0;
+  const centerX = (bounds.left + bounds.right) / 2;
+  const centerY = (bounds.top + bounds.bottom) / 2;
+  let width = Math.max(bounds.right - bounds.left, MIN_EXTENT) + 2 * padding;
+  let height = Math.max(bounds.bottom - bounds.top, MIN_EXTENT) + 2 * padding;
+  let output = { width, height };
+
+  if (options.size) {
+    // Grow the viewBox along one axis to the output's aspect ratio, keeping the content centered
+    const scale = Math.min(options.size.width / width, options.size.height / height);
+    width = options.size.width / scale;
+    height = options.size.height / scale;
+    output = options.size;
+  }
+
+  return {
+    viewBox: {
+      minX: round(centerX - width / 2),
+      minY: round(centerY - height / 2),
+      width: round(width),
+      height: round(height),
+    },
+    width: round(output.width),
+    height: round(output.height),
+  };
+}
+
+/**
+ * Canvas of an unfitted SVG: the viewBox at its own size
+ */
+export function unfittedCanvas(viewBox: { minX?: number, minY?: number, width: number, height: number }): Canvas {
+  return {
+    viewBox: { minX: viewBox.minX ?? 0, minY: viewBox.minY ?? 0, width: viewBox.width, height: viewBox.height },
+    width: viewBox.width,
+    height: viewBox.height,
+  };
+}
+
+/**
+ * Parse a fixed output size: "24" (square) or "64x48"
+ */
+export function parseFitSize(value: string): FitOptions['size'] | null {
+  const match = /^(\d+(?:\.\d+)?)(?:x(\d+(?:\.\d+)?))?$/i.exec(value.trim());
+  if (!match) return null;
+  const width = parseFloat(match[1]);
+  const height = match[2] !== undefined ? parseFloat(match[2]) : width;
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Parse a padding value (a non-negative number)
+ */
+export function parseFitPadding(value: string): number | null {
+  const padding = Number(value.trim());
+  return value.trim() !== '' && Number.isFinite(padding) && padding >= 0 ? padding : null;
+}
+
+/**
+ * Human-readable summary of fit options, e.g. "padding 4, size 24x24"
+ */
+export function formatFit(fit: FitOptions): string {
+  const parts = [`padding ${fit.padding ?? 0}`];
+  if (fit.size) parts.push(`size ${fit.size.width}x${fit.size.height}`);
+  return parts.join(', ');
+}
@@ -0,0 +1,115 @@
+/**
+ * LLM Record/Replay Fixtures
+ *
+ * Recording mode (AISVG_RECORD_DIR) saves every LLM request/response pair to a
+ * fixture file. The replay provider (AISVG_REPLAY_DIR) serves those fixtures
+ * with no network access and fails on any request that was not recorded.
+ */
+
+import { createHash } from 'crypto';
+import { writeFileSync, readFileSync, mkdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import type { LLMProvider } from './providers.js';
+
+export const RECORD_DIR_ENV = 'AISVG_RECORD_DIR';
+export const REPLAY_DIR_ENV = 'AISVG_REPLAY_DIR';
+
+// A recorded request/response pair
+export interface LLMFixture {
+  key: string; // hash of systemPrompt + prompt
+  provider: string;
+  model: string;
+  systemPrompt: string;
+  prompt: string;
+  response: string;
+  recordedAt: string;
+}
+
+/**
+ * Stable key for a request (provider-independent so any recording can be replayed)
+ */
+export function fixtureKey(prompt: string, systemPrompt?: string): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ systemPrompt: systemPrompt || '', prompt }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function fixturePath(dir: string, key: string): string {
+  return join(dir, `${key}.json`);
+}
+
+/**
+ * Whether recording mode is enabled
+ */
+export function isRecording(): boolean {
+  return !!process.env[RECORD_DIR_ENV];
+}
+
+/**
+ * Save a request/response pair to the recording directory
+ */
+export function recordFixture(
+  provider: LLMProvider,
+  prompt: string,
+  systemPrompt: string | undefined,
+  response: string
+): string {
+  const dir = process.env[RECORD_DIR_ENV]!;
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const key = fixtureKey(prompt, systemPrompt);
+  const fixture: LLMFixture = {
+    key,
+    provider: provider.name,
+    model: provider.model(),
+    systemPrompt: systemPrompt || '',
+    prompt,
+    response,
+    recordedAt: new Date().toISOString(),
+  };
+
+  const filepath = fixturePath(dir, key);
+  writeFileSync(filepath, JSON.stringify(fixture, null, 2));
+  return filepath;
+}
+
+/**
+ * Load the fixture for a request, or throw if it was never recorded
+ */
+export function loadFixture(dir: string, prompt: string, systemPrompt?: string): LLMFixture {
+  const key = fixtureKey(prompt, systemPrompt);
+  const filepath = fixturePath(dir, key);
+
+  if (!existsSync(filepath)) {
+    const preview = prompt.length > 80 ? `${prompt.slice(0, 80)}...` : prompt;
+    throw new Error(
+      `Unrecorded LLM request (fixture ${key}.json not found in ${dir})\n` +
+      `Prompt: "${preview}"\n` +
+      `Record it by running once with ${RECORD_DIR_ENV}=${dir} and a live provider.`
+    );
+  }
+
+  return JSON.parse(readFileSync(filepath, 'utf-8'));
+}
+
+/**
+ * Provider that serves recorded fixtures without any network access
+ */
+export function createReplayProvider(): LLMProvider {
+  return {
+    name: 'replay',
+    description: `Replay recorded fixtures offline (${REPLAY_DIR_ENV})`,
+    requiredEnv: [REPLAY_DIR_ENV],
+    model: () => 'replay',
+    async complete(prompt, systemPrompt) {
+      const dir = process.env[REPLAY_DIR_ENV];
+      if (!dir) {
+        throw new Error(`${REPLAY_DIR_ENV} environment variable not set`);
+      }
+      return loadFixture(dir, prompt, systemPrompt).response;
+    },
+  };
+}
@@ -1,13 +1,37 @@
 /**
  * Semantic SVG Generator
  *
- * Interprets semantic layer descriptions and calculates exact SVG coordinates
+ * Interprets semantic layer descriptions and calculates exact SVG coordinates,
+ * then compiles them into a coordinate SvgSpec rendered by generator.ts
  */
 
-import type { SemanticSvgSpec, SemanticLayer, ShapeDefinition, Position } from './schema-semantic.js';
+import type {
+  SemanticSvgSpec,
+  SemanticLayer,
+  ShapeStyle,
+  ShapeDefinition,
+  TriangleShape,
+  TriangleCorner,
+  LineShape,
+  TextShape,
+  CircleShape,
+  EllipseShape,
+  ShapeTransform,
+  ConnectorShape,
+  Anchor,
+  AxisConstraint,
+  LayoutGroup,
+  ComponentDefinition,
+  ComponentInstance,
+} from './schema-semantic.js';
+import type { SvgSpec, SvgLayer, BaseShapeProps, TextProps } from './schema.js';
+import { sortByDependencies, parseEndpoint } from './dependencies-semantic.js';
+import { generateSvgMarkup } from './generator.js';
+import { estimateTextWidth, DEFAULT_FONT_SIZE, DEFAULT_LINE_HEIGHT } from './bounds.js';
+import { unionBounds, type Bounds, type FitOptions } from './fit.js';
 
 // Track calculated positions for relative placement
-interface CalculatedShape {
+export interface CalculatedShape {
   id: string;
   centerX: number;
   centerY: number;
@@ -19,44 +43,366 @@ interface CalculatedShape {
   };
 }
 
-const calculatedShapes = new Map<string, CalculatedShape>();
+export type Point = [number, number];
+
+// Resolved connector path and arrowhead triangles
+export interface ConnectorGeometry {
+  points: Point[]; // route, trimmed to the arrowhead bases
+  arrowheads: Partial<Record<'start' | 'end', Point[]>>; // [tip, base corner, base corner]
+}
+
+// A component instance's layers (local coordinates, styles merged) and its placement
+export interface ResolvedInstance {
+  layers: ResolvedLayer[];
+  transform: string;
+}
+
+// A layer with its resolved center and bounds
+export interface ResolvedLayer {
+  layer: SemanticLayer;
+  shape: CalculatedShape;
+  connector?: ConnectorGeometry; // connector layers only
+  instance?: ResolvedInstance; // component instances only
+}
+
+// A component laid out around its local origin
+interface ResolvedComponent {
+  layers: ResolvedLayer[];
+  bounds: CalculatedShape['bounds'];
+}
+
+
+const DEFAULT_CONNECTOR_STROKE = '#000';
+const MIN_ARROW_SIZE = 8;
+// Arrowhead half-width as a fraction of its length
+const ARROW_HALF_WIDTH = 0.5;
+
+// Per orientation: map from the local pointing_up frame, and the corners that
+// the local left/right base ends land on
+const TRIANGLE_ORIENTATIONS: Record<TriangleShape['orientation'], {
+  map: (x: number, y: number) => Point;
+  corners: [TriangleCorner, TriangleCorner];
+}> = {
+  pointing_up: { map: (x, y) => [x, y], corners: ['bottom_left', 'bottom_right'] },
+  pointing_down: { map: (x, y) => [x, -y], corners: ['top_left', 'top_right'] },
+  pointing_right: { map: (x, y) => [-y, x], corners: ['top_left', 'bottom_left'] },
+  pointing_left: { map: (x, y) => [y, x], corners: ['top_right', 'bottom_right'] },
+};
 
 /**
- * Calculate triangle points based on semantic description
+ * Corners a right triangle's square corner may use for an orientation
  */
-function calculateTriangle(shape: any, centerX: number, centerY: number): string {
-  const { triangleType, orientation, size } = shape;
+export function rightAngleCorners(orientation: TriangleShape['orientation']): TriangleCorner[] {
+  return [...TRIANGLE_ORIENTATIONS[orientation].corners];
+}
+
+/**
+ * Distance from base to tip for a triangle
+ */
+export function triangleHeight(shape: TriangleShape): number {
+  const { triangleType, size } = shape;
 
   if (triangleType === 'equilateral') {
-    const height = (size * Math.sqrt(3)) / 2;
+    return (size * Math.sqrt(3)) / 2;
+  }
+  if (shape.height !== undefined) {
+    return shape.height;
+  }
+  if (triangleType === 'isosceles' && shape.apexAngle !== undefined) {
+    const halfApex = (shape.apexAngle * Math.PI) / 360;
+    return size / 2 / Math.tan(halfApex);
+  }
+  return size;
+}
+
+/**
+ * Calculate triangle vertices as [tip, base end, base end].
+ * The triangle's bounding box is centered on (centerX, centerY).
+ */
+export function calculateTriangleVertices(shape: TriangleShape, centerX: number, centerY: number): Point[] {
+  const { triangleType, orientation, size } = shape;
+  const height = triangleHeight(shape);
+  const { map, corners } = TRIANGLE_ORIENTATIONS[orientation];
+
+  // Tip sits over the base center, or over the square corner for right triangles
+  let tipOffset = 0;
+  if (triangleType === 'right') {
+    const corner = shape.rightAngleCorner ?? corners[0];
+    tipOffset = corner === corners[1] ? size / 2 : -size / 2;
+  }
 
-    switch (orientation) {
-      case 'pointing_right':
-        // Tip on right, base on left
-        return `${centerX - size/2},${centerY - height/2} ${centerX - size/2},${centerY + height/2} ${centerX + size/2},${centerY}`;
+  // Local frame: pointing up, base along the bottom
+  const local: Point[] = [
+    [tipOffset, -height / 2],
+    [-size / 2, height / 2],
+    [size / 2, height / 2],
+  ];
 
-      case 'pointing_left':
-        // Tip on left, base on right
-        return `${centerX + size/2},${centerY - height/2} ${centerX + size/2},${centerY + height/2} ${centerX - size/2},${centerY}`;
+  return local.map(([x, y]) => {
+    const [dx, dy] = map(x, y);
+    return [centerX + dx, centerY + dy];
+  });
+}
 
-      case 'pointing_up':
-        return `${centerX},${centerY - height/2} ${centerX - size/2},${centerY + height/2} ${centerX + size/2},${centerY + height/2}`;
+/**
+ * Calculate triangle points based on semantic description
+ */
+function calculateTriangle(shape: TriangleShape, centerX: number, centerY: number): string {
+  return calculateTriangleVertices(shape, centerX, centerY).map(([x, y]) => `${x},${y}`).join(' ');
+}
+
+type Side = 'left' | 'right' | 'top' | 'bottom';
 
-      case 'pointing_down':
-        return `${centerX},${centerY + height/2} ${centerX - size/2},${centerY - height/2} ${centerX + size/2},${centerY - height/2}`;
+/**
+ * Lines of a text shape
+ */
+function textLines(shape: TextShape): string[] {
+  return shape.text.split('\n');
+}
+
+/**
+ * Estimated width and height of a text shape
+ */
+export function estimateTextSize(shape: TextShape): { width: number, height: number, lineHeight: number } {
+  const fontSize = shape.fontSize ?? DEFAULT_FONT_SIZE;
+  const lineHeight = fontSize * (shape.lineHeight ?? DEFAULT_LINE_HEIGHT);
+  const lines = textLines(shape);
+  const width = Math.max(...lines.map(line => estimateTextWidth(line, fontSize, shape.fontWeight)));
+
+  return { width, height: lines.length * lineHeight, lineHeight };
+}
+
+/**
+ * Calculate line endpoints from center, length and angle
+ */
+export function calculateLineEndpoints(shape: LineShape, centerX: number, centerY: number): [Point, Point] {
+  const angle = (shape.angle * Math.PI) / 180;
+  const halfLength = shape.length / 2;
+  return [
+    [centerX - Math.cos(angle) * halfLength, centerY - Math.sin(angle) * halfLength],
+    [centerX + Math.cos(angle) * halfLength, centerY + Math.sin(angle) * halfLength],
+  ];
+}
+
+/**
+ * Whether a shape has a rotation, flip or scale
+ */
+function isTransformed(shape: ShapeTransform): boolean {
+  return !!shape.rotation || shape.flip !== undefined || (shape.scale !== undefined && shape.scale !== 1);
+}
+
+/**
+ * Apply a shape's scale, flip and rotation to an offset from its center
+ */
+function transformOffset(shape: ShapeTransform, [x, y]: Point): Point {
+  const scale = shape.scale ?? 1;
+  const flipX = shape.flip === 'horizontal' || shape.flip === 'both' ? -1 : 1;
+  const flipY = shape.flip === 'vertical' || shape.flip === 'both' ? -1 : 1;
+  const [cos, sin] = cosSin(shape.rotation ?? 0);
+  const [sx, sy] = [x * scale * flipX, y * scale * flipY];
+  return [sx * cos - sy * sin, sx * sin + sy * cos];
+}
+
+/**
+ * SVG transform steps for a shape's scale, flip and rotation (applied about the origin)
+ */
+function transformSteps(shape: ShapeTransform): string[] {
+  const scale = shape.scale ?? 1;
+  const scaleX = shape.flip === 'horizontal' || shape.flip === 'both' ? -scale : scale;
+  const scaleY = shape.flip === 'vertical' || shape.flip === 'both' ? -scale : scale;
+
+  const steps: string[] = [];
+  if (shape.rotation) steps.push(`rotate(${shape.rotation})`);
+  if (scaleX !== scaleY) steps.push(`scale(${scaleX},${scaleY})`);
+  else if (scaleX !== 1) steps.push(`scale(${scaleX})`);
+  return steps;
+}
+
+/**
+ * SVG transform attribute value for a transformed shape centered at (centerX, centerY)
+ */
+function layerTransform(shape: ShapeTransform, centerX: number, centerY: number): string {
+  const steps = transformSteps(shape);
+  if (steps.length === 1 && shape.rotation) {
+    return `rotate(${shape.rotation},${centerX},${centerY})`;
+  }
+  return [`translate(${centerX},${centerY})`, ...steps, `translate(${-centerX},${-centerY})`].join(' ');
+}
+
+/**
+ * Outline vertices of a shape after its transform (rectangles and text use their
+ * box corners), or null for curved shapes
+ */
+function shapeVertices(shape: ShapeDefinition, centerX: number, centerY: number): Point[] | null {
+  let vertices: Point[];
+  switch (shape.shapeType) {
+    case 'triangle':
+      vertices = calculateTriangleVertices(shape, centerX, centerY);
+      break;
+    case 'line':
+      vertices = calculateLineEndpoints(shape, centerX, centerY);
+      break;
+    case 'diamond': {
+      const halfSize = shape.size / 2;
+      vertices = [[centerX, centerY - halfSize], [centerX + halfSize, centerY], [centerX, centerY + halfSize], [centerX - halfSize, centerY]];
+      break;
     }
+    case 'rectangle':
+    case 'text': {
+      const { left, right, top, bottom } = untransformedBounds(shape, centerX, centerY);
+      vertices = [[left, top], [right, top], [right, bottom], [left, bottom]];
+      break;
+    }
+    default:
+      return null;
+  }
+
+  if (!isTransformed(shape)) return vertices;
+  return vertices.map(([x, y]) => {
+    const [dx, dy] = transformOffset(shape, [x - centerX, y - centerY]);
+    return [centerX + dx, centerY + dy];
+  });
+}
+
+/**
+ * Rightmost and bottommost points of a (rotated, scaled) circle or ellipse centered at the origin
+ */
+function curveExtremes(shape: CircleShape | EllipseShape): { right: Point, bottom: Point } {
+  const scale = shape.scale ?? 1;
+  const rx = (shape.shapeType === 'circle' ? shape.radius : shape.radiusX) * scale;
+  const ry = (shape.shapeType === 'circle' ? shape.radius : shape.radiusY) * scale;
+  // Flipping an ellipse about its center leaves it unchanged
+  const [cos, sin] = cosSin(shape.rotation ?? 0);
+
+  const halfWidth = Math.sqrt(rx * rx * cos * cos + ry * ry * sin * sin);
+  const halfHeight = Math.sqrt(rx * rx * sin * sin + ry * ry * cos * cos);
+  const skew = (rx * rx - ry * ry) * sin * cos;
+  return {
+    right: [halfWidth, skew / halfWidth],
+    bottom: [skew / halfHeight, halfHeight],
+  };
+}
+
+/**
+ * Point where a shape centered at the origin touches a neighbour on the given side:
+ * the tip (or middle of a flat edge) that sticks out furthest in that direction
+ */
+export function contactPoint(shape: ShapeDefinition, side: Side): Point {
+  const horizontal = side === 'left' || side === 'right';
+
+  if (shape.shapeType === 'circle' || shape.shapeType === 'ellipse') {
+    // Curved shapes touch at their extreme point, mirrored for left/top
+    const { right, bottom } = curveExtremes(shape);
+    const [x, y] = horizontal ? right : bottom;
+    return side === 'right' || side === 'bottom' ? [x, y] : [-x, -y];
+  }
+
+  const bounds = calculateBounds(shape, 0, 0);
+  const vertices = shapeVertices(shape, 0, 0)!;
+
+  const extreme = bounds[side];
+  const along = (p: Point) => (horizontal ? p[0] : p[1]);
+  const across = (p: Point) => (horizontal ? p[1] : p[0]);
+  const touching = vertices.filter(p => Math.abs(along(p) - extreme) < 1e-9).map(across);
+  const middle = (Math.min(...touching) + Math.max(...touching)) / 2;
+
+  return horizontal ? [extreme, middle] : [middle, extreme];
+}
+
+/**
+ * Center a shape so its contact point on `side` lands on (x, y)
+ */
+function placeContact(shape: ShapeDefinition, side: Side, x: number, y: number): { x: number, y: number } {
+  const [dx, dy] = contactPoint(shape, side);
+  return { x: x - dx, y: y - dy };
+}
+
+/**
+ * Center a shape so its bounding edge on `side` lies on x (or y), centered across the other axis
+ */
+function placeEdge(shape: ShapeDefinition, side: Side, x: number, y: number): { x: number, y: number } {
+  const bounds = calculateBounds(shape, 0, 0);
+  if (side === 'left' || side === 'right') {
+    return { x: x - bounds[side], y: y - (bounds.top + bounds.bottom) / 2 };
+  }
+  return { x: x - (bounds.left + bounds.right) / 2, y: y - bounds[side] };
+}
+
+/**
+ * Look up a resolved layer or group
+ */
+function referenceShape(id: string, calculatedShapes: ReadonlyMap<string, CalculatedShape>): CalculatedShape {
+  const reference = calculatedShapes.get(id);
+  if (!reference) {
+    throw new Error(`Reference shape "${id}" not found`);
+  }
+  return reference;
+}
+
+/**
+ * Center coordinate between two references' centers on one axis
+ */
+function betweenCenters(
+  [first, second]: [string, string],
+  ratio: number,
+  axis: 'x' | 'y',
+  calculatedShapes: ReadonlyMap<string, CalculatedShape>
+): number {
+  const center = (id: string) => {
+    const shape = referenceShape(id, calculatedShapes);
+    return axis === 'x' ? shape.centerX : shape.centerY;
+  };
+  return center(first) + (center(second) - center(first)) * ratio;
+}
+
+/**
+ * Resolve one axis of a constrained position to a center coordinate
+ */
+function resolveAxis(
+  constraint: AxisConstraint,
+  axis: 'x' | 'y',
+  shape: ShapeDefinition,
+  calculatedShapes: ReadonlyMap<string, CalculatedShape>
+): number {
+  const offset = constraint.offset || 0;
+
+  if (constraint.value !== undefined) {
+    return constraint.value + offset;
   }
 
-  // Default fallback
-  return `${centerX},${centerY - 50} ${centerX - 50},${centerY + 50} ${centerX + 50},${centerY + 50}`;
+  if (constraint.between) {
+    return betweenCenters(constraint.between, constraint.ratio ?? 0.5, axis, calculatedShapes) + offset;
+  }
+
+  // Line up the chosen edge (or center) of both shapes' bounding boxes
+  const reference = referenceShape(constraint.relativeTo!, calculatedShapes);
+  const own = calculateBounds(shape, 0, 0);
+  const [start, end] = axis === 'x' ? (['left', 'right'] as const) : (['top', 'bottom'] as const);
+  switch (constraint.align ?? 'center') {
+    case 'start':
+      return reference.bounds[start] - own[start] + offset;
+    case 'end':
+      return reference.bounds[end] - own[end] + offset;
+    case 'center':
+      return (reference.bounds[start] + reference.bounds[end]) / 2 - (own[start] + own[end]) / 2 + offset;
+  }
 }
 
 /**
  * Calculate center position for a layer
  */
-function calculatePosition(layer: SemanticLayer, canvasWidth: number, canvasHeight: number): { x: number, y: number } {
+export function calculatePosition(
+  layer: SemanticLayer,
+  canvasWidth: number,
+  canvasHeight: number,
+  calculatedShapes: ReadonlyMap<string, CalculatedShape>
+): { x: number, y: number } {
   const { position } = layer;
 
+  if (!position) {
+    return { x: canvasWidth / 2, y: canvasHeight / 2 };
+  }
+
   if (position.type === 'absolute') {
     return { x: position.x!, y: position.y! };
   }
@@ -65,29 +411,52 @@ function calculatePosition(layer: SemanticLayer, canvasWidth: number, canvasHeig
     return { x: canvasWidth / 2, y: canvasHeight / 2 };
   }
 
+  if (position.type === 'between' && position.between) {
+    const ratio = position.ratio ?? 0.5;
+    return {
+      x: betweenCenters(position.between, ratio, 'x', calculatedShapes),
+      y: betweenCenters(position.between, ratio, 'y', calculatedShapes),
+    };
+  }
+
+  if (position.type === 'constrained' && position.horizontal && position.vertical) {
+    return {
+      x: resolveAxis(position.horizontal, 'x', layer.shape, calculatedShapes),
+      y: resolveAxis(position.vertical, 'y', layer.shape, calculatedShapes),
+    };
+  }
+
   if (position.type === 'relative' && position.relativeTo) {
-    const reference = calculatedShapes.get(position.relativeTo);
-    if (!reference) {
-      throw new Error(`Reference shape "${position.relativeTo}" not found`);
-    }
+    const reference = referenceShape(position.relativeTo, calculatedShapes);
 
     const offset = position.offset || 0;
+    const { bounds } = reference;
 
     switch (position.alignment) {
+      // The new shape's tip (contact point) touches the reference edge, offset = gap
       case 'tip_touches_left':
-        return { x: reference.bounds.left + offset, y: reference.centerY };
+        return placeContact(layer.shape, 'right', bounds.left - offset, reference.centerY);
       case 'tip_touches_right':
-        return { x: reference.bounds.right + offset, y: reference.centerY };
+        return placeContact(layer.shape, 'left', bounds.right + offset, reference.centerY);
       case 'tip_touches_top':
-        return { x: reference.centerX, y: reference.bounds.top + offset };
+        return placeContact(layer.shape, 'bottom', reference.centerX, bounds.top - offset);
       case 'tip_touches_bottom':
-        return { x: reference.centerX, y: reference.bounds.bottom + offset };
-      case 'center_aligned':
-        return { x: reference.centerX, y: reference.centerY };
+        return placeContact(layer.shape, 'top', reference.centerX, bounds.bottom + offset);
+
+      // The new shape's bounding edge touches the reference edge, offset = gap
+      case 'edge_touches_left':
       case 'adjacent_left':
-        return { x: reference.bounds.left - offset, y: reference.centerY };
+        return placeEdge(layer.shape, 'right', bounds.left - offset, reference.centerY);
+      case 'edge_touches_right':
       case 'adjacent_right':
-        return { x: reference.bounds.right + offset, y: reference.centerY };
+        return placeEdge(layer.shape, 'left', bounds.right + offset, reference.centerY);
+      case 'edge_touches_top':
+        return placeEdge(layer.shape, 'bottom', reference.centerX, bounds.top - offset);
+      case 'edge_touches_bottom':
+        return placeEdge(layer.shape, 'top', reference.centerX, bounds.bottom + offset);
+
+      case 'center_aligned':
+        return { x: reference.centerX, y: reference.centerY };
       default:
         return { x: reference.centerX, y: reference.centerY };
     }
@@ -98,9 +467,189 @@ function calculatePosition(layer: SemanticLayer, canvasWidth: number, canvasHeig
 }
 
 /**
- * Calculate bounds for a shape
+ * Point on a resolved shape's bounding box
+ */
+export function anchorPoint(shape: CalculatedShape, anchor: Anchor): Point {
+  const { bounds, centerX, centerY } = shape;
+  switch (anchor) {
+    case 'left': return [bounds.left, centerY];
+    case 'right': return [bounds.right, centerY];
+    case 'top': return [centerX, bounds.top];
+    case 'bottom': return [centerX, bounds.bottom];
+    case 'top_left': return [bounds.left, bounds.top];
+    case 'top_right': return [bounds.right, bounds.top];
+    case 'bottom_left': return [bounds.left, bounds.bottom];
+    case 'bottom_right': return [bounds.right, bounds.bottom];
+    case 'center': return [centerX, centerY];
+  }
+}
+
+/**
+ * Side of a shape that faces another shape's center
+ */
+function facingAnchor(from: CalculatedShape, to: CalculatedShape): Anchor {
+  const dx = to.centerX - from.centerX;
+  const dy = to.centerY - from.centerY;
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? 'right' : 'left';
+  }
+  return dy >= 0 ? 'bottom' : 'top';
+}
+
+/**
+ * Whether a route leaving an anchor starts horizontally
+ */
+function leavesHorizontally(anchor: Anchor, from: Point, to: Point): boolean {
+  if (anchor === 'left' || anchor === 'right') return true;
+  if (anchor === 'top' || anchor === 'bottom') return false;
+  return Math.abs(to[0] - from[0]) >= Math.abs(to[1] - from[1]);
+}
+
+/**
+ * Drop repeated points and points in the middle of a straight run. A route
+ * that collapses to a single point keeps both ends (a zero-length line).
+ */
+function simplifyRoute(points: Point[]): Point[] {
+  const distinct = points.filter((p, i) => i === 0 || p[0] !== points[i - 1][0] || p[1] !== points[i - 1][1]);
+  if (distinct.length === 1) {
+    return [distinct[0], distinct[0]];
+  }
+  return distinct.filter((p, i) => {
+    if (i === 0 || i === distinct.length - 1) return true;
+    const [a, b] = [distinct[i - 1], distinct[i + 1]];
+    return (p[0] - a[0]) * (b[1] - a[1]) !== (p[1] - a[1]) * (b[0] - a[0]);
+  });
+}
+
+/**
+ * Route between two connector endpoints (elbow routes bend at the midpoint
+ * when both ends leave along the same axis)
+ */
+function routeConnector(shape: ConnectorShape, start: Point, startAnchor: Anchor, end: Point, endAnchor: Anchor): Point[] {
+  if (shape.routing !== 'orthogonal') {
+    return simplifyRoute([start, end]);
+  }
+
+  const startHorizontal = leavesHorizontally(startAnchor, start, end);
+  const endHorizontal = leavesHorizontally(endAnchor, end, start);
+  let route: Point[];
+
+  if (startHorizontal && endHorizontal) {
+    const midX = (start[0] + end[0]) / 2;
+    route = [start, [midX, start[1]], [midX, end[1]], end];
+  } else if (!startHorizontal && !endHorizontal) {
+    const midY = (start[1] + end[1]) / 2;
+    route = [start, [start[0], midY], [end[0], midY], end];
+  } else if (startHorizontal) {
+    route = [start, [end[0], start[1]], end];
+  } else {
+    route = [start, [start[0], end[1]], end];
+  }
+
+  return simplifyRoute(route);
+}
+
+/**
+ * Arrowhead at `tip`, pointing away from `from`. Returns the triangle and its base center,
+ * or null for a zero-length segment (no direction to point in). The size is capped at half
+ * the segment so arrowheads at both ends of a short segment meet instead of overlapping.
+ */
+function arrowhead(from: Point, tip: Point, requestedSize: number): { triangle: Point[], base: Point } | null {
+  const length = Math.hypot(tip[0] - from[0], tip[1] - from[1]);
+  if (length === 0) {
+    return null;
+  }
+  const size = Math.min(requestedSize, length / 2);
+  const [ux, uy] = [(tip[0] - from[0]) / length, (tip[1] - from[1]) / length];
+  const base: Point = [tip[0] - ux * size, tip[1] - uy * size];
+  const halfWidth = size * ARROW_HALF_WIDTH;
+  return {
+    triangle: [tip, [base[0] - uy * halfWidth, base[1] + ux * halfWidth], [base[0] + uy * halfWidth, base[1] - ux * halfWidth]],
+    base,
+  };
+}
+
+/**
+ * Calculate a connector's route and arrowheads from the shapes it connects
+ */
+export function calculateConnector(
+  shape: ConnectorShape,
+  strokeWidth: number,
+  calculatedShapes: ReadonlyMap<string, CalculatedShape>
+): ConnectorGeometry {
+  const from = parseEndpoint(shape.from);
+  const to = parseEndpoint(shape.to);
+  const source = calculatedShapes.get(from.id);
+  const target = calculatedShapes.get(to.id);
+  if (!source || !target) {
+    throw new Error(`Connector endpoint "${source ? shape.to : shape.from}" not found`);
+  }
+
+  const startAnchor = from.anchor ?? facingAnchor(source, target);
+  const endAnchor = to.anchor ?? facingAnchor(target, source);
+  const points = routeConnector(shape, anchorPoint(source, startAnchor), startAnchor, anchorPoint(target, endAnchor), endAnchor);
+
+  const arrows = shape.arrowheads ?? 'none';
+  const size = shape.arrowSize ?? Math.max(MIN_ARROW_SIZE, strokeWidth * 4);
+  const arrowheads: ConnectorGeometry['arrowheads'] = {};
+  const last = points.length - 1;
+
+  // Both heads are sized against the untrimmed route, then the line is trimmed back to
+  // each arrowhead's base so the stroke doesn't poke through the tip
+  const start = arrows === 'start' || arrows === 'both' ? arrowhead(points[1], points[0], size) : null;
+  const end = arrows === 'end' || arrows === 'both' ? arrowhead(points[last - 1], points[last], size) : null;
+  if (start) {
+    arrowheads.start = start.triangle;
+    points[0] = start.base;
+  }
+  if (end) {
+    arrowheads.end = end.triangle;
+    points[last] = end.base;
+  }
+
+  return { points, arrowheads };
+}
+
+/**
+ * Bounding box of a set of points
  */
-function calculateBounds(shape: ShapeDefinition, centerX: number, centerY: number): CalculatedShape['bounds'] {
+function pointBounds(points: Point[]): CalculatedShape['bounds'] {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  return {
+    left: Math.min(...xs),
+    right: Math.max(...xs),
+    top: Math.min(...ys),
+    bottom: Math.max(...ys),
+  };
+}
+
+/**
+ * Calculate bounds for a shape, including its rotation, flip and scale
+ */
+export function calculateBounds(shape: ShapeDefinition, centerX: number, centerY: number): CalculatedShape['bounds'] {
+  if (shape.shapeType === 'connector' || !isTransformed(shape)) {
+    return untransformedBounds(shape, centerX, centerY);
+  }
+
+  if (shape.shapeType === 'circle' || shape.shapeType === 'ellipse') {
+    const { right, bottom } = curveExtremes(shape);
+    return {
+      left: centerX - right[0],
+      right: centerX + right[0],
+      top: centerY - bottom[1],
+      bottom: centerY + bottom[1],
+    };
+  }
+
+  const vertices = shapeVertices(shape, centerX, centerY);
+  return vertices ? pointBounds(vertices) : untransformedBounds(shape, centerX, centerY);
+}
+
+/**
+ * Bounds of a shape ignoring its transform
+ */
+function untransformedBounds(shape: ShapeDefinition, centerX: number, centerY: number): CalculatedShape['bounds'] {
   switch (shape.shapeType) {
     case 'circle':
       return {
@@ -118,32 +667,27 @@ function calculateBounds(shape: ShapeDefinition, centerX: number, centerY: numbe
         bottom: centerY + shape.height / 2,
       };
 
-    case 'triangle': {
-      const size = shape.size;
-      const height = (size * Math.sqrt(3)) / 2;
+    case 'triangle':
+      return pointBounds(calculateTriangleVertices(shape, centerX, centerY));
 
-      if (shape.orientation === 'pointing_right') {
-        return {
-          left: centerX - size/2,
-          right: centerX + size/2,
-          top: centerY - height/2,
-          bottom: centerY + height/2,
-        };
-      } else if (shape.orientation === 'pointing_left') {
-        return {
-          left: centerX - size/2,
-          right: centerX + size/2,
-          top: centerY - height/2,
-          bottom: centerY + height/2,
-        };
-      }
+    case 'ellipse':
+      return {
+        left: centerX - shape.radiusX,
+        right: centerX + shape.radiusX,
+        top: centerY - shape.radiusY,
+        bottom: centerY + shape.radiusY,
+      };
+
+    case 'line':
+      return pointBounds(calculateLineEndpoints(shape, centerX, centerY));
 
-      // Default bounds
+    case 'text': {
+      const { width, height } = estimateTextSize(shape);
       return {
-        left: centerX - size/2,
-        right: centerX + size/2,
-        top: centerY - size/2,
-        bottom: centerY + size/2,
+        left: centerX - width / 2,
+        right: centerX + width / 2,
+        top: centerY - height / 2,
+        bottom: centerY + height / 2,
       };
     }
 
@@ -156,6 +700,12 @@ function calculateBounds(shape: ShapeDefinition, centerX: number, centerY: numbe
         bottom: centerY + halfSize,
       };
 
+    case 'connector':
+      throw new Error('Connector bounds depend on its endpoints (see calculateConnector)');
+
+    case 'component':
+      throw new Error('Component instance bounds depend on the component (see resolveSemanticLayout)');
+
     default:
       return {
         left: centerX - 50,
@@ -167,53 +717,99 @@ function calculateBounds(shape: ShapeDefinition, centerX: number, centerY: numbe
 }
 
 /**
- * Generate SVG element for a semantic layer
+ * Coordinate layer, with the description only if there is one
  */
-function layerToSvg(layer: SemanticLayer, centerX: number, centerY: number): string {
-  const { id, shape, style, description } = layer;
+function svgLayer(id: string, type: SvgLayer['type'], props: SvgLayer['props'], description?: string): SvgLayer {
+  return { id, type, props, ...(description ? { description } : {}) };
+}
 
-  const styleAttrs: string[] = [`id="${id}"`];
-  if (style.fill !== undefined) styleAttrs.push(`fill="${style.fill}"`);
-  if (style.stroke !== undefined) styleAttrs.push(`stroke="${style.stroke}"`);
-  if (style.strokeWidth !== undefined) styleAttrs.push(`stroke-width="${style.strokeWidth}"`);
-  if (style.opacity !== undefined) styleAttrs.push(`opacity="${style.opacity}"`);
+/**
+ * Compile a resolved semantic layer into coordinate layers. Connectors become a
+ * line or polyline plus arrowhead polygons, and component instances a group
+ * with the instance transform.
+ */
+function compileLayer({ layer, shape: calculated, connector, instance }: ResolvedLayer): SvgLayer[] {
+  const { id, shape, style, description } = layer;
+  const { centerX, centerY } = calculated;
 
-  const comment = description ? `  <!-- ${description} -->\n` : '';
+  const base: BaseShapeProps = {};
+  if (style.fill !== undefined && shape.shapeType !== 'connector') base.fill = style.fill;
+  if (style.stroke !== undefined) base.stroke = style.stroke;
+  if (style.strokeWidth !== undefined) base.strokeWidth = style.strokeWidth;
+  if (style.opacity !== undefined) base.opacity = style.opacity;
+  if (shape.shapeType !== 'connector' && shape.shapeType !== 'component' && isTransformed(shape)) {
+    base.transform = layerTransform(shape, centerX, centerY);
+  }
 
   switch (shape.shapeType) {
-    case 'triangle': {
-      const points = calculateTriangle(shape, centerX, centerY);
-      return `${comment}  <polygon ${styleAttrs.join(' ')} points="${points}" />`;
-    }
+    case 'triangle':
+      return [svgLayer(id, 'polygon', { ...base, points: calculateTriangle(shape, centerX, centerY) }, description)];
 
     case 'circle':
-      return `${comment}  <circle ${styleAttrs.join(' ')} cx="${centerX}" cy="${centerY}" r="${shape.radius}" />`;
+      return [svgLayer(id, 'circle', { ...base, cx: centerX, cy: centerY, r: shape.radius }, description)];
 
     case 'rectangle': {
       const x = centerX - shape.width / 2;
       const y = centerY - shape.height / 2;
-      const attrs = [...styleAttrs, `x="${x}"`, `y="${y}"`, `width="${shape.width}"`, `height="${shape.height}"`];
-      if (shape.rounded) attrs.push(`rx="${shape.rounded}"`);
-      return `${comment}  <rect ${attrs.join(' ')} />`;
+      const props = { ...base, x, y, width: shape.width, height: shape.height, ...(shape.rounded ? { rx: shape.rounded } : {}) };
+      return [svgLayer(id, 'rect', props, description)];
     }
 
     case 'ellipse':
-      return `${comment}  <ellipse ${styleAttrs.join(' ')} cx="${centerX}" cy="${centerY}" rx="${shape.radiusX}" ry="${shape.radiusY}" />`;
+      return [svgLayer(id, 'ellipse', { ...base, cx: centerX, cy: centerY, rx: shape.radiusX, ry: shape.radiusY }, description)];
 
     case 'line': {
-      const angle = (shape.angle * Math.PI) / 180;
-      const halfLength = shape.length / 2;
-      const x1 = centerX - Math.cos(angle) * halfLength;
-      const y1 = centerY - Math.sin(angle) * halfLength;
-      const x2 = centerX + Math.cos(angle) * halfLength;
-      const y2 = centerY + Math.sin(angle) * halfLength;
-      return `${comment}  <line ${styleAttrs.join(' ')} x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" />`;
+      const [[x1, y1], [x2, y2]] = calculateLineEndpoints(shape, centerX, centerY);
+      return [svgLayer(id, 'line', { ...base, x1, y1, x2, y2 }, description)];
     }
 
     case 'diamond': {
       const halfSize = shape.size / 2;
       const points = `${centerX},${centerY - halfSize} ${centerX + halfSize},${centerY} ${centerX},${centerY + halfSize} ${centerX - halfSize},${centerY}`;
-      return `${comment}  <polygon ${styleAttrs.join(' ')} points="${points}" />`;
+      return [svgLayer(id, 'polygon', { ...base, points }, description)];
+    }
+
+    case 'text': {
+      // Lines are vertically centered on the layer center
+      const { lineHeight } = estimateTextSize(shape);
+      const firstY = centerY - ((textLines(shape).length - 1) * lineHeight) / 2;
+      const props: TextProps = {
+        ...base,
+        x: centerX,
+        y: firstY,
+        text: shape.text,
+        fontSize: shape.fontSize ?? DEFAULT_FONT_SIZE,
+        ...(shape.lineHeight !== undefined ? { lineHeight: shape.lineHeight } : {}),
+        ...(shape.fontFamily !== undefined ? { fontFamily: shape.fontFamily } : {}),
+        ...(shape.fontWeight !== undefined ? { fontWeight: shape.fontWeight } : {}),
+        textAnchor: 'middle',
+        dominantBaseline: 'middle',
+      };
+      return [svgLayer(id, 'text', props, description)];
+    }
+
+    case 'connector': {
+      const { points, arrowheads } = connector!;
+      const stroke = style.stroke ?? DEFAULT_CONNECTOR_STROKE;
+      const props = { ...base, stroke, fill: 'none' };
+
+      const layers = points.length === 2
+        ? [svgLayer(id, 'line', { ...props, x1: points[0][0], y1: points[0][1], x2: points[1][0], y2: points[1][1] }, description)]
+        : [svgLayer(id, 'polyline', { ...props, points: points.map(([x, y]) => `${x},${y}`).join(' ') }, description)];
+
+      // Arrowheads are filled with the line colour
+      for (const [end, triangle] of Object.entries(arrowheads)) {
+        const arrowProps = { fill: stroke, ...(style.opacity !== undefined ? { opacity: style.opacity } : {}) };
+        layers.push(svgLayer(`${id}_${end}_arrow`, 'polygon', { ...arrowProps, points: triangle.map(([x, y]) => `${x},${y}`).join(' ') }));
+      }
+
+      return layers;
+    }
+
+    case 'component': {
+      // Component layers keep their local coordinates inside the instance group
+      const { layers, transform } = instance!;
+      return [{ ...svgLayer(id, 'group', { transform }, description), children: layers.flatMap(compileLayer) }];
     }
 
     default:
@@ -222,70 +818,261 @@ function layerToSvg(layer: SemanticLayer, centerX: number, centerY: number): str
 }
 
 /**
- * Sort layers by dependencies (referenced shapes must come first)
+ * Lay out a group's members around its center. Returns the group's bounding
+ * box and the center of each member.
  */
-function sortLayersByDependencies(layers: SemanticLayer[]): SemanticLayer[] {
-  const sorted: SemanticLayer[] = [];
-  const processed = new Set<string>();
-  const layerMap = new Map(layers.map(l => [l.id, l]));
+export function layoutGroup(
+  group: LayoutGroup,
+  shapes: ReadonlyMap<string, ShapeDefinition>,
+  position: (width: number, height: number) => { x: number, y: number }
+): { shape: CalculatedShape, centers: Map<string, { x: number, y: number }> } {
+  const spacing = group.spacing ?? 0;
+  const align = group.align ?? 'center';
+  const members = group.layers.map(id => ({ id, bounds: calculateBounds(shapes.get(id)!, 0, 0) }));
+  const sizes = members.map(({ bounds }) => ({ width: bounds.right - bounds.left, height: bounds.bottom - bounds.top }));
 
-  function processLayer(layer: SemanticLayer) {
-    if (processed.has(layer.id)) return;
+  // Grid cells: one row for "row", one column for "column"
+  const columns = group.layout === 'row' ? members.length : group.layout === 'column' ? 1 : group.columns!;
+  const rows = Math.ceil(members.length / columns);
+  const cell = (i: number) => ({ column: i % columns, row: Math.floor(i / columns) });
 
-    // If this layer references another, process that one first
-    if (layer.position.type === 'relative' && layer.position.relativeTo) {
-      const ref = layerMap.get(layer.position.relativeTo);
-      if (ref && !processed.has(ref.id)) {
-        processLayer(ref);
-      }
-    }
-
-    sorted.push(layer);
-    processed.add(layer.id);
+  // Rows and columns take their largest member's size (in a grid every cell is the same size)
+  const colWidths = Array.from({ length: columns }, () => 0);
+  const rowHeights = Array.from({ length: rows }, () => 0);
+  sizes.forEach(({ width, height }, i) => {
+    const { column, row } = cell(i);
+    colWidths[column] = Math.max(colWidths[column], width);
+    rowHeights[row] = Math.max(rowHeights[row], height);
+  });
+  if (group.layout === 'grid') {
+    colWidths.fill(Math.max(...colWidths));
+    rowHeights.fill(Math.max(...rowHeights));
   }
 
-  for (const layer of layers) {
-    processLayer(layer);
-  }
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  const width = sum(colWidths) + spacing * (columns - 1);
+  const height = sum(rowHeights) + spacing * (rows - 1);
+  const center = position(width, height);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
 
-  return sorted;
+  // Place each member within its cell (cells along a row/column's main axis fit the member exactly)
+  const place = (start: number, size: number, own: number, ownStart: number) => {
+    const edge = align === 'start' ? start : align === 'end' ? start + size - own : start + (size - own) / 2;
+    return edge - ownStart;
+  };
+  const centers = new Map<string, { x: number, y: number }>();
+  members.forEach(({ id, bounds }, i) => {
+    const { column, row } = cell(i);
+    const cellLeft = left + sum(colWidths.slice(0, column)) + spacing * column;
+    const cellTop = top + sum(rowHeights.slice(0, row)) + spacing * row;
+    centers.set(id, {
+      x: place(cellLeft, colWidths[column], sizes[i].width, bounds.left),
+      y: place(cellTop, rowHeights[row], sizes[i].height, bounds.top),
+    });
+  });
+
+  return {
+    shape: {
+      id: group.id,
+      centerX: center.x,
+      centerY: center.y,
+      bounds: { left, right: left + width, top, bottom: top + height },
+    },
+    centers,
+  };
 }
 
 /**
- * Generate SVG from semantic specification
+ * cos/sin of an angle in degrees, exact for multiples of 90 degrees
  */
-export function generateSemanticSvg(spec: SemanticSvgSpec): string {
-  calculatedShapes.clear();
+function cosSin(degrees: number): [number, number] {
+  const radians = (degrees * Math.PI) / 180;
+  const snap = (value: number) => Math.round(value * 1e12) / 1e12;
+  return [snap(Math.cos(radians)), snap(Math.sin(radians))];
+}
 
-  const { canvasSize, layers } = spec;
+/**
+ * Size of a component instance's bounding box after scale and rotation
+ */
+function instanceSize(component: ResolvedComponent, shape: ComponentInstance): { width: number, height: number } {
+  const { bounds } = component;
+  const scale = shape.scale ?? 1;
+  const [cos, sin] = cosSin(shape.rotation ?? 0);
+  const width = bounds.right - bounds.left;
+  const height = bounds.bottom - bounds.top;
+  return {
+    width: scale * (Math.abs(width * cos) + Math.abs(height * sin)),
+    height: scale * (Math.abs(width * sin) + Math.abs(height * cos)),
+  };
+}
 
-  // Sort layers to handle dependencies
-  const sortedLayers = sortLayersByDependencies(layers);
+/**
+ * Transform that maps a component's local bounding box center to (x, y),
+ * rotating, flipping and scaling about that center
+ */
+function instanceTransform(component: ResolvedComponent, shape: ComponentInstance, x: number, y: number): string {
+  const { bounds } = component;
+  const localX = (bounds.left + bounds.right) / 2;
+  const localY = (bounds.top + bounds.bottom) / 2;
 
-  const svg: string[] = [
-    '<?xml version="1.0" encoding="UTF-8"?>',
-    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${canvasSize.width} ${canvasSize.height}" width="${canvasSize.width}" height="${canvasSize.height}">`,
-    `  <!-- ${spec.description} -->`,
-    '',
-  ];
+  const parts = [`translate(${x},${y})`, ...transformSteps(shape)];
+  if (localX || localY) parts.push(`translate(${-localX},${-localY})`);
+  return parts.join(' ');
+}
 
-  // Process layers in dependency order
-  for (const layer of sortedLayers) {
-    const center = calculatePosition(layer, canvasSize.width, canvasSize.height);
-    const bounds = calculateBounds(layer.shape, center.x, center.y);
+/**
+ * Component layers for one instance: ids prefixed with the instance id, and
+ * the instance style and per-layer overrides applied over each layer's style
+ */
+function instanceLayers(component: ResolvedComponent, instance: SemanticLayer & { shape: ComponentInstance }): ResolvedLayer[] {
+  const defined = (style: ShapeStyle = {}) =>
+    Object.fromEntries(Object.entries(style).filter(([, value]) => value !== undefined));
 
-    // Store calculated shape for future relative positioning
-    calculatedShapes.set(layer.id, {
-      id: layer.id,
-      centerX: center.x,
-      centerY: center.y,
-      bounds,
-    });
+  return component.layers.map(resolved => ({
+    ...resolved,
+    layer: {
+      ...resolved.layer,
+      id: `${instance.id}-${resolved.layer.id}`,
+      style: { ...resolved.layer.style, ...defined(instance.style), ...defined(instance.shape.overrides?.[resolved.layer.id]) },
+    },
+  }));
+}
+
+/**
+ * Lay out a component around its local origin
+ */
+function resolveComponent(component: ComponentDefinition): ResolvedComponent {
+  const layers = resolveLayers(component.layers, component.groups ?? [], { width: 0, height: 0 }, new Map());
+  const corners = layers.flatMap(({ shape: { bounds } }): Point[] => [[bounds.left, bounds.top], [bounds.right, bounds.bottom]]);
+  return { layers, bounds: pointBounds(corners) };
+}
+
+/**
+ * Resolve the center and bounds of every layer, in dependency order.
+ * Layout groups are resolved as they come up and can be referenced like layers.
+ */
+function resolveLayers(
+  layers: SemanticLayer[],
+  groups: LayoutGroup[],
+  canvasSize: { width: number, height: number },
+  components: ReadonlyMap<string, ResolvedComponent>
+): ResolvedLayer[] {
+  const calculatedShapes = new Map<string, CalculatedShape>();
+  const groupCenters = new Map<string, { x: number, y: number }>();
+  const resolved: ResolvedLayer[] = [];
+
+  // Component instances are placed like a rectangle of their transformed size
+  const placementShape = (shape: ShapeDefinition): ShapeDefinition => {
+    if (shape.shapeType !== 'component') return shape;
+    const component = components.get(shape.component);
+    if (!component) {
+      throw new Error(`Unknown component "${shape.component}"`);
+    }
+    return { shapeType: 'rectangle', ...instanceSize(component, shape) };
+  };
+  const shapesById = new Map(layers.map(layer => [layer.id, placementShape(layer.shape)]));
+
+  // Sort layers and groups to handle dependencies
+  for (const item of sortByDependencies(layers, groups)) {
+    if (item.kind === 'group') {
+      const { group } = item;
+      const { shape, centers } = layoutGroup(group, shapesById, (width, height) => {
+        // Position the group like a rectangle of its overall size
+        const box: SemanticLayer = { id: group.id, shape: { shapeType: 'rectangle', width, height }, position: group.position, style: {} };
+        return calculatePosition(box, canvasSize.width, canvasSize.height, calculatedShapes);
+      });
+      calculatedShapes.set(group.id, shape);
+      centers.forEach((center, id) => groupCenters.set(id, center));
+      continue;
+    }
 
-    svg.push(layerToSvg(layer, center.x, center.y));
+    const { layer } = item;
+    let result: ResolvedLayer;
+
+    if (layer.shape.shapeType === 'connector') {
+      // Connectors take their geometry from the shapes they join
+      const connector = calculateConnector(layer.shape, layer.style.strokeWidth ?? 1, calculatedShapes);
+      const bounds = pointBounds([...connector.points, ...Object.values(connector.arrowheads).flat()]);
+      const shape = {
+        id: layer.id,
+        centerX: (bounds.left + bounds.right) / 2,
+        centerY: (bounds.top + bounds.bottom) / 2,
+        bounds,
+      };
+      result = { layer, shape, connector };
+    } else {
+      const placed = { ...layer, shape: shapesById.get(layer.id)! };
+      const center = groupCenters.get(layer.id) ?? calculatePosition(placed, canvasSize.width, canvasSize.height, calculatedShapes);
+      const shape = {
+        id: layer.id,
+        centerX: center.x,
+        centerY: center.y,
+        bounds: calculateBounds(placed.shape, center.x, center.y),
+      };
+      result = { layer, shape };
+
+      if (layer.shape.shapeType === 'component') {
+        const component = components.get(layer.shape.component)!;
+        result.instance = {
+          layers: instanceLayers(component, layer as SemanticLayer & { shape: ComponentInstance }),
+          transform: instanceTransform(component, layer.shape, center.x, center.y),
+        };
+      }
+    }
+
+    // Store calculated shape for future relative positioning
+    calculatedShapes.set(layer.id, result.shape);
+    resolved.push(result);
   }
 
-  svg.push('</svg>');
+  return resolved;
+}
+
+/**
+ * Resolve the center and bounds of every layer, in dependency order.
+ * Components are laid out once and placed per instance.
+ */
+export function resolveSemanticLayout(spec: SemanticSvgSpec): ResolvedLayer[] {
+  const components = new Map((spec.components ?? []).map(component => [component.id, resolveComponent(component)]));
+  return resolveLayers(spec.layers, spec.groups ?? [], spec.canvasSize, components);
+}
+
+/**
+ * Painted bounds of a resolved layout: every layer's bounds plus half its stroke
+ */
+export function layoutBounds(resolved: ResolvedLayer[]): Bounds | null {
+  return unionBounds(resolved.map(({ layer, shape: { bounds } }) => {
+    const { stroke, strokeWidth } = layer.style;
+    const stroked = layer.shape.shapeType === 'connector' || (stroke !== undefined && stroke !== 'none');
+    const halfStroke = stroked ? (strokeWidth ?? 1) / 2 : 0;
+    return {
+      left: bounds.left - halfStroke,
+      right: bounds.right + halfStroke,
+      top: bounds.top - halfStroke,
+      bottom: bounds.bottom + halfStroke,
+    };
+  }));
+}
 
-  return svg.join('\n');
+/**
+ * Compile a semantic spec into an equivalent coordinate spec (same ids and
+ * descriptions, every position and size calculated)
+ */
+export function compileSemanticSvgSpec(spec: SemanticSvgSpec, resolved = resolveSemanticLayout(spec)): SvgSpec {
+  return {
+    name: spec.name,
+    description: spec.description,
+    viewBox: { width: spec.canvasSize.width, height: spec.canvasSize.height },
+    layers: resolved.flatMap(compileLayer),
+  };
+}
+
+/**
+ * Generate SVG from semantic specification, optionally fitting the canvas to the content
+ */
+export function generateSemanticSvg(spec: SemanticSvgSpec, fit?: FitOptions): string {
+  // Process layers in dependency order
+  const resolved = resolveSemanticLayout(spec);
+  return generateSvgMarkup(compileSemanticSvgSpec(spec, resolved), fit, fit ? layoutBounds(resolved) : undefined);
 }
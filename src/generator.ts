@@ -7,7 +7,6 @@
 import type {
   SvgSpec,
   SvgLayer,
-  ShapeProps,
   RectProps,
   CircleProps,
   EllipseProps,
@@ -16,115 +15,228 @@ import type {
   PolygonProps,
   PathProps,
   TextProps,
+  SvgDef,
+  GradientStop,
 } from './schema.js';
+import { attr, escapeText, escapeComment } from './sanitize.js';
+import { svgSpecBounds, textLines } from './bounds.js';
+import { fitCanvas, unfittedCanvas, type Bounds, type Canvas, type FitOptions } from './fit.js';
+
+// An SVG element before serializing (shared with the component exporters)
+export interface SvgElement {
+  tag: string;
+  attrs: [string, string | number][]; // SVG attribute names, in output order
+  comment?: string; // layer description
+  text?: string;
+  children?: SvgElement[];
+}
 
 /**
- * Convert a single layer to SVG element string
+ * Build the element for a single layer
  */
-function layerToSvg(layer: SvgLayer): string {
+export function layerElement(layer: SvgLayer): SvgElement {
   const { id, type, props } = layer;
 
   // Build common attributes
-  const commonAttrs: string[] = [`id="${id}"`];
+  const commonAttrs: [string, string | number][] = [['id', id]];
 
   const base = props as any;
-  if (base.fill !== undefined) commonAttrs.push(`fill="${base.fill}"`);
-  if (base.stroke !== undefined) commonAttrs.push(`stroke="${base.stroke}"`);
-  if (base.strokeWidth !== undefined) commonAttrs.push(`stroke-width="${base.strokeWidth}"`);
-  if (base.opacity !== undefined) commonAttrs.push(`opacity="${base.opacity}"`);
-  if (base.transform !== undefined) commonAttrs.push(`transform="${base.transform}"`);
-
-  // Add comment if description exists
-  const comment = layer.description ? `  <!-- ${layer.description} -->\n` : '';
+  if (base.fill !== undefined) commonAttrs.push(['fill', base.fill]);
+  if (base.stroke !== undefined) commonAttrs.push(['stroke', base.stroke]);
+  if (base.strokeWidth !== undefined) commonAttrs.push(['stroke-width', base.strokeWidth]);
+  if (base.opacity !== undefined) commonAttrs.push(['opacity', base.opacity]);
+  if (base.transform !== undefined) commonAttrs.push(['transform', base.transform]);
+  if (base.clipPath !== undefined) commonAttrs.push(['clip-path', base.clipPath]);
+  if (base.markerStart !== undefined) commonAttrs.push(['marker-start', base.markerStart]);
+  if (base.markerMid !== undefined) commonAttrs.push(['marker-mid', base.markerMid]);
+  if (base.markerEnd !== undefined) commonAttrs.push(['marker-end', base.markerEnd]);
+
+  const element = (tag: string, attrs: [string, string | number][]): SvgElement =>
+    layer.description ? { tag, attrs, comment: layer.description } : { tag, attrs };
 
   // Generate element based on type
   switch (type) {
     case 'rect': {
       const p = props as RectProps;
-      const attrs = [
+      const attrs: [string, string | number][] = [
         ...commonAttrs,
-        `x="${p.x}"`,
-        `y="${p.y}"`,
-        `width="${p.width}"`,
-        `height="${p.height}"`,
+        ['x', p.x],
+        ['y', p.y],
+        ['width', p.width],
+        ['height', p.height],
       ];
-      if (p.rx !== undefined) attrs.push(`rx="${p.rx}"`);
-      if (p.ry !== undefined) attrs.push(`ry="${p.ry}"`);
-      return `${comment}  <rect ${attrs.join(' ')} />`;
+      if (p.rx !== undefined) attrs.push(['rx', p.rx]);
+      if (p.ry !== undefined) attrs.push(['ry', p.ry]);
+      return element('rect', attrs);
     }
 
     case 'circle': {
       const p = props as CircleProps;
-      const attrs = [...commonAttrs, `cx="${p.cx}"`, `cy="${p.cy}"`, `r="${p.r}"`];
-      return `${comment}  <circle ${attrs.join(' ')} />`;
+      return element('circle', [...commonAttrs, ['cx', p.cx], ['cy', p.cy], ['r', p.r]]);
     }
 
     case 'ellipse': {
       const p = props as EllipseProps;
-      const attrs = [...commonAttrs, `cx="${p.cx}"`, `cy="${p.cy}"`, `rx="${p.rx}"`, `ry="${p.ry}"`];
-      return `${comment}  <ellipse ${attrs.join(' ')} />`;
+      return element('ellipse', [...commonAttrs, ['cx', p.cx], ['cy', p.cy], ['rx', p.rx], ['ry', p.ry]]);
     }
 
     case 'line': {
       const p = props as LineProps;
-      const attrs = [...commonAttrs, `x1="${p.x1}"`, `y1="${p.y1}"`, `x2="${p.x2}"`, `y2="${p.y2}"`];
-      return `${comment}  <line ${attrs.join(' ')} />`;
+      return element('line', [...commonAttrs, ['x1', p.x1], ['y1', p.y1], ['x2', p.x2], ['y2', p.y2]]);
     }
 
     case 'polyline': {
       const p = props as PolylineProps;
-      const attrs = [...commonAttrs, `points="${p.points}"`];
-      return `${comment}  <polyline ${attrs.join(' ')} />`;
+      return element('polyline', [...commonAttrs, ['points', p.points]]);
     }
 
     case 'polygon': {
       const p = props as PolygonProps;
-      const attrs = [...commonAttrs, `points="${p.points}"`];
-      return `${comment}  <polygon ${attrs.join(' ')} />`;
+      return element('polygon', [...commonAttrs, ['points', p.points]]);
     }
 
     case 'path': {
       const p = props as PathProps;
-      const attrs = [...commonAttrs, `d="${p.d}"`];
-      return `${comment}  <path ${attrs.join(' ')} />`;
+      return element('path', [...commonAttrs, ['d', p.d]]);
     }
 
     case 'text': {
       const p = props as TextProps;
-      const attrs = [...commonAttrs, `x="${p.x}"`, `y="${p.y}"`];
-      if (p.fontSize !== undefined) attrs.push(`font-size="${p.fontSize}"`);
-      if (p.fontFamily !== undefined) attrs.push(`font-family="${p.fontFamily}"`);
-      if (p.textAnchor !== undefined) attrs.push(`text-anchor="${p.textAnchor}"`);
-      if (p.dominantBaseline !== undefined) attrs.push(`dominant-baseline="${p.dominantBaseline}"`);
-      return `${comment}  <text ${attrs.join(' ')}>${p.text}</text>`;
+      const font: [string, string | number][] = [];
+      if (p.fontSize !== undefined) font.push(['font-size', p.fontSize]);
+      if (p.fontFamily !== undefined) font.push(['font-family', p.fontFamily]);
+      if (p.fontWeight !== undefined) font.push(['font-weight', p.fontWeight]);
+      if (p.textAnchor !== undefined) font.push(['text-anchor', p.textAnchor]);
+      if (p.dominantBaseline !== undefined) font.push(['dominant-baseline', p.dominantBaseline]);
+
+      const lines = textLines(p);
+      if (lines.length === 1) {
+        return { ...element('text', [...commonAttrs, ['x', p.x], ['y', p.y], ...font]), text: p.text };
+      }
+      // Multi-line text: one tspan per line, each positioned on its own baseline
+      const children = lines.map((line): SvgElement => ({ tag: 'tspan', attrs: [['x', p.x], ['y', line.y]], text: line.text }));
+      return { ...element('text', [...commonAttrs, ...font]), children };
     }
 
+    case 'group':
+      // Children inherit the group's transform and style
+      return { ...element('g', commonAttrs), children: (layer.children ?? []).map(layerElement) };
+
     default:
       throw new Error(`Unknown shape type: ${type}`);
   }
 }
 
+function stopElement(stop: GradientStop): SvgElement {
+  const attrs: [string, string | number][] = [['offset', stop.offset], ['stop-color', stop.color]];
+  if (stop.opacity !== undefined) attrs.push(['stop-opacity', stop.opacity]);
+  return { tag: 'stop', attrs };
+}
+
 /**
- * Generate complete SVG from specification
+ * Build the element for a def inside <defs>
  */
-export function generateSvgMarkup(spec: SvgSpec): string {
-  const { viewBox, layers } = spec;
+export function defElement(def: SvgDef): SvgElement {
+  const id: [string, string] = ['id', def.id];
+
+  switch (def.type) {
+    case 'linearGradient': {
+      const attrs: [string, string | number][] = [id];
+      for (const key of ['x1', 'y1', 'x2', 'y2'] as const) {
+        if (def[key] !== undefined) attrs.push([key, def[key]]);
+      }
+      return { tag: 'linearGradient', attrs, children: def.stops.map(stopElement) };
+    }
+
+    case 'radialGradient': {
+      const attrs: [string, string | number][] = [id];
+      for (const key of ['cx', 'cy', 'r', 'fx', 'fy'] as const) {
+        if (def[key] !== undefined) attrs.push([key, def[key]]);
+      }
+      return { tag: 'radialGradient', attrs, children: def.stops.map(stopElement) };
+    }
 
-  const minX = viewBox.minX ?? 0;
-  const minY = viewBox.minY ?? 0;
-  const viewBoxStr = `${minX} ${minY} ${viewBox.width} ${viewBox.height}`;
+    case 'pattern': {
+      const attrs: [string, string | number][] = [id, ['width', def.width], ['height', def.height], ['patternUnits', 'userSpaceOnUse']];
+      if (def.patternTransform !== undefined) attrs.push(['patternTransform', def.patternTransform]);
+      return { tag: 'pattern', attrs, children: def.layers.map(layerElement) };
+    }
+
+    case 'clipPath':
+      return { tag: 'clipPath', attrs: [id], children: def.layers.map(layerElement) };
+
+    case 'marker': {
+      const attrs: [string, string | number][] = [
+        id,
+        ['viewBox', `0 0 ${def.width} ${def.height}`],
+        ['markerWidth', def.width],
+        ['markerHeight', def.height],
+        ['refX', def.refX],
+        ['refY', def.refY],
+      ];
+      if (def.orient !== undefined) attrs.push(['orient', def.orient]);
+      if (def.units !== undefined) attrs.push(['markerUnits', def.units]);
+      return { tag: 'marker', attrs, children: def.layers.map(layerElement) };
+    }
+
+    default:
+      throw new Error(`Unknown def type: ${(def as any).type}`);
+  }
+}
+
+/**
+ * Serialize an element as SVG markup, one line per element with comments above
+ */
+function elementToSvg(element: SvgElement, indent: string): string {
+  const { tag, attrs, comment, text, children } = element;
+  const open = [tag, ...attrs.map(([name, value]) => attr(name, value))].join(' ');
+  const lines = comment !== undefined ? [`${indent}<!-- ${escapeComment(comment)} -->`] : [];
+
+  if (text !== undefined) {
+    lines.push(`${indent}<${open}>${escapeText(text)}</${tag}>`);
+  } else if (children) {
+    lines.push(`${indent}<${open}>`, ...children.map(child => elementToSvg(child, `${indent}  `)), `${indent}</${tag}>`);
+  } else {
+    lines.push(`${indent}<${open} />`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Canvas of the generated SVG: the spec's viewBox, or fitted to the content
+ * (contentBounds overrides the bounds computed from the layers)
+ */
+export function svgCanvas(spec: SvgSpec, fit?: FitOptions, contentBounds?: Bounds | null): Canvas {
+  const bounds = fit ? contentBounds ?? svgSpecBounds(spec) : null;
+  return fit && bounds ? fitCanvas(bounds, fit) : unfittedCanvas(spec.viewBox);
+}
+
+/**
+ * Generate complete SVG from specification, optionally fitting the viewBox to the
+ * content (contentBounds overrides the bounds computed from the layers)
+ */
+export function generateSvgMarkup(spec: SvgSpec, fit?: FitOptions, contentBounds?: Bounds | null): string {
+  const { layers } = spec;
+
+  const { viewBox, width, height } = svgCanvas(spec, fit, contentBounds);
+  const viewBoxStr = `${viewBox.minX} ${viewBox.minY} ${viewBox.width} ${viewBox.height}`;
 
   // Header
   const svg: string[] = [
     '<?xml version="1.0" encoding="UTF-8"?>',
-    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBoxStr}" width="${viewBox.width}" height="${viewBox.height}">`,
-    `  <!-- ${spec.description} -->`,
+    `<svg xmlns="http://www.w3.org/2000/svg" ${attr('viewBox', viewBoxStr)} ${attr('width', width)} ${attr('height', height)}>`,
+    `  <!-- ${escapeComment(spec.description)} -->`,
     '',
   ];
 
+  // Gradients, patterns, clip paths and markers come before the layers that use them
+  if (spec.defs?.length) {
+    svg.push('  <defs>', ...spec.defs.map(def => elementToSvg(defElement(def), '    ')), '  </defs>');
+  }
+
   // Add each layer
   for (const layer of layers) {
-    svg.push(layerToSvg(layer));
+    svg.push(elementToSvg(layerElement(layer), '  '));
   }
 
   // Footer
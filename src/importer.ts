@@ -0,0 +1,325 @@
+/**
+ * SVG Importer
+ *
+ * Parses existing SVG markup into an SvgSpec so hand-made symbols can go
+ * through the refine flow. Supported shapes map onto layers with their
+ * attributes and transform; groups are flattened onto their children and
+ * everything else is dropped, with a warning for each.
+ */
+
+import { basename, extname } from 'path';
+import type { SvgSpec, SvgLayer, ShapeProps } from './schema.js';
+import { sanitizeId, sanitizeName } from './sanitize.js';
+import { svgSpecBounds } from './bounds.js';
+import { parseXml, type XmlElement } from './xml.js';
+
+// Something the importer had to flatten or drop
+export interface ImportWarning {
+  element: string; // e.g. "g#body" or "use"
+  action: 'flattened' | 'dropped';
+  reason: string;
+}
+
+// Imported spec plus the warnings raised while mapping it
+export interface ImportResult {
+  spec: SvgSpec;
+  warnings: ImportWarning[];
+}
+
+// Presentation values a group passes down to its children
+interface Inherited {
+  attributes: Record<string, string>;
+  transform?: string;
+  opacity?: number;
+}
+
+type ShapeType = Exclude<SvgLayer['type'], 'group'>;
+
+const SHAPE_TYPES: readonly ShapeType[] = ['rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'path', 'text'];
+
+// Containers flattened onto their children
+const CONTAINERS = ['g', 'a'];
+
+// Elements without visible content, skipped silently
+const METADATA = ['title', 'desc', 'metadata'];
+
+// Presentation attributes children inherit from their group or the root <svg>
+const INHERITED = ['fill', 'stroke', 'stroke-width', 'font-size', 'font-family', 'font-weight', 'text-anchor'];
+
+// Attributes read into every shape's props
+const BASE_ATTRIBUTES = ['fill', 'stroke', 'stroke-width', 'opacity', 'transform'];
+
+// Numeric geometry attributes per shape: SVG default, required or optional
+const GEOMETRY: Record<ShapeType, Record<string, number | 'required' | 'optional'>> = {
+  rect: { x: 0, y: 0, width: 'required', height: 'required', rx: 'optional', ry: 'optional' },
+  circle: { cx: 0, cy: 0, r: 'required' },
+  ellipse: { cx: 0, cy: 0, rx: 'required', ry: 'required' },
+  line: { x1: 0, y1: 0, x2: 0, y2: 0 },
+  polyline: {},
+  polygon: {},
+  path: {},
+  text: { x: 0, y: 0 },
+};
+
+// Other attributes understood per shape, and attributes that never need a warning
+const TEXT_ATTRIBUTES = ['font-size', 'font-family', 'font-weight', 'text-anchor', 'dominant-baseline'];
+const IGNORED_ATTRIBUTES = ['id', 'style', 'version', 'xmlns', 'x', 'y', 'width', 'height', 'viewBox', 'points', 'd'];
+
+const LENGTH = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)(px)?\s*$/;
+
+/**
+ * Attributes of an element with its inline style declarations applied over them
+ */
+function presentation(element: XmlElement): Record<string, string> {
+  const attributes = { ...element.attributes };
+  delete attributes.style;
+  for (const declaration of (element.attributes.style ?? '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    attributes[declaration.slice(0, colon).trim()] = declaration.slice(colon + 1).trim();
+  }
+  return attributes;
+}
+
+/**
+ * Values the children of a container (a group or the root <svg>) inherit
+ */
+function inheritFrom(element: XmlElement, inherited: Inherited): Inherited {
+  const attributes = presentation(element);
+  const opacity = attributes.opacity !== undefined ? Number(attributes.opacity) : 1;
+  return {
+    attributes: {
+      ...inherited.attributes,
+      ...Object.fromEntries(INHERITED.filter(key => attributes[key] !== undefined).map(key => [key, attributes[key]])),
+    },
+    transform: [inherited.transform, element.attributes.transform].filter(Boolean).join(' ') || undefined,
+    opacity: (inherited.opacity ?? 1) * (Number.isFinite(opacity) ? opacity : 1),
+  };
+}
+
+/**
+ * Parse a length in user units ("12" or "12px"), or null
+ */
+function parseLength(value: string | undefined): number | null {
+  const match = value === undefined ? null : LENGTH.exec(value);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Label for an element in warnings, e.g. "path#outline"
+ */
+function label(element: XmlElement): string {
+  return element.attributes.id ? `${element.name}#${element.attributes.id}` : element.name;
+}
+
+/**
+ * Plain text of an element and its descendants, whitespace collapsed
+ */
+function textContent(element: XmlElement): string {
+  const parts = element.children.map(child => ('text' in child ? child.text : 'name' in child ? textContent(child) : ''));
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The root viewBox, or one derived from width/height
+ */
+function rootViewBox(svg: XmlElement): SvgSpec['viewBox'] | null {
+  const numbers = (svg.attributes.viewBox ?? '').trim().split(/[\s,]+/).map(Number);
+  if (numbers.length === 4 && numbers.every(Number.isFinite) && numbers[2] > 0 && numbers[3] > 0) {
+    const [minX, minY, width, height] = numbers;
+    return { width, height, ...(minX ? { minX } : {}), ...(minY ? { minY } : {}) };
+  }
+  const width = parseLength(svg.attributes.width);
+  const height = parseLength(svg.attributes.height);
+  return width && height && width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Import SVG markup as a coordinate spec. `name` becomes the spec name
+ * (usually the file name without extension).
+ */
+export function importSvg(markup: string, name: string): ImportResult {
+  const svg = parseXml(markup);
+  const warnings: ImportWarning[] = [];
+  const layers: SvgLayer[] = [];
+  const usedIds = new Set<string>();
+  let description: string | undefined;
+
+  const uniqueId = (preferred: string | undefined, type: ShapeType): string => {
+    const base = preferred ? sanitizeId(preferred) : `${type}_${layers.length + 1}`;
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) id = `${base}_${n}`;
+    usedIds.add(id);
+    return id;
+  };
+
+  const toLayer = (element: XmlElement, inherited: Inherited, comment: string | undefined): void => {
+    const type = element.name as ShapeType;
+    const attributes = { ...inherited.attributes, ...presentation(element) };
+    const props: Record<string, unknown> = {};
+    const dropped: string[] = [];
+
+    for (const [attribute, rule] of Object.entries(GEOMETRY[type])) {
+      const raw = attributes[attribute];
+      const value = parseLength(raw);
+      if (value !== null) {
+        props[attribute] = value;
+      } else if (raw !== undefined && rule === 'optional') {
+        dropped.push(attribute);
+      } else if (raw !== undefined) {
+        // Percentages, units and lists can't be expressed as a plain number
+        warnings.push({ element: label(element), action: 'dropped', reason: `unsupported ${attribute} "${raw}"` });
+        return;
+      } else if (rule === 'required') {
+        warnings.push({ element: label(element), action: 'dropped', reason: `missing ${attribute}` });
+        return;
+      } else if (typeof rule === 'number') {
+        props[attribute] = rule;
+      }
+    }
+
+    if (type === 'polyline' || type === 'polygon') {
+      props.points = (attributes.points ?? '').trim().replace(/\s+/g, ' ');
+    }
+    if (type === 'path') {
+      if (!attributes.d) {
+        warnings.push({ element: label(element), action: 'dropped', reason: 'missing d' });
+        return;
+      }
+      props.d = attributes.d.trim().replace(/\s+/g, ' ');
+    }
+    if (type === 'text') {
+      if (element.children.some(child => 'name' in child)) {
+        warnings.push({ element: label(element), action: 'flattened', reason: 'tspans merged into one line of text' });
+      }
+      props.text = textContent(element);
+      const fontSize = parseLength(attributes['font-size']);
+      if (fontSize !== null) props.fontSize = fontSize;
+      if (attributes['font-family']) props.fontFamily = attributes['font-family'];
+      const weight = attributes['font-weight'];
+      if (weight) props.fontWeight = weight === 'bold' || weight === 'bolder' || Number(weight) >= 600 ? 'bold' : 'normal';
+      const anchor = attributes['text-anchor'];
+      if (anchor === 'start' || anchor === 'middle' || anchor === 'end') props.textAnchor = anchor;
+      const baseline = attributes['dominant-baseline'];
+      if (baseline === 'auto' || baseline === 'middle' || baseline === 'hanging') props.dominantBaseline = baseline;
+      else if (baseline === 'central') props.dominantBaseline = 'middle';
+      else if (baseline) dropped.push('dominant-baseline');
+    }
+
+    for (const key of ['fill', 'stroke'] as const) {
+      const paint = attributes[key];
+      if (paint === undefined) continue;
+      if (paint.startsWith('url(')) {
+        warnings.push({ element: label(element), action: 'dropped', reason: `${key} ${paint} (paint servers are not imported)` });
+      } else {
+        props[key] = paint;
+      }
+    }
+    const strokeWidth = parseLength(attributes['stroke-width']);
+    if (strokeWidth !== null) props.strokeWidth = strokeWidth;
+
+    const opacity = (attributes.opacity !== undefined ? Number(attributes.opacity) : 1) * (inherited.opacity ?? 1);
+    if (Number.isFinite(opacity) && opacity !== 1) props.opacity = opacity;
+
+    const transform = [inherited.transform, element.attributes.transform].filter(Boolean).join(' ');
+    if (transform) props.transform = transform;
+
+    // Anything else the renderer would have used is lost
+    const known = new Set([...BASE_ATTRIBUTES, ...TEXT_ATTRIBUTES, ...IGNORED_ATTRIBUTES, ...Object.keys(GEOMETRY[type])]);
+    const unsupported = Object.keys(presentation(element))
+      .filter(key => !known.has(key) && !key.includes(':') && !key.startsWith('data-'))
+      .concat(dropped);
+    if (unsupported.length > 0) {
+      warnings.push({ element: label(element), action: 'dropped', reason: `unsupported attributes: ${unsupported.join(', ')}` });
+    }
+
+    const title = element.children.find((child): child is XmlElement => 'name' in child && child.name === 'title');
+    const layerDescription = title ? textContent(title) : comment;
+    layers.push({
+      id: uniqueId(element.attributes.id, type),
+      type,
+      props: props as unknown as ShapeProps,
+      ...(layerDescription ? { description: layerDescription } : {}),
+    });
+  };
+
+  const visit = (parent: XmlElement, inherited: Inherited, isRoot: boolean): void => {
+    let comment: string | undefined;
+
+    for (const node of parent.children) {
+      if ('comment' in node) {
+        comment = node.comment;
+        continue;
+      }
+      if ('text' in node) {
+        // A comment describes the element right after it, unless a blank line separates them
+        if (/\n\s*\n/.test(node.text)) {
+          if (isRoot && comment && description === undefined && layers.length === 0) description = comment;
+          comment = undefined;
+        }
+        continue;
+      }
+
+      const element = node;
+      if ((SHAPE_TYPES as readonly string[]).includes(element.name)) {
+        toLayer(element, inherited, comment);
+      } else if (CONTAINERS.includes(element.name)) {
+        const count = layers.length;
+        visit(element, inheritFrom(element, inherited), false);
+        warnings.push({
+          element: label(element),
+          action: 'flattened',
+          reason: `group style and transform moved onto ${layers.length - count} layer(s)`,
+        });
+      } else if (isRoot && (element.name === 'title' || element.name === 'desc') && description === undefined) {
+        description = textContent(element);
+      } else if (!METADATA.includes(element.name) && !element.name.includes(':')) {
+        warnings.push({ element: label(element), action: 'dropped', reason: 'unsupported element' });
+      }
+      comment = undefined;
+    }
+  };
+
+  // The root <svg> passes its presentation attributes down like a group
+  visit(svg, inheritFrom(svg, { attributes: {} }), true);
+
+  const spec: SvgSpec = {
+    name: sanitizeName(name),
+    description: description ?? `Imported from ${name}.svg`,
+    viewBox: { width: 100, height: 100 },
+    layers,
+  };
+
+  const viewBox = rootViewBox(svg);
+  if (viewBox) {
+    spec.viewBox = viewBox;
+  } else {
+    // No viewBox or size: frame the content
+    const bounds = svgSpecBounds(spec);
+    if (bounds) {
+      spec.viewBox = {
+        width: Math.max(bounds.right - bounds.left, 1),
+        height: Math.max(bounds.bottom - bounds.top, 1),
+        minX: bounds.left,
+        minY: bounds.top,
+      };
+    }
+    warnings.push({ element: 'svg', action: 'flattened', reason: 'no viewBox or size, derived from the content bounds' });
+  }
+
+  return { spec, warnings };
+}
+
+/**
+ * Spec name for an imported file: its name without directory and extension
+ */
+export function importName(file: string): string {
+  return basename(file, extname(file));
+}
+
+/**
+ * Format warnings one per line
+ */
+export function formatImportWarnings(warnings: ImportWarning[]): string {
+  return warnings.map(warning => `${warning.element}: ${warning.action} (${warning.reason})`).join('\n');
+}
@@ -0,0 +1,270 @@
+/**
+ * Geometric Lint
+ *
+ * Checks a valid spec for drawings that are technically correct but almost
+ * certainly not what was meant: shapes drawn entirely outside the viewBox,
+ * zero-sized shapes, polygons with too few points, path data that can't be
+ * parsed, text in the same colour as the shape behind it and duplicate ids.
+ * Semantic specs are linted after compiling them to coordinates. The viewBox
+ * checked is the rendered one, so fitted canvases are linted as drawn. Findings
+ * can be turned into feedback for a refinement.
+ */
+
+import type {
+  SvgSpec,
+  SvgLayer,
+  BaseShapeProps,
+  RectProps,
+  CircleProps,
+  EllipseProps,
+  PolylineProps,
+  PathProps,
+} from './schema.js';
+import type { SemanticSvgSpec } from './schema-semantic.js';
+import { compileSemanticSvgSpec, resolveSemanticLayout, layoutBounds } from './generator-semantic.js';
+import { svgCanvas } from './generator.js';
+import type { Bounds, FitOptions } from './fit.js';
+import { nestedLayerBounds, parseTransform, parsePoints, multiply, IDENTITY, type Matrix } from './bounds.js';
+import { parsePathData } from './path.js';
+import { joinPath } from './validate.js';
+
+export const LINT_SEVERITIES = ['error', 'warning'] as const;
+export type LintSeverity = typeof LINT_SEVERITIES[number];
+
+// Rules by id; errors draw nothing or break references, warnings draw the wrong thing
+export const LINT_RULES = {
+  'duplicate-id': { severity: 'error', description: 'two layers or defs share an id' },
+  'invalid-path': { severity: 'error', description: 'path data that cannot be parsed' },
+  'too-few-points': { severity: 'error', description: 'polygon with fewer than 3 points or polyline with fewer than 2' },
+  'zero-size': { severity: 'error', description: 'circle, ellipse or rect with a zero or negative size' },
+  'outside-viewbox': { severity: 'warning', description: 'layer drawn entirely outside the viewBox' },
+  'text-same-color': { severity: 'warning', description: 'text in the same colour as the shape behind it' },
+} as const satisfies Record<string, { severity: LintSeverity, description: string }>;
+
+export type LintRule = keyof typeof LINT_RULES;
+
+// A problem found by a rule
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  path: string; // e.g. "layers[2].children[0]", in the (compiled) coordinate spec
+  id: string; // id of the layer or def
+  message: string;
+}
+
+// A layer with the state it inherits from its enclosing groups
+interface LayerEntry {
+  layer: SvgLayer;
+  path: string;
+  parent: Matrix; // combined transform of the enclosing groups
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  drawn: boolean; // part of the drawing, not the content of a def
+}
+
+type RuleCheck = (spec: SvgSpec, entries: LayerEntry[]) => Omit<LintFinding, 'rule' | 'severity'>[];
+
+// Paint values that don't hide what is behind them, or whose colour isn't known
+const NOT_SOLID = /^(none|transparent|currentColor|inherit|url\(.*\))$/i;
+
+// Named colours a model is likely to use, for comparing with hex values
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  lime: '#00ff00',
+  blue: '#0000ff',
+  navy: '#000080',
+  yellow: '#ffff00',
+  orange: '#ffa500',
+  gray: '#808080',
+  grey: '#808080',
+  silver: '#c0c0c0',
+  lightgray: '#d3d3d3',
+  lightgrey: '#d3d3d3',
+  darkgray: '#a9a9a9',
+  darkgrey: '#a9a9a9',
+};
+
+/**
+ * Comparable form of a colour: lowercase #rrggbb where possible
+ */
+export function normalizeColor(color: string): string {
+  const value = color.trim().toLowerCase();
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(value);
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+  const rgb = /^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/.exec(value);
+  if (rgb) return `#${rgb.slice(1).map(n => Math.min(255, Number(n)).toString(16).padStart(2, '0')).join('')}`;
+  return NAMED_COLORS[value] ?? value;
+}
+
+/**
+ * Every layer in paint order (groups before their children), drawing first, then def content
+ */
+function collectLayers(spec: SvgSpec): LayerEntry[] {
+  const entries: LayerEntry[] = [];
+
+  const visit = (layers: SvgLayer[], path: string, inherited: Omit<LayerEntry, 'layer' | 'path'>) => {
+    layers.forEach((layer, i) => {
+      const layerPath = joinPath(path, i);
+      entries.push({ layer, path: layerPath, ...inherited });
+      if (layer.type !== 'group') return;
+
+      const props = layer.props as BaseShapeProps;
+      const own = props.transform ? parseTransform(props.transform) ?? IDENTITY : IDENTITY;
+      visit(layer.children ?? [], joinPath(layerPath, 'children'), {
+        parent: multiply(inherited.parent, own),
+        fill: props.fill ?? inherited.fill,
+        stroke: props.stroke ?? inherited.stroke,
+        strokeWidth: props.strokeWidth ?? inherited.strokeWidth,
+        drawn: inherited.drawn,
+      });
+    });
+  };
+
+  visit(spec.layers, 'layers', { parent: IDENTITY, drawn: true });
+  (spec.defs ?? []).forEach((def, i) => {
+    if ('layers' in def) visit(def.layers, joinPath(joinPath('defs', i), 'layers'), { parent: IDENTITY, drawn: false });
+  });
+  return entries;
+}
+
+function entryBounds({ layer, parent, stroke, strokeWidth }: LayerEntry) {
+  return nestedLayerBounds(layer, parent, { stroke, strokeWidth });
+}
+
+// Fill a layer is painted with (SVG's default fill is black)
+function effectiveFill({ layer, fill }: LayerEntry): string {
+  return (layer.props as BaseShapeProps).fill ?? fill ?? 'black';
+}
+
+const CHECKS: Record<LintRule, RuleCheck> = {
+  'duplicate-id': (spec, entries) => {
+    const seen = new Map<string, string>();
+    const findings: ReturnType<RuleCheck> = [];
+    const add = (id: string, path: string) => {
+      const first = seen.get(id);
+      if (first === undefined) {
+        seen.set(id, path);
+      } else {
+        findings.push({ path, id, message: `id "${id}" is already used by ${first}` });
+      }
+    };
+    (spec.defs ?? []).forEach((def, i) => add(def.id, joinPath('defs', i)));
+    for (const { layer, path } of entries) add(layer.id, path);
+    return findings;
+  },
+
+  'invalid-path': (_, entries) => entries.flatMap(({ layer, path }) => {
+    if (layer.type !== 'path') return [];
+    try {
+      parsePathData((layer.props as PathProps).d);
+      return [];
+    } catch (error) {
+      return [{ path, id: layer.id, message: `path data can't be drawn (${(error as Error).message})` }];
+    }
+  }),
+
+  'too-few-points': (_, entries) => entries.flatMap(({ layer, path }) => {
+    if (layer.type !== 'polygon' && layer.type !== 'polyline') return [];
+    const needed = layer.type === 'polygon' ? 3 : 2;
+    const count = parsePoints((layer.props as PolylineProps).points)
+      .filter(([x, y]) => Number.isFinite(x) && Number.isFinite(y)).length;
+    if (count >= needed) return [];
+    return [{ path, id: layer.id, message: `${layer.type} has ${count} point(s) but needs at least ${needed}` }];
+  }),
+
+  'zero-size': (_, entries) => entries.flatMap(({ layer, path }) => {
+    const sizes: [string, number][] = layer.type === 'circle' ? [['r', (layer.props as CircleProps).r]]
+      : layer.type === 'ellipse' ? [['rx', (layer.props as EllipseProps).rx], ['ry', (layer.props as EllipseProps).ry]]
+      : layer.type === 'rect' ? [['width', (layer.props as RectProps).width], ['height', (layer.props as RectProps).height]]
+      : [];
+    return sizes
+      .filter(([, value]) => value <= 0)
+      .map(([name, value]) => ({ path, id: layer.id, message: `${layer.type} ${name} is ${value}, so nothing is drawn` }));
+  }),
+
+  'outside-viewbox': (spec, entries) => {
+    const { minX = 0, minY = 0, width, height } = spec.viewBox;
+    const findings: ReturnType<RuleCheck> = [];
+    for (const entry of entries) {
+      // A group outside the viewBox is reported once, not once per child
+      if (!entry.drawn || findings.some(finding => entry.path.startsWith(`${finding.path}.`))) continue;
+      const bounds = entryBounds(entry);
+      if (!bounds) continue;
+      if (bounds.right <= minX || bounds.left >= minX + width || bounds.bottom <= minY || bounds.top >= minY + height) {
+        findings.push({
+          path: entry.path,
+          id: entry.layer.id,
+          message: `${entry.layer.type} is drawn entirely outside the viewBox (${minX} ${minY} ${width} ${height})`,
+        });
+      }
+    }
+    return findings;
+  },
+
+  'text-same-color': (_, entries) => entries.flatMap((entry, index) => {
+    if (!entry.drawn || entry.layer.type !== 'text') return [];
+    const color = effectiveFill(entry);
+    const bounds = entryBounds(entry);
+    if (NOT_SOLID.test(color) || !bounds) return [];
+    const x = (bounds.left + bounds.right) / 2;
+    const y = (bounds.top + bounds.bottom) / 2;
+
+    // Topmost solid shape under the middle of the text
+    for (const behind of entries.slice(0, index).reverse()) {
+      if (!behind.drawn || behind.layer.type === 'group' || behind.layer.type === 'line') continue;
+      const fill = effectiveFill(behind);
+      const area = entryBounds(behind);
+      if (NOT_SOLID.test(fill) || !area || x < area.left || x > area.right || y < area.top || y > area.bottom) continue;
+      if (normalizeColor(fill) !== normalizeColor(color)) return [];
+      return [{
+        path: entry.path,
+        id: entry.layer.id,
+        message: `text "${(entry.layer.props as { text: string }).text}" is ${color} on "${behind.layer.id}" filled ${fill}, so it can't be read`,
+      }];
+    }
+    return [];
+  }),
+};
+
+/**
+ * Lint a coordinate spec against the viewBox it is rendered with (fitted to
+ * the content if fit is set; contentBounds overrides the bounds computed from the layers)
+ */
+export function lintSvgSpec(spec: SvgSpec, fit?: FitOptions, contentBounds?: Bounds | null): LintFinding[] {
+  const rendered: SvgSpec = fit ? { ...spec, viewBox: svgCanvas(spec, fit, contentBounds).viewBox } : spec;
+  const entries = collectLayers(rendered);
+  return (Object.keys(CHECKS) as LintRule[]).flatMap(rule =>
+    CHECKS[rule](rendered, entries).map(finding => ({ rule, severity: LINT_RULES[rule].severity, ...finding }))
+  );
+}
+
+/**
+ * Lint a semantic spec by its resolved (compiled) coordinates, fitting the
+ * canvas to the layout like the generator does
+ */
+export function lintSemanticSvgSpec(spec: SemanticSvgSpec, fit?: FitOptions): LintFinding[] {
+  const resolved = resolveSemanticLayout(spec);
+  return lintSvgSpec(compileSemanticSvgSpec(spec, resolved), fit, fit ? layoutBounds(resolved) : undefined);
+}
+
+/**
+ * Format findings one per line
+ */
+export function formatFindings(findings: LintFinding[]): string {
+  return findings.map(finding => `${finding.severity} ${finding.rule} ${finding.path} (${finding.id}): ${finding.message}`).join('\n');
+}
+
+/**
+ * Refinement feedback asking the model to fix the findings (empty if there are none)
+ */
+export function lintFeedback(findings: LintFinding[]): string {
+  if (findings.length === 0) return '';
+  return [
+    'Fix these problems in the drawing, keeping everything else as it is:',
+    ...findings.map(finding => `- layer "${finding.id}": ${finding.message}`),
+  ].join('\n');
+}
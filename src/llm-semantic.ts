@@ -5,37 +5,12 @@
  * Generator calculates exact coordinates
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
 import type { SemanticSvgSpec } from './schema-semantic.js';
-
-function getLLMProvider() {
-  return process.env.LLM_PROVIDER || 'anthropic';
-}
-
-let anthropicClient: Anthropic | null = null;
-let openaiClient: OpenAI | null = null;
-
-function getAnthropicClient(): Anthropic {
-  if (!anthropicClient) {
-    anthropicClient = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
-  return anthropicClient;
-}
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
-
-const ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
-const OPENAI_MODEL = 'gpt-4o';
+import { assertValidSemanticSvgSpec, validateSemanticSvgSpec } from './validate-semantic.js';
+import { formatIssues } from './validate.js';
+import { callLLM, getCurrentProviderName } from './providers.js';
+import { parseWithRepair, type ParsedSpec } from './repair.js';
+import { progress } from './log.js';
 
 const SYSTEM_PROMPT = `You are an expert at describing SVG graphics using SEMANTIC shape descriptions.
 
@@ -53,20 +28,98 @@ The generator will calculate exact coordinates to make your descriptions reality
 - ellipse
 - line
 - diamond (rotated square)
+- text (label: "text", optional "fontSize", "fontFamily", "fontWeight" normal|bold, "lineHeight";
+  use "\\n" in "text" for multiple lines)
+- connector (pipe or signal line between two layers - see Connectors)
+- component (instance of a reusable symbol - see Components)
+
+## Text Labels:
+Position labels relative to the shape they describe:
+- center_aligned - inside, centered on the shape
+- edge_touches_top / edge_touches_bottom - above / below the shape (offset = gap)
+- edge_touches_left / edge_touches_right - left / right of the shape (offset = gap)
+
+## Connectors:
+Use a connector instead of a line whenever a line joins two shapes (pipes, signal lines).
+- "from" / "to": "layerId.anchor", e.g. "pump.right", "valve.left"
+  anchors: left, right, top, bottom, center, top_left, top_right, bottom_left, bottom_right
+  ("layerId" alone uses the side facing the other end)
+- "routing": straight (default) or orthogonal (horizontal/vertical runs with elbows)
+- "arrowheads": none (default), start, end or both; optional "arrowSize"
+- Connector layers have NO "position" - the endpoints place them
+Example: {"id": "pipe", "shape": {"shapeType": "connector", "from": "pump.right", "to": "tank.bottom",
+  "routing": "orthogonal", "arrowheads": "end"}, "style": {"stroke": "#000", "strokeWidth": 2}}
+
+## Components:
+When a symbol repeats (several valves, pumps), declare it once in a top-level "components" array
+and instantiate it. A component has its own "layers" (and optional "groups") laid out around
+its own center ("centered" = the component's origin); it may not contain other instances.
+"components": [{"id": "ball_valve", "layers": [...two triangles and a circle...]}]
+Instance layer: {"id": "v1", "shape": {"shapeType": "component", "component": "ball_valve",
+  "scale": 0.5, "rotation": 90, "overrides": {"circle": {"fill": "#c00"}}},
+  "position": {...}, "style": {"stroke": "#c00"}}
+- "scale" (default 1) and "rotation" (degrees clockwise, default 0) are optional
+- the instance "style" applies to every component layer; "overrides" restyle single layers by id
+- other layers and connectors can reference the instance id like any layer
 
 ## Orientation Options:
 - Triangles: pointing_up, pointing_down, pointing_left, pointing_right
 
+## Rotation, Flip and Scale:
+Every shape except connectors accepts optional transform fields, applied about its center:
+- "rotation": degrees clockwise, any angle (e.g. 45 for a diagonal tag, -90 to turn a
+  pointing_right triangle to point up for an angle valve)
+- "flip": horizontal, vertical or both (mirror image)
+- "scale": uniform size factor
+Alignment uses the transformed outline, so rotated shapes still touch their neighbours.
+
+## Triangle Parameters:
+- size: base length (side length for equilateral)
+- isosceles: "height" (base to tip) OR "apexAngle" (degrees at the tip); height defaults to size
+- right: "height" (length of the square leg, defaults to size) and "rightAngleCorner"
+  (top_left, top_right, bottom_left, bottom_right - must be on the base side, e.g.
+  bottom_left or bottom_right for pointing_up)
+
+## Layer Dependencies:
+- Every layer id must be unique
+- "relative" positions need both "relativeTo" (an existing layer id) and "alignment"
+- Connector "from"/"to" must name existing layers too
+- A layer may not reference itself, and references may not form a cycle
+  (A relative to B and B relative to A) - anchor at least one layer with "centered" or "absolute"
+
 ## Position Types:
 1. "centered" - shape centered on canvas
 2. "absolute" - specific x,y coordinates (use sparingly)
 3. "relative" - positioned relative to another shape using alignment
+4. "constrained" - one constraint per axis, "horizontal" and "vertical" both required. Each axis
+   uses exactly ONE of:
+   - "relativeTo" + "align" (start|center|end): line up left/center/right (or top/center/bottom)
+     edges with that layer, e.g. x aligned with A, y aligned with B
+   - "between": ["a", "b"] (+ optional "ratio", 0.5 = midway) between two layers' centers
+   - "value": fixed coordinate
+   Each axis may add an "offset".
+5. "between" - "between": ["a", "b"], centered midway between two layers (optional "ratio")
+
+## Layout Groups (row / column / grid):
+To distribute shapes evenly, list them in a top-level "groups" array instead of positioning
+each one. Member layers have NO "position"; the group is positioned as a whole and its id can
+be used in "relativeTo" like a layer id.
+{"id": "pumps", "layout": "row", "layers": ["p1", "p2", "p3"], "spacing": 20,
+ "position": {"type": "centered"}}
+- layout: row (left to right), column (top to bottom) or grid (needs "columns", fills row by row)
+- spacing: gap between members; align: start|center|end across the row/column (default center)
+- A layer belongs to at most one group
 
 ## Alignment Options (for relative positioning):
-- tip_touches_left / tip_touches_right - triangle tip touches referenced shape
-- edge_touches_left / edge_touches_right - shape edge touches referenced shape
+The side names the EDGE OF THE REFERENCED SHAPE that the new shape touches.
+- tip_touches_left / right / top / bottom - the new shape's tip (outermost point facing
+  the reference) touches that edge, e.g. tip_touches_left = shape sits to the LEFT,
+  its rightmost tip touching the reference's left edge
+- edge_touches_left / right / top / bottom - the new shape's flat bounding edge touches
+  that edge, centered on the reference
+- adjacent_left / adjacent_right - same as edge_touches_left / edge_touches_right
 - center_aligned - centers match
-- adjacent_left / adjacent_right - placed next to referenced shape
+- offset - gap between the two shapes (0 = touching)
 
 ## CRITICAL - For Standard Symbols:
 **ISA Ball Valve:** Two equilateral triangles with tips touching a center circle
@@ -74,6 +127,12 @@ The generator will calculate exact coordinates to make your descriptions reality
 - Circle: centered
 - Triangle 2: pointing_left, tip_touches_right of center circle
 
+**ISA Instrument Bubble (e.g. flow transmitter FT-101):** circle with a horizontal divider line
+- Circle: centered
+- Divider: line, angle 0, length = circle diameter, center_aligned to the circle
+- Text "FT": edge_touches_top of the divider, offset 4
+- Text "101": edge_touches_bottom of the divider, offset 4
+
 ## Example JSON Format:
 {
   "name": "ball_valve_isa",
@@ -121,39 +180,9 @@ The generator will calculate exact coordinates to make your descriptions reality
 
 Respond with ONLY the JSON - no markdown, no explanation.`;
 
-async function callLLM(prompt: string, systemPrompt?: string): Promise<string> {
-  if (getLLMProvider() === 'openai') {
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt });
-    }
-    messages.push({ role: 'user', content: prompt });
-
-    const response = await getOpenAIClient().chat.completions.create({
-      model: OPENAI_MODEL,
-      messages,
-    });
-
-    return response.choices[0]?.message?.content || '';
-  } else {
-    const response = await getAnthropicClient().messages.create({
-      model: ANTHROPIC_MODEL,
-      max_tokens: 4096,
-      system: systemPrompt || '',
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type');
-    }
-    return content.text;
-  }
-}
-
-export async function generateSemanticSvg(prompt: string): Promise<SemanticSvgSpec> {
-  console.log(`Using ${getLLMProvider().toUpperCase()} with SEMANTIC approach...`);
-  console.log('Generating semantic specification...');
+export async function generateSemanticSvg(prompt: string): Promise<ParsedSpec<SemanticSvgSpec>> {
+  progress(`Using ${getCurrentProviderName().toUpperCase()} with SEMANTIC approach...`);
+  progress('Generating semantic specification...');
 
   const generatePrompt = `Create a semantic SVG specification for: ${prompt}
 
@@ -165,30 +194,36 @@ Remember:
 
   const jsonText = await callLLM(generatePrompt, SYSTEM_PROMPT);
 
-  console.log('\n=== LLM Response ===');
-  console.log(jsonText.substring(0, 500) + '...');
-  console.log('====================\n');
+  progress('\n=== LLM Response ===');
+  progress(jsonText.substring(0, 500) + '...');
+  progress('====================\n');
 
-  const text = jsonText.trim();
-  const spec = JSON.parse(text) as SemanticSvgSpec;
+  const result = await parseWithRepair(jsonText, assertValidSemanticSvgSpec, callLLM, SYSTEM_PROMPT, getCurrentProviderName());
+  const { spec } = result;
 
-  console.log(`Generated: ${spec.name}`);
-  console.log(`Layers: ${spec.layers.length}`);
+  progress(`Generated: ${spec.name}`);
+  progress(`Layers: ${spec.layers.length}`);
 
-  return spec;
+  return result;
 }
 
 export async function refineSemanticSvg(
   previousSpec: SemanticSvgSpec,
   refinementPrompt: string
-): Promise<SemanticSvgSpec> {
-  console.log('Refining semantic specification...');
+): Promise<ParsedSpec<SemanticSvgSpec>> {
+  progress('Refining semantic specification...');
+
+  // Point out layer dependency problems so the LLM fixes them too
+  const issues = validateSemanticSvgSpec(previousSpec);
+  const problems = issues.length > 0
+    ? `\n\nThe current specification has these problems, fix them as well:\n${formatIssues(issues)}`
+    : '';
 
   const prompt = `Here is the current semantic specification:
 
 ${JSON.stringify(previousSpec, null, 2)}
 
-Modify it based on this request: ${refinementPrompt}
+Modify it based on this request: ${refinementPrompt}${problems}
 
 Respond with the complete updated specification.`;
 
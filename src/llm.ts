@@ -1,41 +1,15 @@
 /**
  * LLM API Client
  *
- * Handles communication with LLM APIs (OpenAI or Anthropic)
+ * Prompts the selected LLM provider (see providers.ts)
  * to get JSON specifications for SVG generation.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
 import type { SvgSpec } from './schema.js';
-
-function getLLMProvider() {
-  return process.env.LLM_PROVIDER || 'anthropic';
-}
-
-let anthropicClient: Anthropic | null = null;
-let openaiClient: OpenAI | null = null;
-
-function getAnthropicClient(): Anthropic {
-  if (!anthropicClient) {
-    anthropicClient = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
-  return anthropicClient;
-}
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
-
-const ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
-const OPENAI_MODEL = 'gpt-4o';
+import { assertValidSvgSpec } from './validate.js';
+import { callLLM, getCurrentProviderName } from './providers.js';
+import { parseWithRepair, type ParsedSpec } from './repair.js';
+import { progress } from './log.js';
 
 // System prompt that teaches the LLM how to think about SVGs as layers
 const SYSTEM_PROMPT = `You are an expert at creating SVG graphics using primitive shapes.
@@ -78,6 +52,7 @@ Supported shape types:
 - polygon: Closed polygons
 - path: Complex shapes with curves (use d attribute with SVG path commands: M, L, C, Q, A, Z)
 - text: Labels and annotations (use text property for content, fontSize, textAnchor, etc.)
+- group: Parts made of several shapes (an ear, a wheel, a valve) - child layers in "children", moved and styled as one unit
 
 You must respond with ONLY a JSON object in this exact format (no markdown, no explanation, just the raw JSON):
 {
@@ -92,7 +67,7 @@ You must respond with ONLY a JSON object in this exact format (no markdown, no e
   "layers": [
     {
       "id": "layer_id",
-      "type": "rect|circle|ellipse|line|polyline|polygon|path|text",
+      "type": "rect|circle|ellipse|line|polyline|polygon|path|text|group",
       "props": {
         "fill": "#color",
         "stroke": "#color",
@@ -111,49 +86,40 @@ Shape-specific properties:
 - line: x1, y1, x2, y2
 - polyline/polygon: points (space-separated x,y pairs)
 - path: d (SVG path data like "M 10,10 L 90,90 C 100,100 150,150 200,200 Z")
-- text: x, y, text (content), fontSize (optional), fontFamily (optional), textAnchor (optional)`;
-
-/**
- * Call LLM with a prompt and return text response
- */
-async function callLLM(prompt: string, systemPrompt?: string): Promise<string> {
-  if (getLLMProvider() === 'openai') {
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt });
-    }
-    messages.push({ role: 'user', content: prompt });
-
-    const response = await getOpenAIClient().chat.completions.create({
-      model: OPENAI_MODEL,
-      messages,
-    });
-
-    return response.choices[0]?.message?.content || '';
-  } else {
-    // Anthropic
-    const response = await getAnthropicClient().messages.create({
-      model: ANTHROPIC_MODEL,
-      max_tokens: 4096,
-      system: systemPrompt || '',
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type');
-    }
-    return content.text;
-  }
-}
+- text: x, y, text (content, "\\n" between lines), fontSize (optional), lineHeight (optional, multiple of fontSize), fontFamily (optional), fontWeight (optional: normal|bold), textAnchor (optional)
+- group: no geometry; "children" (array of layers, same format, may nest). The group's transform applies to all children, and its fill, stroke and strokeWidth are used by children that don't set their own.
+
+Groups: draw a repeated or movable part around its own center (e.g. circles at 0,0) and place it with the group transform, e.g.
+{"id": "left_ear", "type": "group", "props": {"fill": "#999", "transform": "translate(90,70)"}, "children": [{"id": "left_ear_outer", "type": "circle", "props": {"cx": 0, "cy": 0, "r": 40}}, {"id": "left_ear_inner", "type": "circle", "props": {"cx": 0, "cy": 0, "r": 25, "fill": "pink"}}]}
+To move, resize or rotate such a part later, change only the group transform (e.g. add scale(1.3)) instead of every child coordinate.
+
+Reusable definitions (optional "defs" array next to "layers"), referenced with "url(#id)":
+- linearGradient: x1, y1, x2, y2 (0-1 across the shape, optional), stops
+- radialGradient: cx, cy, r, fx, fy (0-1 across the shape, optional), stops
+  Each stop: {"offset": 0-1, "color": "#color", "opacity": 0-1 (optional)}
+- pattern: width, height (tile size), patternTransform (optional), layers (shapes drawn in one tile)
+- clipPath: layers (shapes whose outline clips the layer that uses it)
+- marker: width, height, refX, refY (point placed on the line end), orient (optional: auto|auto-start-reverse), units (optional: strokeWidth|userSpaceOnUse), layers (drawn in a 0,0 to width,height box)
+
+Using definitions from layer props:
+- fill or stroke: "url(#gradient_or_pattern_id)"
+- clipPath: "url(#clip_path_id)" (any shape)
+- markerStart, markerMid, markerEnd: "url(#marker_id)" (line, polyline, polygon, path)
+Every url(#id) must point at a def with that id and the right type.
+
+Definition examples:
+- Shaded sphere: {"id": "shade", "type": "radialGradient", "fx": 0.3, "fy": 0.3, "stops": [{"offset": 0, "color": "#ffffff"}, {"offset": 1, "color": "#3366cc"}]}
+- Hatching: {"id": "hatch", "type": "pattern", "width": 8, "height": 8, "patternTransform": "rotate(45)", "layers": [{"id": "hatch_line", "type": "line", "props": {"x1": 0, "y1": 0, "x2": 0, "y2": 8, "stroke": "#000", "strokeWidth": 1}}]}
+- Arrowhead: {"id": "arrow", "type": "marker", "width": 10, "height": 10, "refX": 10, "refY": 5, "orient": "auto", "layers": [{"id": "arrow_head", "type": "polygon", "props": {"points": "0,0 10,5 0,10", "fill": "#000"}}]}
+  used as {"type": "line", "props": {"x1": 50, "y1": 100, "x2": 200, "y2": 100, "stroke": "#000", "markerEnd": "url(#arrow)"}}`;
 
 /**
  * Generate SVG specification from a text prompt
  * Uses two-step process: research then generate
  */
-export async function generateSvg(prompt: string): Promise<SvgSpec> {
-  console.log(`Using ${getLLMProvider().toUpperCase()} provider...`);
-  console.log('Analyzing request...');
+export async function generateSvg(prompt: string): Promise<ParsedSpec<SvgSpec>> {
+  progress(`Using ${getCurrentProviderName().toUpperCase()} provider...`);
+  progress('Analyzing request...');
 
   // Step 1: Research
   const researchPrompt = `Analyze this request: "${prompt}"
@@ -170,10 +136,10 @@ Be specific about geometry and cite the standard if applicable.`;
 
   const visualDescription = await callLLM(researchPrompt);
 
-  console.log('\n=== Research Output ===');
-  console.log(visualDescription);
-  console.log('======================\n');
-  console.log('Generating SVG...');
+  progress('\n=== Research Output ===');
+  progress(visualDescription);
+  progress('======================\n');
+  progress('Generating SVG...');
 
   // Step 2: Generate
   const generatePrompt = `Based on this visual analysis:
@@ -184,17 +150,14 @@ Now generate the SVG JSON specification for: ${prompt}`;
 
   const jsonText = await callLLM(generatePrompt, SYSTEM_PROMPT);
 
-  // Parse JSON from response (strip markdown if present)
-  let text = jsonText.trim();
-  if (text.startsWith('```')) {
-    text = text.replace(/^```(json)?\n?/, '').replace(/\n?```$/, '');
-  }
-  const spec = JSON.parse(text) as SvgSpec;
+  // Parse and validate JSON, asking the LLM to repair it if needed
+  const result = await parseWithRepair(jsonText, assertValidSvgSpec, callLLM, SYSTEM_PROMPT, getCurrentProviderName());
+  const { spec } = result;
 
-  console.log(`Generated specification: ${spec.name}`);
-  console.log(`Layers: ${spec.layers.length}`);
+  progress(`Generated specification: ${spec.name}`);
+  progress(`Layers: ${spec.layers.length}`);
 
-  return spec;
+  return result;
 }
 
 /**
@@ -203,8 +166,8 @@ Now generate the SVG JSON specification for: ${prompt}`;
 export async function refineSvg(
   previousSpec: SvgSpec,
   refinementPrompt: string
-): Promise<SvgSpec> {
-  console.log('Sending refinement request...');
+): Promise<ParsedSpec<SvgSpec>> {
+  progress('Sending refinement request...');
 
   const prompt = `Here is the current SVG specification:
 
@@ -212,6 +175,8 @@ ${JSON.stringify(previousSpec, null, 2)}
 
 Please modify it based on this request: ${refinementPrompt}
 
+If the change moves, resizes or rotates a group, edit its transform and keep its children's coordinates.
+
 Respond with the complete updated specification.`;
 
   return generateSvg(prompt);
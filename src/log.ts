@@ -0,0 +1,25 @@
+/**
+ * Progress Output
+ *
+ * Status messages from the pipeline and LLM clients. They go to stdout in
+ * the interactive REPL; one-shot commands send them to stderr so stdout
+ * carries nothing but the JSON result.
+ */
+
+import { format } from 'util';
+
+let progressStream: NodeJS.WritableStream = process.stdout;
+
+/**
+ * Send progress messages to another stream (e.g. process.stderr)
+ */
+export function setProgressStream(stream: NodeJS.WritableStream): void {
+  progressStream = stream;
+}
+
+/**
+ * Write a progress message (same formatting as console.log)
+ */
+export function progress(...args: unknown[]): void {
+  progressStream.write(`${format(...args)}\n`);
+}
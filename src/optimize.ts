@@ -0,0 +1,465 @@
+/**
+ * SVG Optimization
+ *
+ * Optional stage after markup generation: rounds numbers, drops attributes
+ * that repeat a default or inherited value, strips comments and the XML
+ * prolog, moves styles shared by adjacent elements onto a group and rewrites
+ * simple shapes as shorter paths. Output is indented like the generators
+ * (pretty) or a single line (minified). Works on the markup only, so the
+ * saved spec stays as generated.
+ */
+
+import { parseXml, type XmlElement, type XmlNode } from './xml.js';
+import { rewritePathData } from './path.js';
+import { parsePoints } from './bounds.js';
+import { attr, escapeText } from './sanitize.js';
+
+// Which optimizations to run
+export interface OptimizeOptions {
+  precision?: number; // decimals kept in coordinates and lengths (all kept if unset)
+  dropDefaults?: boolean; // drop attributes repeating a default or inherited value
+  stripComments?: boolean; // strip comments and the XML prolog
+  mergeStyles?: boolean; // move styles shared by adjacent elements onto a group
+  shapesToPaths?: boolean; // rewrite rects, lines, polylines and polygons as paths where shorter
+  minify?: boolean; // one line and shortest number forms, instead of indented markup
+}
+
+// Optimized markup and its size before and after, in bytes
+export interface OptimizeResult {
+  markup: string;
+  before: number;
+  after: number;
+}
+
+export const DEFAULT_OPTIMIZE: OptimizeOptions = {
+  precision: 3,
+  dropDefaults: true,
+  stripComments: true,
+  mergeStyles: true,
+  shapesToPaths: true,
+  minify: false,
+};
+
+// Passes that "no-<name>" switches off
+const SWITCHES = {
+  defaults: 'dropDefaults',
+  comments: 'stripComments',
+  merge: 'mergeStyles',
+  paths: 'shapesToPaths',
+} as const satisfies Record<string, keyof OptimizeOptions>;
+
+// Largest precision accepted (more decimals than doubles carry is pointless)
+const MAX_PRECISION = 10;
+
+const NUMBER = /^\s*[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?\s*$/;
+const NUMBERS = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+// Attributes holding a single coordinate or length
+const NUMERIC_ATTRIBUTES = new Set([
+  'x', 'y', 'width', 'height', 'rx', 'ry', 'cx', 'cy', 'r', 'fx', 'fy', 'x1', 'y1', 'x2', 'y2',
+  'stroke-width', 'font-size', 'refX', 'refY', 'markerWidth', 'markerHeight',
+]);
+
+// Attributes holding a list of coordinates
+const NUMBER_LIST_ATTRIBUTES = new Set(['points', 'viewBox']);
+
+// Attributes holding a fraction, which the coordinate precision would wipe out (opacity 0.3 at precision 0)
+const FRACTION_ATTRIBUTES = new Set(['opacity', 'fill-opacity', 'stroke-opacity', 'stop-opacity', 'offset']);
+
+const TRANSFORM_ATTRIBUTES = new Set(['transform', 'patternTransform', 'gradientTransform']);
+const TRANSFORM_FUNCTIONS = /([a-zA-Z]+)\s*\(([^)]*)\)/g;
+
+// Arguments of each transform function that are coordinates; the rest are
+// scale factors and angles, whose rounding error grows with the distance from the origin
+const TRANSFORM_COORDINATES: Record<string, number[]> = {
+  translate: [0, 1],
+  rotate: [1, 2],
+  matrix: [4, 5],
+};
+
+// Fewest decimals kept in fractions, scale factors and angles
+const FACTOR_PRECISION = 4;
+
+// Geometry attributes a shape's path replaces
+const SHAPE_GEOMETRY: Record<string, string[]> = {
+  rect: ['x', 'y', 'width', 'height'],
+  line: ['x1', 'y1', 'x2', 'y2'],
+  polyline: ['points'],
+  polygon: ['points'],
+};
+
+// Inherited style attributes that adjacent elements can share through a group
+const STYLE_ATTRIBUTES = ['fill', 'stroke', 'stroke-width', 'font-size', 'font-family', 'font-weight', 'text-anchor'];
+
+// Elements that can be moved into a group, and containers whose children can
+// be regrouped (clip paths only allow shapes, defs hold no drawing)
+const GROUPABLE = new Set(['g', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'path', 'text']);
+const REGROUPABLE = new Set(['svg', 'g', 'pattern', 'marker']);
+
+// Initial values of the inherited properties the generators write
+const INHERITED_DEFAULTS: Record<string, string> = {
+  fill: 'black',
+  stroke: 'none',
+  'stroke-width': '1',
+  'font-weight': 'normal',
+  'text-anchor': 'start',
+};
+
+// Defaults of non-inherited attributes, per element ('*' for all)
+const ELEMENT_DEFAULTS: Record<string, Record<string, string>> = {
+  '*': { opacity: '1' },
+  rect: { x: '0', y: '0' },
+  circle: { cx: '0', cy: '0' },
+  ellipse: { cx: '0', cy: '0' },
+  line: { x1: '0', y1: '0', x2: '0', y2: '0' },
+  text: { x: '0', y: '0' },
+  linearGradient: { x1: '0', y1: '0', y2: '0' },
+  stop: { offset: '0', 'stop-opacity': '1' },
+  marker: { refX: '0', refY: '0', markerWidth: '3', markerHeight: '3', markerUnits: 'strokeWidth' },
+};
+
+const COLOR_ALIASES: Record<string, string> = { '#000': 'black', '#000000': 'black' };
+
+function isElement(node: XmlNode): node is XmlElement {
+  return 'name' in node;
+}
+
+/**
+ * Parse optimize settings: a list of a precision (decimals), "pretty" or
+ * "min", and "no-round", "no-defaults", "no-comments", "no-merge" or
+ * "no-paths" to skip a pass, e.g. "2,min". Unset settings use the defaults.
+ */
+export function parseOptimizeOptions(value: string): OptimizeOptions | null {
+  const options: OptimizeOptions = { ...DEFAULT_OPTIMIZE };
+  for (const token of value.trim().toLowerCase().split(/[\s,]+/).filter(Boolean)) {
+    const name = token.replace(/^no-/, '');
+    if (/^\d+$/.test(token) && Number(token) <= MAX_PRECISION) {
+      options.precision = Number(token);
+    } else if (token === 'min' || token === 'pretty') {
+      options.minify = token === 'min';
+    } else if (token === 'no-round') {
+      delete options.precision;
+    } else if (token.startsWith('no-') && name in SWITCHES) {
+      options[SWITCHES[name as keyof typeof SWITCHES]] = false;
+    } else if (token !== 'on') {
+      return null;
+    }
+  }
+  return options;
+}
+
+/**
+ * Human-readable summary of optimize settings, e.g. "precision 2, minified, no merge"
+ */
+export function formatOptimize(options: OptimizeOptions): string {
+  const parts = [
+    options.precision !== undefined ? `precision ${options.precision}` : 'full precision',
+    options.minify ? 'minified' : 'pretty',
+  ];
+  for (const [name, key] of Object.entries(SWITCHES)) {
+    if (!options[key]) parts.push(`no ${name}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Byte savings of an optimization, e.g. "2048 -> 1024 bytes (50% smaller)"
+ */
+export function formatSavings({ before, after }: OptimizeResult): string {
+  const percent = before > 0 ? Math.round(((before - after) / before) * 100) : 0;
+  return `${before} -> ${after} bytes (${percent}% smaller)`;
+}
+
+/**
+ * Format a number rounded to the precision; minified drops the leading zero ("0.5" -> ".5")
+ */
+function formatNumber(value: number, options: OptimizeOptions): string {
+  const factor = 10 ** (options.precision ?? 0);
+  const rounded = options.precision !== undefined ? Math.round(value * factor) / factor : value;
+  // Also turns -0 into 0
+  const text = String(rounded === 0 ? 0 : rounded);
+  return options.minify ? text.replace(/^(-?)0\./, '$1.') : text;
+}
+
+/**
+ * Options for numbers that aren't coordinates: at least FACTOR_PRECISION decimals
+ */
+function factorOptions(options: OptimizeOptions): OptimizeOptions {
+  if (options.precision === undefined) return options;
+  return { ...options, precision: Math.max(options.precision, FACTOR_PRECISION) };
+}
+
+/**
+ * Transform list with its coordinates rounded to the precision and its factors and angles to FACTOR_PRECISION
+ */
+function roundTransform(value: string, options: OptimizeOptions): string {
+  return value.replace(TRANSFORM_FUNCTIONS, (call: string, name: string) => {
+    const coordinates = TRANSFORM_COORDINATES[name] ?? [];
+    let index = 0;
+    return call.replace(NUMBERS, number =>
+      formatNumber(parseFloat(number), coordinates.includes(index++) ? options : factorOptions(options))
+    );
+  });
+}
+
+/**
+ * Attribute value with its numbers rounded (unparseable path data is kept)
+ */
+function roundAttribute(name: string, value: string, options: OptimizeOptions): string {
+  if (name === 'd') {
+    try {
+      return rewritePathData(value, number => formatNumber(number, options), options.minify);
+    } catch {
+      return value;
+    }
+  }
+  if (NUMERIC_ATTRIBUTES.has(name) && NUMBER.test(value)) {
+    return formatNumber(parseFloat(value), options);
+  }
+  if (FRACTION_ATTRIBUTES.has(name) && NUMBER.test(value)) {
+    return formatNumber(parseFloat(value), factorOptions(options));
+  }
+  if (TRANSFORM_ATTRIBUTES.has(name)) {
+    return roundTransform(value, options);
+  }
+  if (NUMBER_LIST_ATTRIBUTES.has(name)) {
+    return value.replace(NUMBERS, number => formatNumber(parseFloat(number), options));
+  }
+  return value;
+}
+
+/**
+ * Drop whitespace between elements (text content is kept as is) and, if asked, comments
+ */
+function clean(element: XmlElement, stripComments: boolean): void {
+  const hasText = element.children.some(child => 'text' in child && child.text.trim());
+  element.children = element.children.filter(child => {
+    if ('comment' in child) return !stripComments;
+    if ('text' in child) return hasText;
+    clean(child, stripComments);
+    return true;
+  });
+}
+
+function roundNumbers(element: XmlElement, options: OptimizeOptions): void {
+  for (const [name, value] of Object.entries(element.attributes)) {
+    element.attributes[name] = roundAttribute(name, value, options);
+  }
+  for (const child of element.children) {
+    if (isElement(child)) roundNumbers(child, options);
+  }
+}
+
+/**
+ * Path data drawing the same outline as a rect, line, polyline or polygon
+ * (null if the shape has rounded corners, isn't drawn or has non-numeric geometry)
+ */
+function shapePathData(element: XmlElement): string | null {
+  const attributes = element.attributes;
+  const number = (name: string): number | null => {
+    const value = attributes[name];
+    if (value === undefined) return 0;
+    return NUMBER.test(value) ? parseFloat(value) : null;
+  };
+
+  switch (element.name) {
+    case 'rect': {
+      const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(number);
+      if (attributes.rx !== undefined || attributes.ry !== undefined) return null;
+      if (x === null || y === null || width === null || height === null) return null;
+      // A rect without area isn't drawn, but its path would be stroked
+      if (width <= 0 || height <= 0) return null;
+      return `M${x} ${y}H${x + width}V${y + height}H${x}Z`;
+    }
+    case 'line': {
+      const [x1, y1, x2, y2] = ['x1', 'y1', 'x2', 'y2'].map(number);
+      if (x1 === null || y1 === null || x2 === null || y2 === null) return null;
+      return `M${x1} ${y1}L${x2} ${y2}`;
+    }
+    case 'polyline':
+    case 'polygon': {
+      const points = parsePoints(attributes.points ?? '');
+      if (points.length === 0 || points.some(point => !point.every(Number.isFinite))) return null;
+      const [[x, y], ...rest] = points;
+      const lines = rest.length > 0 ? `L${rest.map(point => point.join(' ')).join(' ')}` : '';
+      return `M${x} ${y}${lines}${element.name === 'polygon' ? 'Z' : ''}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rewrite shapes as paths where the path is shorter
+ */
+function shapesToPaths(element: XmlElement, options: OptimizeOptions): void {
+  element.children = element.children.map(child => {
+    if (!isElement(child)) return child;
+    shapesToPaths(child, options);
+
+    const d = shapePathData(child);
+    if (d === null) return child;
+
+    // The path data goes where the geometry was
+    const geometry = SHAPE_GEOMETRY[child.name];
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(child.attributes)) {
+      if (!geometry.includes(name)) {
+        attributes[name] = value;
+      } else if (!('d' in attributes)) {
+        attributes.d = rewritePathData(d, number => formatNumber(number, options), options.minify);
+      }
+    }
+    const path: XmlElement = { name: 'path', attributes, children: child.children };
+    return serialize(path, options, '').length < serialize(child, options, '').length ? path : child;
+  });
+}
+
+/**
+ * Style attributes shared by a group of elements, as a comparable key (null if none)
+ */
+function styleKey(node: XmlNode): string | null {
+  if (!isElement(node) || !GROUPABLE.has(node.name)) return null;
+  const styles = STYLE_ATTRIBUTES.filter(name => name in node.attributes).map(name => [name, node.attributes[name]]);
+  return styles.length > 0 ? JSON.stringify(styles) : null;
+}
+
+function withoutStyles(element: XmlElement): XmlElement {
+  const attributes = { ...element.attributes };
+  for (const name of STYLE_ATTRIBUTES) delete attributes[name];
+  return { ...element, attributes };
+}
+
+/**
+ * Move the styles of runs of adjacent elements with identical styles onto a
+ * group (or onto their parent group if the run is all of its children),
+ * wherever that makes the markup shorter
+ */
+function mergeStyles(element: XmlElement, options: OptimizeOptions): XmlElement {
+  let result: XmlElement = {
+    ...element,
+    children: element.children.map(child => (isElement(child) ? mergeStyles(child, options) : child)),
+  };
+  if (!REGROUPABLE.has(element.name)) return result;
+
+  let start = 0;
+  while (start < result.children.length) {
+    const key = styleKey(result.children[start]);
+    let end = start + 1;
+    while (key && end < result.children.length && styleKey(result.children[end]) === key) end++;
+    if (!key || end - start < 2) {
+      start = end;
+      continue;
+    }
+
+    const run = result.children.slice(start, end) as XmlElement[];
+    const styles = Object.fromEntries(JSON.parse(key) as [string, string][]);
+    const hoist = result.name === 'g' && end - start === result.children.length;
+    const candidate: XmlElement = hoist
+      ? { ...result, attributes: { ...result.attributes, ...styles }, children: run.map(withoutStyles) }
+      : {
+          ...result,
+          children: [
+            ...result.children.slice(0, start),
+            { name: 'g', attributes: styles, children: run.map(withoutStyles) },
+            ...result.children.slice(end),
+          ],
+        };
+
+    if (serialize(candidate, options, '').length < serialize(result, options, '').length) {
+      result = candidate;
+      start = hoist ? end : start + 1;
+    } else {
+      start = end;
+    }
+  }
+  return result;
+}
+
+/**
+ * Compare attribute values: numbers by value, colours and keywords ignoring case
+ */
+function sameValue(a: string, b: string): boolean {
+  if (NUMBER.test(a) && NUMBER.test(b)) return parseFloat(a) === parseFloat(b);
+  const normalize = (value: string) => {
+    const lower = value.trim().toLowerCase();
+    return COLOR_ALIASES[lower] ?? lower;
+  };
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Drop attributes equal to the value inherited from the parent or the
+ * attribute's default, and groups left without attributes
+ */
+function dropDefaults(element: XmlElement, inherited: Record<string, string>): void {
+  const defaults = { ...ELEMENT_DEFAULTS['*'], ...ELEMENT_DEFAULTS[element.name] };
+  const passedDown = { ...inherited };
+
+  for (const [name, value] of Object.entries(element.attributes)) {
+    if (name in inherited) {
+      if (sameValue(value, inherited[name])) {
+        delete element.attributes[name];
+      } else {
+        passedDown[name] = value;
+      }
+    } else if (name in defaults && sameValue(value, defaults[name])) {
+      delete element.attributes[name];
+    }
+  }
+
+  element.children = element.children.flatMap(child => {
+    if (!isElement(child)) return [child];
+    dropDefaults(child, passedDown);
+    return child.name === 'g' && Object.keys(child.attributes).length === 0 ? child.children : [child];
+  });
+}
+
+/**
+ * Serialize an element: indented one element per line, or on one line when minified
+ * (elements with text content always stay on one line)
+ */
+function serialize(element: XmlElement, options: OptimizeOptions, indent: string): string {
+  const open = [element.name, ...Object.entries(element.attributes).map(([name, value]) => attr(name, value))].join(' ');
+  const { children } = element;
+
+  if (children.length === 0) {
+    return `${indent}<${open}${options.minify ? '/>' : ' />'}`;
+  }
+  if (options.minify || children.some(child => 'text' in child)) {
+    const inline = children.map(child => {
+      if ('text' in child) return escapeText(child.text);
+      if ('comment' in child) return `<!-- ${child.comment} -->`;
+      return serialize(child, { ...options, minify: true }, '');
+    });
+    return `${indent}<${open}>${inline.join('')}</${element.name}>`;
+  }
+
+  const lines = children.map(child => {
+    if ('comment' in child) return `${indent}  <!-- ${child.comment} -->`;
+    return serialize(child as XmlElement, options, `${indent}  `);
+  });
+  return [`${indent}<${open}>`, ...lines, `${indent}</${element.name}>`].join('\n');
+}
+
+/**
+ * Optimize SVG markup
+ */
+export function optimizeSvg(markup: string, options: OptimizeOptions = DEFAULT_OPTIMIZE): OptimizeResult {
+  let svg = parseXml(markup);
+  clean(svg, options.stripComments ?? false);
+  roundNumbers(svg, options);
+  if (options.shapesToPaths) shapesToPaths(svg, options);
+  if (options.mergeStyles) svg = mergeStyles(svg, options);
+  if (options.dropDefaults) dropDefaults(svg, INHERITED_DEFAULTS);
+
+  const prolog = options.stripComments ? null : /^\s*(<\?xml[^]*?\?>)/.exec(markup)?.[1];
+  const body = serialize(svg, options, '');
+  const optimized = prolog ? `${prolog}${options.minify ? '' : '\n'}${body}` : body;
+
+  return {
+    markup: optimized,
+    before: Buffer.byteLength(markup),
+    after: Buffer.byteLength(optimized),
+  };
+}
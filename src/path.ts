@@ -0,0 +1,354 @@
+/**
+ * SVG Path Data
+ *
+ * Parses path "d" strings into absolute segments (relative commands, H/V
+ * and smooth curves resolved) for geometry such as bounds, and flattens
+ * them into polylines for CAD export; rewrites the numbers in path data for
+ * the optimizer
+ */
+
+export type Point = [number, number];
+
+// One drawing step of a path, in absolute coordinates
+export type PathSegment =
+  | { type: 'move', to: Point }
+  | { type: 'line', from: Point, to: Point }
+  | { type: 'cubic', from: Point, c1: Point, c2: Point, to: Point }
+  | { type: 'quadratic', from: Point, c: Point, to: Point }
+  | { type: 'arc', from: Point, to: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean }
+  | { type: 'close', from: Point, to: Point };
+
+// Arc segment as an ellipse: center + u·cos(θ) + v·sin(θ) for θ from start to start + delta
+export interface ArcEllipse {
+  center: Point;
+  u: Point;
+  v: Point;
+  start: number;
+  delta: number;
+}
+
+// Number of arguments per command
+const ARGUMENTS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+const NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Parse path data into absolute segments. Throws on malformed data.
+ */
+export function parsePathData(d: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let i = 0;
+  let command = '';
+  let current: Point = [0, 0];
+  let subpathStart: Point = [0, 0];
+  let lastControl: { command: string, point: Point } | null = null;
+
+  const skip = () => {
+    while (i < d.length && /[\s,]/.test(d[i])) i++;
+  };
+  const fail = (message: string): never => {
+    throw new Error(`Invalid path data at ${i}: ${message}`);
+  };
+  const number = (): number => {
+    skip();
+    NUMBER.lastIndex = i;
+    const match = NUMBER.exec(d);
+    if (!match) fail('expected a number');
+    i = NUMBER.lastIndex;
+    return parseFloat(match![0]);
+  };
+  const flag = (): boolean => {
+    skip();
+    if (d[i] !== '0' && d[i] !== '1') fail('expected an arc flag (0 or 1)');
+    return d[i++] === '1';
+  };
+
+  while (true) {
+    skip();
+    if (i >= d.length) break;
+
+    if (/[a-zA-Z]/.test(d[i])) {
+      command = d[i++];
+      if (!(command.toLowerCase() in ARGUMENTS)) fail(`unknown command "${command}"`);
+    } else if (!command || command.toLowerCase() === 'z') {
+      fail(command ? 'numbers after close path' : 'path must start with a command');
+    }
+    if (segments.length === 0 && command.toLowerCase() !== 'm') fail('path must start with M');
+
+    const lower = command.toLowerCase();
+    const relative = command === lower;
+    const point = (): Point => {
+      const x = number();
+      const y = number();
+      return relative ? [current[0] + x, current[1] + y] : [x, y];
+    };
+    const from = current;
+
+    switch (lower) {
+      case 'm':
+        current = subpathStart = point();
+        segments.push({ type: 'move', to: current });
+        // Further coordinate pairs are implicit line-tos
+        command = relative ? 'l' : 'L';
+        break;
+      case 'l':
+        current = point();
+        segments.push({ type: 'line', from, to: current });
+        break;
+      case 'h': {
+        const x = number();
+        current = [relative ? current[0] + x : x, current[1]];
+        segments.push({ type: 'line', from, to: current });
+        break;
+      }
+      case 'v': {
+        const y = number();
+        current = [current[0], relative ? current[1] + y : y];
+        segments.push({ type: 'line', from, to: current });
+        break;
+      }
+      case 'c': {
+        const c1 = point();
+        const c2 = point();
+        current = point();
+        segments.push({ type: 'cubic', from, c1, c2, to: current });
+        lastControl = { command: 'c', point: c2 };
+        break;
+      }
+      case 's': {
+        const c1 = reflect(lastControl, 'c', from);
+        const c2 = point();
+        current = point();
+        segments.push({ type: 'cubic', from, c1, c2, to: current });
+        lastControl = { command: 'c', point: c2 };
+        break;
+      }
+      case 'q': {
+        const c = point();
+        current = point();
+        segments.push({ type: 'quadratic', from, c, to: current });
+        lastControl = { command: 'q', point: c };
+        break;
+      }
+      case 't': {
+        const c = reflect(lastControl, 'q', from);
+        current = point();
+        segments.push({ type: 'quadratic', from, c, to: current });
+        lastControl = { command: 'q', point: c };
+        break;
+      }
+      case 'a': {
+        const rx = Math.abs(number());
+        const ry = Math.abs(number());
+        const rotation = number();
+        const largeArc = flag();
+        const sweep = flag();
+        current = point();
+        segments.push({ type: 'arc', from, to: current, rx, ry, rotation, largeArc, sweep });
+        break;
+      }
+      case 'z':
+        current = subpathStart;
+        segments.push({ type: 'close', from, to: current });
+        break;
+    }
+
+    if (lower !== 'c' && lower !== 's' && lower !== 'q' && lower !== 't') {
+      lastControl = null;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Rewrite path data with every number passed through format, keeping its
+ * commands (relative stays relative). Commands are written next to their
+ * first number; compact also leaves out separators wherever the next number
+ * can't be misread (before "-", or "." after a number with a decimal point).
+ * Throws on malformed data.
+ */
+export function rewritePathData(d: string, format: (value: number) => string, compact = false): string {
+  parsePathData(d);
+
+  const tokens: string[] = [];
+  let i = 0;
+  let command = '';
+  let argument = 0;
+  while (i < d.length) {
+    if (/[\s,]/.test(d[i])) {
+      i++;
+    } else if (/[a-zA-Z]/.test(d[i])) {
+      command = d[i++];
+      argument = 0;
+      tokens.push(command);
+    } else {
+      // Arc flags are single digits that may be written without separators
+      const position = argument++ % ARGUMENTS[command.toLowerCase()];
+      if (command.toLowerCase() === 'a' && (position === 3 || position === 4)) {
+        tokens.push(d[i++]);
+      } else {
+        NUMBER.lastIndex = i;
+        const match = NUMBER.exec(d)!;
+        i = NUMBER.lastIndex;
+        tokens.push(format(parseFloat(match[0])));
+      }
+    }
+  }
+
+  let result = '';
+  let previous = '';
+  for (const token of tokens) {
+    const isCommand = /^[a-zA-Z]$/.test(token);
+    const afterCommand = /^[a-zA-Z]$/.test(previous);
+    const unambiguous = token.startsWith('-') || (token.startsWith('.') && previous.includes('.') && !/e/i.test(previous));
+    if (previous && !afterCommand && !(compact && (isCommand || unambiguous))) result += ' ';
+    result += token;
+    previous = token;
+  }
+  return result;
+}
+
+/**
+ * First control point of a smooth curve: the previous control point mirrored
+ * through the current point, or the current point if the previous segment
+ * wasn't the same kind of curve
+ */
+function reflect(last: { command: string, point: Point } | null, command: string, current: Point): Point {
+  if (!last || last.command !== command) return current;
+  return [2 * current[0] - last.point[0], 2 * current[1] - last.point[1]];
+}
+
+/**
+ * Center parameterization of an arc segment (SVG spec, appendix F.6.5).
+ * Returns null for arcs drawn as a straight line (zero radius or no length).
+ */
+export function arcEllipse(segment: Extract<PathSegment, { type: 'arc' }>): ArcEllipse | null {
+  const { from, to, largeArc, sweep } = segment;
+  let { rx, ry } = segment;
+  if (rx === 0 || ry === 0 || (from[0] === to[0] && from[1] === to[1])) return null;
+
+  const phi = (segment.rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  // Midpoint in the ellipse's rotated frame
+  const dx = (from[0] - to[0]) / 2;
+  const dy = (from[1] - to[1]) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Scale up radii that are too small to reach the end point
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+
+  const center: Point = [
+    cos * cx1 - sin * cy1 + (from[0] + to[0]) / 2,
+    sin * cx1 + cos * cy1 + (from[1] + to[1]) / 2,
+  ];
+
+  const start = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+  const end = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx);
+  let delta = end - start;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+
+  return {
+    center,
+    u: [rx * cos, rx * sin],
+    v: [-ry * sin, ry * cos],
+    start,
+    delta,
+  };
+}
+
+// Polyline approximation of one subpath
+export interface FlatSubpath {
+  points: Point[];
+  closed: boolean;
+}
+
+// Straight pieces per curve, and per quarter turn of an arc
+const CURVE_STEPS = 16;
+const ARC_STEPS = 8;
+
+/**
+ * Approximate path segments by polylines, one per subpath
+ */
+export function flattenPath(segments: PathSegment[]): FlatSubpath[] {
+  const subpaths: FlatSubpath[] = [];
+  // Subpath being drawn; a command after Z without M starts a new one where Z ended
+  let current: FlatSubpath = { points: [], closed: false };
+
+  for (const segment of segments) {
+    if (segment.type === 'move') {
+      current = { points: [segment.to], closed: false };
+      subpaths.push(current);
+      continue;
+    }
+    if (segment.type === 'close') {
+      current.closed = true;
+      current = { points: [segment.to], closed: false };
+      subpaths.push(current);
+      continue;
+    }
+
+    const points = current.points;
+    switch (segment.type) {
+      case 'line':
+        points.push(segment.to);
+        break;
+      case 'cubic':
+        for (let i = 1; i <= CURVE_STEPS; i++) points.push(cubicAt(segment.from, segment.c1, segment.c2, segment.to, i / CURVE_STEPS));
+        break;
+      case 'quadratic':
+        for (let i = 1; i <= CURVE_STEPS; i++) points.push(quadraticAt(segment.from, segment.c, segment.to, i / CURVE_STEPS));
+        break;
+      case 'arc': {
+        const ellipse = arcEllipse(segment);
+        if (ellipse) {
+          const { center, u, v, start, delta } = ellipse;
+          const steps = Math.max(1, Math.ceil((Math.abs(delta) / (Math.PI / 2)) * ARC_STEPS));
+          for (let i = 1; i < steps; i++) {
+            const theta = start + (delta * i) / steps;
+            points.push([
+              center[0] + u[0] * Math.cos(theta) + v[0] * Math.sin(theta),
+              center[1] + u[1] * Math.cos(theta) + v[1] * Math.sin(theta),
+            ]);
+          }
+        }
+        points.push(segment.to);
+        break;
+      }
+    }
+  }
+
+  // A closed subpath that returns to its start doesn't need the end point twice
+  for (const subpath of subpaths) {
+    const [first] = subpath.points;
+    const last = subpath.points[subpath.points.length - 1];
+    if (subpath.closed && subpath.points.length > 2 && first[0] === last[0] && first[1] === last[1]) {
+      subpath.points.pop();
+    }
+  }
+  return subpaths.filter(subpath => subpath.points.length > 1);
+}
+
+function cubicAt(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const mt = 1 - t;
+  return [0, 1].map(k => mt * mt * mt * p0[k] + 3 * mt * mt * t * p1[k] + 3 * mt * t * t * p2[k] + t * t * t * p3[k]) as Point;
+}
+
+function quadraticAt(p0: Point, p1: Point, p2: Point, t: number): Point {
+  const mt = 1 - t;
+  return [0, 1].map(k => mt * mt * p0[k] + 2 * mt * t * p1[k] + t * t * p2[k]) as Point;
+}
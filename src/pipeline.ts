@@ -0,0 +1,340 @@
+/**
+ * Generation Pipeline
+ *
+ * Shared generate/refine flow used by both the interactive REPL and the
+ * one-shot CLI commands: LLM spec -> SVG markup -> saved file + metadata
+ */
+
+import { basename, extname } from 'path';
+import { readFileSync, existsSync } from 'fs';
+import { generateSvg, refineSvg } from './llm.js';
+import { generateSvgMarkup } from './generator.js';
+import { generateSemanticSvg, refineSemanticSvg } from './llm-semantic.js';
+import { generateSemanticSvg as generateSemanticSvgMarkup, compileSemanticSvgSpec } from './generator-semantic.js';
+import { saveSvg, saveOutputFile, outputPath, recordPngExports, type GenerationMode, type SvgMetadata } from './storage.js';
+import type { ParsedSpec, RepairAttempt } from './repair.js';
+import { sanitizeSvgSpec, formatChanges, type SanitizeChange } from './sanitize.js';
+import { sanitizeSemanticSvgSpec } from './sanitize-semantic.js';
+import { getCurrentProvider, missingEnv } from './providers.js';
+import { formatFit, type FitOptions } from './fit.js';
+import { importSvg, importName, formatImportWarnings } from './importer.js';
+import { assertValidSvgSpec } from './validate.js';
+import { exportPngs, formatPngSize, type PngSize, type PngExport } from './raster.js';
+import { drawioLibrary, drawioLibraryEntry } from './export-drawio.js';
+import { exportDxf } from './export-dxf.js';
+import { exportComponent, COMPONENT_FRAMEWORKS } from './export-components.js';
+import { optimizeSvg, formatOptimize, formatSavings, type OptimizeOptions } from './optimize.js';
+import { lintSvgSpec, lintSemanticSvgSpec, lintFeedback, formatFindings, type LintFinding } from './lint.js';
+import type { SvgSpec } from './schema.js';
+import { progress } from './log.js';
+import type { SemanticSvgSpec } from './schema-semantic.js';
+
+// Result of a single generation or refinement
+export interface GenerationResult {
+  id: string; // saved filename without extension
+  filepath: string;
+  mode: GenerationMode;
+  prompt: string;
+  svgMarkup: string;
+  spec: SvgSpec | SemanticSvgSpec;
+  repairs: RepairAttempt[];
+  sanitized: SanitizeChange[];
+  lint: LintFinding[]; // geometric problems in the saved spec
+  png?: PngExport[]; // PNG renderings, if requested
+  optimized?: { before: number, after: number }; // markup size in bytes, if optimized
+}
+
+// CAD and diagram formats a saved SVG can be exported to
+export const EXPORT_FORMATS = ['drawio', 'dxf', ...COMPONENT_FRAMEWORKS] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Optional rendering settings for a generation or refinement
+export interface GenerationOptions {
+  fit?: FitOptions; // fit the canvas to the drawn content
+  png?: PngSize[]; // also render PNGs at these sizes
+  optimize?: OptimizeOptions; // optimize the markup before saving it
+  fixLint?: number; // generate/refine: refinement rounds feeding lint findings back to the LLM
+}
+
+/**
+ * Parse a mode argument (s/semantic, c/coordinate)
+ */
+export function parseMode(arg: string): GenerationMode | null {
+  const value = arg.trim().toLowerCase();
+  if (value === 's' || value === 'semantic') return 'semantic';
+  if (value === 'c' || value === 'coordinate') return 'coordinate';
+  return null;
+}
+
+/**
+ * Throw if the current provider is unknown or its configuration is not set
+ */
+export function requireProviderConfig(): void {
+  const provider = getCurrentProvider();
+  const missing = missingEnv(provider);
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(', ')} environment variable(s) not set (provider: ${provider.name})`);
+  }
+}
+
+/**
+ * Optimize freshly rendered markup, if requested
+ */
+function optimizeMarkup(
+  svgMarkup: string,
+  optimize: OptimizeOptions | undefined
+): Pick<GenerationResult, 'svgMarkup' | 'optimized'> {
+  if (!optimize) return { svgMarkup };
+  const result = optimizeSvg(svgMarkup, optimize);
+  progress(`\nOptimized (${formatOptimize(optimize)}): ${formatSavings(result)}`);
+  return { svgMarkup: result.markup, optimized: { before: result.before, after: result.after } };
+}
+
+/**
+ * Sanitize a spec, render it to markup and save it
+ */
+function renderAndSave(
+  parsed: ParsedSpec<SvgSpec | SemanticSvgSpec>,
+  prompt: string,
+  mode: GenerationMode,
+  { fit, optimize }: GenerationOptions,
+  source?: string // filename of the SVG refined
+): GenerationResult {
+  const { repairs } = parsed;
+  const { spec, changes: sanitized } = mode === 'semantic'
+    ? sanitizeSemanticSvgSpec(parsed.spec as SemanticSvgSpec)
+    : sanitizeSvgSpec(parsed.spec as SvgSpec);
+
+  if (sanitized.length > 0) {
+    progress(`\nSanitized ${sanitized.length} value(s):`);
+    progress(formatChanges(sanitized));
+  }
+
+  if (fit) {
+    progress(`\nFitting canvas to content (${formatFit(fit)})`);
+  }
+
+  // The spec is saved as generated; only the markup is optimized
+  const { svgMarkup, optimized } = optimizeMarkup(mode === 'semantic'
+    ? generateSemanticSvgMarkup(spec as SemanticSvgSpec, fit)
+    : generateSvgMarkup(spec as SvgSpec, fit), optimize);
+  const filepath = saveSvg(svgMarkup, spec, prompt, mode, {
+    ...(repairs.length > 0 ? { repairs } : {}),
+    ...(sanitized.length > 0 ? { sanitized } : {}),
+    ...(fit ? { fit } : {}),
+    ...(optimize ? { optimize } : {}),
+    ...(source !== undefined ? { source } : {}),
+  });
+
+  return {
+    id: basename(filepath, '.svg'),
+    filepath,
+    mode,
+    prompt,
+    svgMarkup,
+    spec,
+    repairs,
+    sanitized,
+    lint: mode === 'semantic' ? lintSemanticSvgSpec(spec as SemanticSvgSpec, fit) : lintSvgSpec(spec as SvgSpec, fit),
+    ...(optimized ? { optimized } : {}),
+  };
+}
+
+/**
+ * Ask the LLM to change a spec (in the mode it was generated with)
+ */
+function refineSpec(
+  spec: SvgSpec | SemanticSvgSpec,
+  mode: GenerationMode,
+  feedback: string
+): Promise<ParsedSpec<SvgSpec | SemanticSvgSpec>> {
+  return mode === 'semantic'
+    ? refineSemanticSvg(spec as SemanticSvgSpec, feedback)
+    : refineSvg(spec as SvgSpec, feedback);
+}
+
+/**
+ * Refine a fresh result with its lint findings as feedback, up to the
+ * requested number of rounds or until nothing is found
+ */
+async function withLintFixes(result: GenerationResult, options: GenerationOptions): Promise<GenerationResult> {
+  const rounds = options.fixLint ?? 0;
+  let current = result;
+  for (let round = 1; round <= rounds && current.lint.length > 0; round++) {
+    progress(`\nFixing ${current.lint.length} lint finding(s) (round ${round}/${rounds}):`);
+    progress(formatFindings(current.lint));
+    const feedback = lintFeedback(current.lint);
+    const parsed = await refineSpec(current.spec, current.mode, feedback);
+    current = renderAndSave(parsed, `refine: ${feedback}`, current.mode, options, basename(current.filepath));
+  }
+  return current;
+}
+
+/**
+ * Render a saved SVG to PNG at each size, writing the files next to it and
+ * recording them in its metadata
+ */
+export async function runPngExport(filename: string, svgMarkup: string, sizes: PngSize[]): Promise<PngExport[]> {
+  progress(`\nRendering PNG (${sizes.map(formatPngSize).join(', ')})`);
+  const exports = await exportPngs(outputPath(filename), svgMarkup, sizes);
+  recordPngExports(filename, exports);
+  for (const png of exports) {
+    progress(`  ${outputPath(png.filename)} (${png.width}x${png.height})`);
+  }
+  return exports;
+}
+
+/**
+ * Render the requested PNGs for a freshly saved result
+ */
+async function withPngExports(result: GenerationResult, { png }: GenerationOptions): Promise<GenerationResult> {
+  if (!png?.length) return result;
+  return { ...result, png: await runPngExport(basename(result.filepath), result.svgMarkup, png) };
+}
+
+/**
+ * Generate a new SVG from a text prompt in the given mode
+ */
+export async function runGeneration(
+  prompt: string,
+  mode: GenerationMode,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> {
+  const parsed = mode === 'semantic'
+    ? await generateSemanticSvg(prompt)
+    : await generateSvg(prompt);
+
+  return withPngExports(await withLintFixes(renderAndSave(parsed, prompt, mode, options), options), options);
+}
+
+/**
+ * Refine a previously saved SVG (uses the same mode it was generated with)
+ */
+export async function runRefinement(
+  previous: SvgMetadata,
+  feedback: string,
+  options: GenerationOptions = {}
+): Promise<GenerationResult> {
+  const parsed = await refineSpec(previous.spec, previous.mode, feedback);
+  const result = renderAndSave(parsed, `refine: ${feedback}`, previous.mode, options, previous.filename);
+  return withPngExports(await withLintFixes(result, options), options);
+}
+
+/**
+ * Convert a saved semantic SVG into an equivalent coordinate spec and save it,
+ * so it can be refined in coordinate mode
+ */
+export async function runConversion(previous: SvgMetadata, options: GenerationOptions = {}): Promise<GenerationResult> {
+  const { fit, optimize } = options;
+  if (previous.mode !== 'semantic') {
+    throw new Error(`${previous.filename} is already in coordinate mode`);
+  }
+
+  const spec = compileSemanticSvgSpec(previous.spec as SemanticSvgSpec);
+  const prompt = `convert: ${previous.filename}`;
+  const { svgMarkup, optimized } = optimizeMarkup(generateSvgMarkup(spec, fit), optimize);
+  const filepath = saveSvg(svgMarkup, spec, prompt, 'coordinate', {
+    ...(fit ? { fit } : {}),
+    ...(optimize ? { optimize } : {}),
+    source: previous.filename,
+  });
+
+  return withPngExports({
+    id: basename(filepath, '.svg'),
+    filepath,
+    mode: 'coordinate',
+    prompt,
+    svgMarkup,
+    spec,
+    repairs: [],
+    sanitized: [],
+    lint: lintSvgSpec(spec, fit),
+    ...(optimized ? { optimized } : {}),
+  }, options);
+}
+
+/**
+ * Import an existing SVG file as a coordinate spec and save it, so it can be refined
+ */
+export async function runImport(file: string, options: GenerationOptions = {}): Promise<GenerationResult> {
+  const { fit, optimize } = options;
+  if (!existsSync(file)) {
+    throw new Error(`File not found: ${file}`);
+  }
+
+  const { spec: imported, warnings } = importSvg(readFileSync(file, 'utf-8'), importName(file));
+  if (warnings.length > 0) {
+    progress(`\nImport flattened or dropped ${warnings.length} item(s):`);
+    progress(formatImportWarnings(warnings));
+  }
+
+  const { spec, changes: sanitized } = sanitizeSvgSpec(imported);
+  if (sanitized.length > 0) {
+    progress(`\nSanitized ${sanitized.length} value(s):`);
+    progress(formatChanges(sanitized));
+  }
+  assertValidSvgSpec(spec);
+
+  const prompt = `import: ${file}`;
+  const { svgMarkup, optimized } = optimizeMarkup(generateSvgMarkup(spec, fit), optimize);
+  const filepath = saveSvg(svgMarkup, spec, prompt, 'coordinate', {
+    ...(sanitized.length > 0 ? { sanitized } : {}),
+    ...(warnings.length > 0 ? { importWarnings: warnings } : {}),
+    ...(fit ? { fit } : {}),
+    ...(optimize ? { optimize } : {}),
+  });
+
+  return withPngExports({
+    id: basename(filepath, '.svg'),
+    filepath,
+    mode: 'coordinate',
+    prompt,
+    svgMarkup,
+    spec,
+    repairs: [],
+    sanitized,
+    lint: lintSvgSpec(spec, fit),
+    ...(optimized ? { optimized } : {}),
+  }, options);
+}
+
+/**
+ * Coordinate spec of a saved SVG (semantic specs are compiled first)
+ */
+export function savedCoordinateSpec(previous: SvgMetadata): SvgSpec {
+  return previous.mode === 'semantic'
+    ? compileSemanticSvgSpec(previous.spec as SemanticSvgSpec)
+    : previous.spec as SvgSpec;
+}
+
+/**
+ * Lint findings of a saved SVG, against the canvas it was rendered with
+ */
+export function savedLint(previous: SvgMetadata): LintFinding[] {
+  return previous.mode === 'semantic'
+    ? lintSemanticSvgSpec(previous.spec as SemanticSvgSpec, previous.fit)
+    : lintSvgSpec(previous.spec as SvgSpec, previous.fit);
+}
+
+/**
+ * Export a saved SVG's geometry as a draw.io library, DXF file or React/Vue
+ * component next to it. Returns the written path.
+ */
+export function runExport(previous: SvgMetadata, format: ExportFormat): string {
+  const spec = savedCoordinateSpec(previous);
+  const base = basename(previous.filename, '.svg');
+
+  if (format === 'drawio') {
+    return saveOutputFile(`${base}.drawio.xml`, drawioLibrary([drawioLibraryEntry(spec)]));
+  }
+  if (format === 'react' || format === 'vue') {
+    const { filename, content } = exportComponent(spec, format, previous.fit);
+    return saveOutputFile(`${base}${extname(filename)}`, content);
+  }
+
+  const { dxf, skipped } = exportDxf(spec);
+  if (skipped.length > 0) {
+    progress(`\nSkipped ${skipped.length} layer(s) that can't be exported: ${skipped.join(', ')}`);
+  }
+  return saveOutputFile(`${base}.dxf`, dxf);
+}
@@ -0,0 +1,227 @@
+/**
+ * LLM Provider Registry
+ *
+ * Single provider interface used by both the coordinate and semantic
+ * generation paths. Ships with Anthropic, OpenAI, a generic
+ * OpenAI-compatible provider for self-hosted model servers and an
+ * offline replay provider (see fixtures.ts).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { createReplayProvider, isRecording, recordFixture } from './fixtures.js';
+
+const DEFAULT_PROVIDER = 'anthropic';
+
+const ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
+const OPENAI_MODEL = 'gpt-4o';
+
+// A text completion backend
+export interface LLMProvider {
+  name: string;
+  description: string;
+  aliases?: string[]; // short names accepted by the CLI (e.g. "a")
+  requiredEnv: string[]; // environment variables that must be set
+  model(): string;
+  complete(prompt: string, systemPrompt?: string): Promise<string>;
+}
+
+// Options for an OpenAI-compatible chat completions endpoint
+export interface OpenAICompatibleOptions {
+  name: string;
+  description: string;
+  aliases?: string[];
+  baseURLEnv: string; // env var holding the base URL (e.g. http://localhost:11434/v1)
+  modelEnv: string; // env var holding the model name
+  apiKeyEnv?: string; // env var holding an API key, if the server needs one
+  defaultModel?: string;
+}
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register a provider (replaces any provider with the same name)
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * All registered providers in registration order
+ */
+export function listProviders(): LLMProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Find a provider by name or alias
+ */
+export function findProvider(nameOrAlias: string): LLMProvider | null {
+  const key = nameOrAlias.trim().toLowerCase();
+  for (const provider of providers.values()) {
+    if (provider.name === key || provider.aliases?.includes(key)) {
+      return provider;
+    }
+  }
+  return null;
+}
+
+/**
+ * Name of the currently selected provider (aliases resolved, unknown names as given)
+ */
+export function getCurrentProviderName(): string {
+  const name = process.env.LLM_PROVIDER || DEFAULT_PROVIDER;
+  return findProvider(name)?.name ?? name;
+}
+
+/**
+ * Currently selected provider (throws if it is not registered)
+ */
+export function getCurrentProvider(): LLMProvider {
+  const name = getCurrentProviderName();
+  const provider = findProvider(name);
+  if (!provider) {
+    const known = listProviders().map(p => p.name).join(', ');
+    throw new Error(`Unknown LLM provider "${name}" (available: ${known})`);
+  }
+  return provider;
+}
+
+/**
+ * Select a provider by name or alias. Returns the provider, or null if unknown.
+ */
+export function setCurrentProvider(nameOrAlias: string): LLMProvider | null {
+  const provider = findProvider(nameOrAlias);
+  if (provider) {
+    process.env.LLM_PROVIDER = provider.name;
+  }
+  return provider;
+}
+
+/**
+ * Environment variables the provider needs that are not set
+ */
+export function missingEnv(provider: LLMProvider): string[] {
+  return provider.requiredEnv.filter(key => !process.env[key]);
+}
+
+/**
+ * Call the current provider with a prompt and return the text response.
+ * In recording mode the request/response pair is saved as a fixture.
+ */
+export async function callLLM(prompt: string, systemPrompt?: string): Promise<string> {
+  const provider = getCurrentProvider();
+  const response = await provider.complete(prompt, systemPrompt);
+
+  if (isRecording() && provider.name !== 'replay') {
+    recordFixture(provider, prompt, systemPrompt, response);
+  }
+  return response;
+}
+
+/**
+ * Run a chat completion against an OpenAI API client
+ */
+async function openAIChat(client: OpenAI, model: string, prompt: string, systemPrompt?: string): Promise<string> {
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+  if (systemPrompt) {
+    messages.push({ role: 'system', content: systemPrompt });
+  }
+  messages.push({ role: 'user', content: prompt });
+
+  const response = await client.chat.completions.create({
+    model,
+    messages,
+  });
+
+  return response.choices[0]?.message?.content || '';
+}
+
+/**
+ * Create a provider for any server exposing the OpenAI chat completions API
+ * (Ollama, vLLM, llama.cpp server, LM Studio, ...)
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  // One client per base URL and key, so changing the settings takes effect
+  const clients = new Map<string, OpenAI>();
+
+  const model = () => process.env[options.modelEnv] || options.defaultModel || '';
+
+  return {
+    name: options.name,
+    description: options.description,
+    aliases: options.aliases,
+    requiredEnv: options.defaultModel ? [options.baseURLEnv] : [options.baseURLEnv, options.modelEnv],
+    model,
+    complete(prompt, systemPrompt) {
+      const baseURL = process.env[options.baseURLEnv];
+      // Most self-hosted servers ignore the key, but the SDK requires one
+      const apiKey = (options.apiKeyEnv && process.env[options.apiKeyEnv]) || 'not-needed';
+      const key = `${baseURL} ${apiKey}`;
+      let client = clients.get(key);
+      if (!client) {
+        client = new OpenAI({ baseURL, apiKey });
+        clients.set(key, client);
+      }
+      return openAIChat(client, model(), prompt, systemPrompt);
+    },
+  };
+}
+
+let anthropicClient: Anthropic | null = null;
+let openaiClient: OpenAI | null = null;
+
+registerProvider({
+  name: 'anthropic',
+  description: 'Anthropic Claude',
+  aliases: ['a', 'claude'],
+  requiredEnv: ['ANTHROPIC_API_KEY'],
+  model: () => ANTHROPIC_MODEL,
+  async complete(prompt, systemPrompt) {
+    if (!anthropicClient) {
+      anthropicClient = new Anthropic({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+      });
+    }
+
+    const response = await anthropicClient.messages.create({
+      model: ANTHROPIC_MODEL,
+      max_tokens: 4096,
+      system: systemPrompt || '',
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const content = response.content[0];
+    if (content.type !== 'text') {
+      throw new Error('Unexpected response type');
+    }
+    return content.text;
+  },
+});
+
+registerProvider({
+  name: 'openai',
+  description: 'OpenAI GPT',
+  aliases: ['o', 'gpt'],
+  requiredEnv: ['OPENAI_API_KEY'],
+  model: () => OPENAI_MODEL,
+  complete(prompt, systemPrompt) {
+    if (!openaiClient) {
+      openaiClient = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    }
+    return openAIChat(openaiClient, OPENAI_MODEL, prompt, systemPrompt);
+  },
+});
+
+registerProvider(createOpenAICompatibleProvider({
+  name: 'local',
+  description: 'OpenAI-compatible endpoint (Ollama, vLLM, llama.cpp)',
+  aliases: ['l'],
+  baseURLEnv: 'LOCAL_LLM_BASE_URL',
+  modelEnv: 'LOCAL_LLM_MODEL',
+  apiKeyEnv: 'LOCAL_LLM_API_KEY',
+}));
+
+registerProvider(createReplayProvider());
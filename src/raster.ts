@@ -0,0 +1,135 @@
+/**
+ * PNG Rasterization
+ *
+ * Renders generated SVG markup to PNG with the bundled resvg WebAssembly
+ * build (no network, no system libraries). Sizes are either a scale of the
+ * SVG's own size (1x, 2x, 3x) or a pixel width (16, 32, 256 for icons).
+ * Fonts for text layers are loaded from the files listed in AISVG_FONTS.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, join, basename, delimiter } from 'path';
+import { initWasm, Resvg } from '@resvg/resvg-wasm';
+import { progress } from './log.js';
+
+export const FONTS_ENV = 'AISVG_FONTS';
+
+// One output size: a multiple of the SVG size, or a width in pixels (height keeps the aspect ratio)
+export type PngSize = { scale: number } | { width: number };
+
+// A rendered PNG file
+export interface PngExport {
+  size: string; // e.g. "2x" or "256"
+  filename: string; // saved next to the SVG
+  width: number;
+  height: number;
+}
+
+// A PNG image in memory
+export interface RenderedPng {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+let wasmReady: Promise<void> | null = null;
+
+/**
+ * Load the resvg WebAssembly module once
+ */
+function loadRenderer(): Promise<void> {
+  if (!wasmReady) {
+    const require = createRequire(import.meta.url);
+    wasmReady = initWasm(readFileSync(require.resolve('@resvg/resvg-wasm/index_bg.wasm')));
+  }
+  return wasmReady;
+}
+
+/**
+ * Font files listed in AISVG_FONTS (separated like PATH entries)
+ */
+function loadFonts(): Uint8Array[] {
+  const files = (process.env[FONTS_ENV] ?? '').split(delimiter).filter(Boolean);
+  return files.map(file => readFileSync(file));
+}
+
+/**
+ * Parse a list of sizes, e.g. "1x,2x,3x" or "16 32 64 256" (null if any is invalid)
+ */
+export function parsePngSizes(value: string): PngSize[] | null {
+  const parts = value.trim().split(/[\s,]+/).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const sizes: PngSize[] = [];
+  for (const part of parts) {
+    const match = /^(\d+(?:\.\d+)?)(x?)$/i.exec(part);
+    if (!match) return null;
+    const number = parseFloat(match[1]);
+    if (match[2]) {
+      if (number <= 0) return null;
+      sizes.push({ scale: number });
+    } else {
+      if (!Number.isInteger(number) || number <= 0) return null;
+      sizes.push({ width: number });
+    }
+  }
+  return sizes;
+}
+
+/**
+ * Display form of a size: "2x" or "256"
+ */
+export function formatPngSize(size: PngSize): string {
+  return 'scale' in size ? `${size.scale}x` : String(size.width);
+}
+
+/**
+ * PNG filename for an SVG file and size: "name.png" (1x), "name@2x.png" or "name_256px.png"
+ */
+export function pngFilename(svgFilename: string, size: PngSize): string {
+  const base = basename(svgFilename, '.svg');
+  if ('width' in size) return `${base}_${size.width}px.png`;
+  return size.scale === 1 ? `${base}.png` : `${base}@${size.scale}x.png`;
+}
+
+/**
+ * Render SVG markup to a PNG at the given size
+ */
+export async function renderPng(svgMarkup: string, size: PngSize): Promise<RenderedPng> {
+  await loadRenderer();
+
+  const resvg = new Resvg(svgMarkup, {
+    fitTo: 'scale' in size ? { mode: 'zoom', value: size.scale } : { mode: 'width', value: size.width },
+    font: { fontBuffers: loadFonts() },
+  });
+
+  try {
+    const image = resvg.render();
+    try {
+      return { data: image.asPng(), width: image.width, height: image.height };
+    } finally {
+      image.free();
+    }
+  } finally {
+    resvg.free();
+  }
+}
+
+/**
+ * Render an SVG file's markup at each size and write the PNGs next to it
+ */
+export async function exportPngs(svgPath: string, svgMarkup: string, sizes: PngSize[]): Promise<PngExport[]> {
+  if (/<text[\s>]/.test(svgMarkup) && !process.env[FONTS_ENV]) {
+    progress(`Warning: text is not rendered in PNGs without fonts (set ${FONTS_ENV} to .ttf/.otf files)`);
+  }
+
+  const exports: PngExport[] = [];
+  for (const size of sizes) {
+    const png = await renderPng(svgMarkup, size);
+    const filename = pngFilename(svgPath, size);
+    writeFileSync(join(dirname(svgPath), filename), png.data);
+    exports.push({ size: formatPngSize(size), filename, width: png.width, height: png.height });
+  }
+  return exports;
+}
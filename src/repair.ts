@@ -0,0 +1,103 @@
+/**
+ * Spec Repair Loop
+ *
+ * Parses and validates LLM JSON output. On failure, sends the error and the
+ * bad output back to the same provider and asks for a corrected spec.
+ */
+
+import { SpecValidationError } from './validate.js';
+import { progress } from './log.js';
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+// One repair round-trip to the LLM
+export interface RepairAttempt {
+  attempt: number; // 1-based
+  provider: string;
+  error: string; // parse/validation error that triggered this attempt
+  succeeded: boolean;
+}
+
+// Parsed spec plus the repairs it took to get there
+export interface ParsedSpec<T> {
+  spec: T;
+  repairs: RepairAttempt[];
+}
+
+/**
+ * Maximum repair attempts (AISVG_MAX_REPAIRS, default 2; 0 disables repair)
+ */
+export function getMaxRepairAttempts(): number {
+  const raw = process.env.AISVG_MAX_REPAIRS;
+  const value = raw ? Number(raw) : NaN;
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_MAX_REPAIRS;
+}
+
+/**
+ * Strip markdown code fences and surrounding whitespace
+ */
+export function extractJson(text: string): string {
+  let json = text.trim();
+  if (json.startsWith('```')) {
+    json = json.replace(/^```(json)?\n?/, '').replace(/\n?```$/, '');
+  }
+  return json.trim();
+}
+
+function buildRepairPrompt(error: string, badOutput: string): string {
+  return `Your previous response could not be used.
+
+Error:
+${error}
+
+Previous response:
+${badOutput}
+
+Fix every problem listed above and respond with the complete corrected JSON specification.
+Respond with ONLY the JSON - no markdown, no explanation.`;
+}
+
+/**
+ * Parse an LLM response into a valid spec, asking the LLM to repair it if needed
+ */
+export async function parseWithRepair<T>(
+  text: string,
+  validate: (value: unknown) => asserts value is T,
+  callLLM: (prompt: string, systemPrompt?: string) => Promise<string>,
+  systemPrompt: string,
+  provider: string
+): Promise<ParsedSpec<T>> {
+  const maxAttempts = getMaxRepairAttempts();
+  const repairs: RepairAttempt[] = [];
+  let output = text;
+
+  for (let attempt = 0; ; attempt++) {
+    let problem: string;
+    try {
+      const value: unknown = JSON.parse(extractJson(output));
+      validate(value);
+      if (repairs.length > 0) {
+        repairs[repairs.length - 1].succeeded = true;
+      }
+      return { spec: value, repairs };
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        problem = `JSON parse error: ${error.message}`;
+      } else if (error instanceof SpecValidationError) {
+        problem = error.message;
+      } else {
+        throw error;
+      }
+    }
+
+    if (attempt >= maxAttempts) {
+      const tries = repairs.length > 0 ? ` (after ${repairs.length} repair attempt(s))` : '';
+      throw new Error(`${problem}${tries}`);
+    }
+
+    progress(`\nSpec invalid, requesting repair (${attempt + 1}/${maxAttempts})...`);
+    progress(problem);
+    repairs.push({ attempt: attempt + 1, provider, error: problem, succeeded: false });
+    output = await callLLM(buildRepairPrompt(problem, output), systemPrompt);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Semantic Spec Sanitizing
+ *
+ * Applies the same value checks as sanitize.ts to SemanticSvgSpec layers,
+ * layout groups and components
+ */
+
+import type { SemanticSvgSpec, SemanticLayer, LayoutGroup, Position, ComponentInstance } from './schema-semantic.js';
+import { SHAPE_FIELDS, STYLE_FIELDS } from './validate-semantic.js';
+import { joinPath, opt } from './validate.js';
+import {
+  sanitizeFields,
+  sanitizeId,
+  sanitizeIdField,
+  sanitizeSpecName,
+  type SanitizeChange,
+  type SanitizeResult,
+} from './sanitize.js';
+
+const POSITION_FIELDS = { x: opt('number'), y: opt('number'), offset: opt('number'), ratio: opt('number') };
+const AXIS_FIELDS = { value: opt('number'), offset: opt('number'), ratio: opt('number') };
+const GROUP_FIELDS = { spacing: opt('number'), columns: opt('number') };
+
+/**
+ * Sanitize every id in a list in place
+ */
+function sanitizeIdList(ids: string[] | undefined, path: string, changes: SanitizeChange[]): void {
+  ids?.forEach((id, i) => {
+    const safe = sanitizeId(id);
+    if (safe !== id) {
+      ids[i] = safe;
+      changes.push({ path: joinPath(path, i), action: 'replaced', reason: `unsafe characters in id "${id}"` });
+    }
+  });
+}
+
+/**
+ * Sanitize a position's numbers and references in place
+ */
+function sanitizePosition(position: Position, path: string, changes: SanitizeChange[]): void {
+  sanitizeIdField(position as unknown as Record<string, unknown>, 'relativeTo', path, changes);
+  sanitizeIdList(position.between, joinPath(path, 'between'), changes);
+  sanitizeFields(position as unknown as Record<string, unknown>, POSITION_FIELDS, path, changes);
+
+  for (const axis of ['horizontal', 'vertical'] as const) {
+    const constraint = position[axis];
+    if (!constraint) continue;
+    const axisPath = joinPath(path, axis);
+    sanitizeIdField(constraint as unknown as Record<string, unknown>, 'relativeTo', axisPath, changes);
+    sanitizeIdList(constraint.between, joinPath(axisPath, 'between'), changes);
+    sanitizeFields(constraint as unknown as Record<string, unknown>, AXIS_FIELDS, axisPath, changes);
+  }
+}
+
+/**
+ * Sanitize a component instance's overrides in place (keys are component layer ids)
+ */
+function sanitizeOverrides(shape: ComponentInstance, path: string, changes: SanitizeChange[]): void {
+  if (!shape.overrides) return;
+  const overridesPath = joinPath(path, 'overrides');
+  shape.overrides = Object.fromEntries(Object.entries(shape.overrides).map(([id, style]) => {
+    const safe = sanitizeId(id);
+    if (safe !== id) {
+      changes.push({ path: joinPath(overridesPath, id), action: 'replaced', reason: `unsafe characters in id "${id}"` });
+    }
+    sanitizeFields(style as unknown as Record<string, unknown>, STYLE_FIELDS, joinPath(overridesPath, safe), changes);
+    return [safe, style];
+  }));
+}
+
+/**
+ * Ids that other layers or groups of a container refer to (positions,
+ * connector endpoints and group members)
+ */
+function referencedIds(container: { layers: SemanticLayer[], groups?: LayoutGroup[] }): Set<string> {
+  const ids = new Set<string>();
+  const addPosition = (position: Position | undefined) => {
+    if (!position) return;
+    for (const constraint of [position, position.horizontal, position.vertical]) {
+      if (constraint?.relativeTo !== undefined) ids.add(constraint.relativeTo);
+      constraint?.between?.forEach(id => ids.add(id));
+    }
+  };
+
+  for (const layer of container.layers) {
+    addPosition(layer.position);
+    if (layer.shape.shapeType === 'connector') {
+      ids.add(layer.shape.from);
+      ids.add(layer.shape.to);
+    }
+  }
+  for (const group of container.groups ?? []) {
+    addPosition(group.position);
+    group.layers.forEach(id => ids.add(id));
+  }
+  return ids;
+}
+
+/**
+ * Sanitize the layers and groups of a spec or component in place. Layers
+ * other layers refer to are repaired rather than dropped, so the layout
+ * still resolves.
+ */
+function sanitizeLayout(
+  container: { layers: SemanticLayer[], groups?: LayoutGroup[] },
+  prefix: string,
+  changes: SanitizeChange[]
+): void {
+  // Ids are sanitized below, so compare sanitized forms
+  const referenced = new Set([...referencedIds(container)].map(sanitizeId));
+
+  container.layers = container.layers.filter((layer, i) => {
+    const path = joinPath(joinPath(prefix, 'layers'), i);
+
+    // References and connector endpoints get the same id mapping so references stay intact
+    sanitizeIdField(layer as unknown as Record<string, unknown>, 'id', path, changes);
+    const shapePath = joinPath(path, 'shape');
+    if (layer.shape.shapeType === 'connector') {
+      sanitizeIdField(layer.shape as unknown as Record<string, unknown>, 'from', shapePath, changes);
+      sanitizeIdField(layer.shape as unknown as Record<string, unknown>, 'to', shapePath, changes);
+    }
+    if (layer.shape.shapeType === 'component') {
+      sanitizeIdField(layer.shape as unknown as Record<string, unknown>, 'component', shapePath, changes);
+      sanitizeOverrides(layer.shape, shapePath, changes);
+    }
+    if (layer.position) {
+      sanitizePosition(layer.position, joinPath(path, 'position'), changes);
+    }
+
+    const shapeOk = sanitizeFields(
+      layer.shape as unknown as Record<string, unknown>,
+      SHAPE_FIELDS[layer.shape.shapeType],
+      shapePath,
+      changes,
+      referenced.has(layer.id)
+    );
+    sanitizeFields(layer.style as unknown as Record<string, unknown>, STYLE_FIELDS, joinPath(path, 'style'), changes);
+
+    return shapeOk;
+  });
+
+  container.groups?.forEach((group, g) => {
+    const path = joinPath(joinPath(prefix, 'groups'), g);
+    sanitizeIdField(group as unknown as Record<string, unknown>, 'id', path, changes);
+    sanitizeIdList(group.layers, joinPath(path, 'layers'), changes);
+    sanitizeFields(group as unknown as Record<string, unknown>, GROUP_FIELDS, path, changes);
+    sanitizePosition(group.position, joinPath(path, 'position'), changes);
+  });
+}
+
+/**
+ * Sanitize a semantic spec. Returns a sanitized copy and the list of changes.
+ */
+export function sanitizeSemanticSvgSpec(input: SemanticSvgSpec): SanitizeResult<SemanticSvgSpec> {
+  const spec = structuredClone(input);
+  const changes: SanitizeChange[] = [];
+
+  sanitizeSpecName(spec, changes);
+
+  spec.components?.forEach((component, c) => {
+    const path = joinPath('components', c);
+    sanitizeIdField(component as unknown as Record<string, unknown>, 'id', path, changes);
+    sanitizeLayout(component, path, changes);
+  });
+  sanitizeLayout(spec, '', changes);
+
+  return { spec, changes };
+}
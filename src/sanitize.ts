@@ -0,0 +1,281 @@
+/**
+ * SVG Escaping and Sanitizing
+ *
+ * XML escaping used by both generators, plus a sanitizing pass that removes
+ * event handlers, script URLs and malformed values from LLM-supplied specs
+ * and reports every change it made.
+ */
+
+import type { SvgSpec, SvgLayer, SvgDef } from './schema.js';
+import { BASE_PROPS, SHAPE_PROPS, DEF_FIELDS, STOP_FIELDS, joinPath, type FieldRule, type FieldRules } from './validate.js';
+
+// A single change made while sanitizing
+export interface SanitizeChange {
+  path: string; // e.g. "layers[2].props.fill"
+  action: 'replaced' | 'removed' | 'dropped_layer';
+  reason: string;
+}
+
+// Sanitized spec plus the changes that were made
+export interface SanitizeResult<T> {
+  spec: T;
+  changes: SanitizeChange[];
+}
+
+/**
+ * Escape a value for use inside a double-quoted XML attribute
+ */
+export function escapeAttr(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Escape a value for use as XML text content
+ */
+export function escapeText(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Make a value safe inside an XML comment ("--" is not allowed, nor a trailing "-")
+ */
+export function escapeComment(value: unknown): string {
+  return String(value).replace(/-(?=-)/g, '- ').replace(/-$/, '- ');
+}
+
+/**
+ * Build an escaped name="value" attribute
+ */
+export function attr(name: string, value: unknown): string {
+  return `${name}="${escapeAttr(value)}"`;
+}
+
+const SCRIPT_URL = /(java|vb)script\s*:|data\s*:\s*text\/html/i;
+// Fields whose value can be a URL (text content and names are escaped, not followed)
+const URL_FIELDS = new Set(['fill', 'stroke', 'color', 'clipPath', 'markerStart', 'markerMid', 'markerEnd']);
+const EVENT_HANDLER_KEY = /^on|href$/i;
+const NUMERIC_STRING = /^\s*[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?\s*$/i;
+
+const PAINT = /^(none|currentColor|transparent|inherit|[a-zA-Z]+|#[0-9a-fA-F]{3,8}|(rgb|rgba|hsl|hsla)\([\d\s.,%+-]*\)|url\(#[\w.:-]+\))$/;
+const TRANSFORM = /^(\s*(matrix|translate|scale|rotate|skewX|skewY)\s*\([\d\s.,eE+-]*\)\s*,?)*\s*$/;
+const PATH_DATA = /^[MmLlHhVvCcSsQqTtAaZz\d\s.,eE+-]*$/;
+const POINTS = /^[\d\s.,eE+-]*$/;
+const REFERENCE = /^url\(#[\w.:-]+\)$/;
+
+// Format checks for string fields that end up inside attribute values
+const STRING_CHECKS: Record<string, { pattern: RegExp; reason: string }> = {
+  fill: { pattern: PAINT, reason: 'not a color, "none" or local url(#id)' },
+  stroke: { pattern: PAINT, reason: 'not a color, "none" or local url(#id)' },
+  color: { pattern: PAINT, reason: 'not a color' },
+  transform: { pattern: TRANSFORM, reason: 'not a list of transform functions' },
+  patternTransform: { pattern: TRANSFORM, reason: 'not a list of transform functions' },
+  clipPath: { pattern: REFERENCE, reason: 'not a local url(#id)' },
+  markerStart: { pattern: REFERENCE, reason: 'not a local url(#id)' },
+  markerMid: { pattern: REFERENCE, reason: 'not a local url(#id)' },
+  markerEnd: { pattern: REFERENCE, reason: 'not a local url(#id)' },
+  d: { pattern: PATH_DATA, reason: 'contains characters not allowed in path data' },
+  points: { pattern: POINTS, reason: 'contains characters not allowed in a point list' },
+};
+
+/**
+ * Replace characters that are not safe in an element id
+ */
+export function sanitizeId(id: string): string {
+  const safe = id.replace(/[^\w.:-]/g, '_');
+  return safe || '_';
+}
+
+/**
+ * Replace characters that are not safe in a filename
+ */
+export function sanitizeName(name: string): string {
+  const safe = name.replace(/[^\w-]/g, '_');
+  return safe || 'untitled';
+}
+
+/**
+ * Sanitize an id field in place, recording a change if it was altered
+ */
+export function sanitizeIdField(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  changes: SanitizeChange[]
+): void {
+  const value = obj[key];
+  if (typeof value !== 'string') return;
+  const safe = sanitizeId(value);
+  if (safe !== value) {
+    obj[key] = safe;
+    changes.push({ path: joinPath(path, key), action: 'replaced', reason: `unsafe characters in id "${value}"` });
+  }
+}
+
+/**
+ * Remove event handler and href keys from an object
+ */
+function stripEventHandlers(obj: Record<string, unknown>, path: string, changes: SanitizeChange[]): void {
+  for (const key of Object.keys(obj)) {
+    if (EVENT_HANDLER_KEY.test(key)) {
+      delete obj[key];
+      changes.push({ path: joinPath(path, key), action: 'removed', reason: 'event handler or link attribute' });
+    }
+  }
+}
+
+/**
+ * Check one value against its rule, returning the safe value or a rejection reason
+ */
+function sanitizeValue(key: string, value: unknown, rule: FieldRule): { value: unknown } | { reason: string } {
+  const { type } = rule;
+
+  if (type === 'number' || type === 'positive') {
+    if (typeof value === 'number' && Number.isFinite(value)) return { value };
+    if (typeof value === 'string' && NUMERIC_STRING.test(value)) return { value: Number(value) };
+    return { reason: 'non-numeric value in numeric field' };
+  }
+
+  if (typeof value !== 'string') {
+    return { reason: `expected string, got ${typeof value}` };
+  }
+  if (URL_FIELDS.has(key) && SCRIPT_URL.test(value)) {
+    return { reason: 'script URL' };
+  }
+  if (typeof type !== 'string' && !type.includes(value)) {
+    return { reason: `unknown value "${value}"` };
+  }
+  const check = STRING_CHECKS[key];
+  if (check && !check.pattern.test(value.trim())) {
+    return { reason: check.reason };
+  }
+  return { value };
+}
+
+/**
+ * Safe stand-in for a required value that could not be made safe
+ */
+function emptyValue({ type }: FieldRule): unknown {
+  if (type === 'number') return 0;
+  if (type === 'positive') return 1;
+  return typeof type === 'string' ? '' : type[0];
+}
+
+/**
+ * Sanitize the fields of an object in place according to a rule table.
+ * Returns false if a required field could not be made safe; with repair,
+ * such fields are replaced by an empty value instead.
+ */
+export function sanitizeFields(
+  obj: Record<string, unknown>,
+  rules: FieldRules,
+  path: string,
+  changes: SanitizeChange[],
+  repair = false
+): boolean {
+  stripEventHandlers(obj, path, changes);
+
+  let ok = true;
+  for (const [key, rule] of Object.entries(rules)) {
+    const value = obj[key];
+    if (value === undefined) continue;
+
+    const result = sanitizeValue(key, value, rule);
+    const fieldPath = joinPath(path, key);
+    if ('value' in result) {
+      if (result.value !== value) {
+        obj[key] = result.value;
+        changes.push({ path: fieldPath, action: 'replaced', reason: 'numeric string converted to number' });
+      }
+    } else if (rule.optional) {
+      delete obj[key];
+      changes.push({ path: fieldPath, action: 'removed', reason: result.reason });
+    } else if (repair) {
+      obj[key] = emptyValue(rule);
+      changes.push({ path: fieldPath, action: 'replaced', reason: `${result.reason}; kept because other layers reference it` });
+    } else {
+      changes.push({ path: fieldPath, action: 'dropped_layer', reason: result.reason });
+      ok = false;
+    }
+  }
+  return ok;
+}
+
+/**
+ * Sanitize the spec name in place (it is used as the output filename)
+ */
+export function sanitizeSpecName(spec: { name: string }, changes: SanitizeChange[]): void {
+  const safe = sanitizeName(spec.name);
+  if (safe !== spec.name) {
+    changes.push({ path: 'name', action: 'replaced', reason: `unsafe characters in name "${spec.name}"` });
+    spec.name = safe;
+  }
+}
+
+/**
+ * Format changes one per line
+ */
+export function formatChanges(changes: SanitizeChange[]): string {
+  return changes.map(change => `${change.path}: ${change.action.replace('_', ' ')} (${change.reason})`).join('\n');
+}
+
+/**
+ * Sanitize coordinate layers and group children, dropping any whose required fields are unsafe
+ */
+function sanitizeLayers(layers: SvgLayer[], path: string, changes: SanitizeChange[]): SvgLayer[] {
+  return layers.filter((layer, i) => {
+    const layerPath = joinPath(path, i);
+    const props = layer.props as unknown as Record<string, unknown>;
+    const rules = { ...BASE_PROPS, ...SHAPE_PROPS[layer.type as SvgLayer['type']] };
+
+    sanitizeIdField(layer as unknown as Record<string, unknown>, 'id', layerPath, changes);
+    if (Array.isArray(layer.children)) {
+      layer.children = sanitizeLayers(layer.children, joinPath(layerPath, 'children'), changes);
+    }
+    return sanitizeFields(props, rules, joinPath(layerPath, 'props'), changes);
+  });
+}
+
+/**
+ * Sanitize a def in place: its id, fields, gradient stops and content layers.
+ * Returns false if a required field could not be made safe.
+ */
+function sanitizeDef(def: SvgDef, path: string, changes: SanitizeChange[]): boolean {
+  const fields = def as unknown as Record<string, unknown>;
+  sanitizeIdField(fields, 'id', path, changes);
+  if (!sanitizeFields(fields, DEF_FIELDS[def.type] ?? {}, path, changes)) return false;
+
+  if ('stops' in def && Array.isArray(def.stops)) {
+    def.stops = def.stops.filter((stop, i) =>
+      sanitizeFields(stop as unknown as Record<string, unknown>, STOP_FIELDS, joinPath(joinPath(path, 'stops'), i), changes)
+    );
+  }
+  if ('layers' in def && Array.isArray(def.layers)) {
+    def.layers = sanitizeLayers(def.layers, joinPath(path, 'layers'), changes);
+  }
+  return true;
+}
+
+/**
+ * Sanitize a coordinate spec. Returns a sanitized copy and the list of changes.
+ */
+export function sanitizeSvgSpec(input: SvgSpec): SanitizeResult<SvgSpec> {
+  const spec = structuredClone(input);
+  const changes: SanitizeChange[] = [];
+
+  sanitizeSpecName(spec, changes);
+
+  if (spec.defs) {
+    spec.defs = spec.defs.filter((def, i) => sanitizeDef(def, joinPath('defs', i), changes));
+  }
+  spec.layers = sanitizeLayers(spec.layers, 'layers', changes);
+
+  return { spec, changes };
+}
@@ -14,7 +14,7 @@ export interface ShapeStyle {
 }
 
 // Position types
-export type PositionType = 'absolute' | 'relative' | 'centered';
+export type PositionType = 'absolute' | 'relative' | 'centered' | 'constrained' | 'between';
 
 // Alignment options for relative positioning
 export type Alignment =
@@ -24,6 +24,20 @@ export type Alignment =
   | 'edge_touches_top' | 'edge_touches_bottom'
   | 'center_aligned' | 'adjacent_left' | 'adjacent_right';
 
+// Edge used when aligning along one axis: left/top, center, right/bottom
+export type AxisAlign = 'start' | 'center' | 'end';
+
+// Constraint on one axis of a "constrained" position. Exactly one of
+// value, relativeTo or between must be set.
+export interface AxisConstraint {
+  value?: number; // fixed center coordinate
+  relativeTo?: string; // layer or group id to align with
+  align?: AxisAlign; // which edges line up with relativeTo (default center)
+  between?: [string, string]; // between the centers of two layers or groups
+  ratio?: number; // position along "between", 0 = first, 1 = second (default 0.5)
+  offset?: number; // added after alignment
+}
+
 // Position specification
 export interface Position {
   type: PositionType;
@@ -34,18 +48,38 @@ export interface Position {
   relativeTo?: string; // layer ID
   alignment?: Alignment;
   offset?: number; // optional spacing offset
+  // For constrained positioning (one constraint per axis)
+  horizontal?: AxisConstraint;
+  vertical?: AxisConstraint;
+  // For between positioning (centered between two layers or groups)
+  between?: [string, string];
+  ratio?: number; // 0 = first, 1 = second (default 0.5)
+}
+
+// Corner of a triangle's bounding box
+export type TriangleCorner = 'top_left' | 'top_right' | 'bottom_left' | 'bottom_right';
+
+// Optional transform of a shape about its center: scaled, then flipped, then rotated.
+// Bounds and alignment use the transformed outline.
+export interface ShapeTransform {
+  rotation?: number; // degrees clockwise (any angle)
+  flip?: 'horizontal' | 'vertical' | 'both'; // mirror left-right and/or top-bottom
+  scale?: number; // uniform scale (default 1)
 }
 
 // Triangle-specific properties
-export interface TriangleShape {
+export interface TriangleShape extends ShapeTransform {
   shapeType: 'triangle';
   triangleType: 'equilateral' | 'isosceles' | 'right';
   orientation: 'pointing_up' | 'pointing_down' | 'pointing_left' | 'pointing_right';
   size: number; // base/side length
+  height?: number; // isosceles/right: distance from base to tip (defaults to size)
+  apexAngle?: number; // isosceles: angle at the tip in degrees (alternative to height)
+  rightAngleCorner?: TriangleCorner; // right: square corner, must be on the base side
 }
 
 // Rectangle-specific properties
-export interface RectangleShape {
+export interface RectangleShape extends ShapeTransform {
   shapeType: 'rectangle';
   width: number;
   height: number;
@@ -53,31 +87,65 @@ export interface RectangleShape {
 }
 
 // Circle-specific properties
-export interface CircleShape {
+export interface CircleShape extends ShapeTransform {
   shapeType: 'circle';
   radius: number;
 }
 
 // Ellipse-specific properties
-export interface EllipseShape {
+export interface EllipseShape extends ShapeTransform {
   shapeType: 'ellipse';
   radiusX: number;
   radiusY: number;
 }
 
 // Line-specific properties
-export interface LineShape {
+export interface LineShape extends ShapeTransform {
   shapeType: 'line';
   length: number;
   angle: number; // degrees, 0 = horizontal right
 }
 
 // Diamond (rotated square)
-export interface DiamondShape {
+export interface DiamondShape extends ShapeTransform {
   shapeType: 'diamond';
   size: number; // width/height of square before rotation
 }
 
+// Text label (positioned like any other shape; bounds are estimated from the text)
+export interface TextShape extends ShapeTransform {
+  shapeType: 'text';
+  text: string; // use "\n" for multiple lines
+  fontSize?: number; // defaults to 16
+  fontFamily?: string;
+  fontWeight?: 'normal' | 'bold';
+  lineHeight?: number; // multiple of fontSize, defaults to 1.2
+}
+
+// Point on a layer's bounding box a connector attaches to
+export type Anchor =
+  | 'left' | 'right' | 'top' | 'bottom' | 'center'
+  | 'top_left' | 'top_right' | 'bottom_left' | 'bottom_right';
+
+// Connector between two layers (pipes, signal lines). Its geometry comes from
+// the endpoints, so connector layers have no position.
+export interface ConnectorShape {
+  shapeType: 'connector';
+  from: string; // "layerId.anchor", e.g. "pump.right"; "layerId" alone faces the other end
+  to: string; // "layerId.anchor"
+  routing?: 'straight' | 'orthogonal'; // defaults to straight; orthogonal = elbows
+  arrowheads?: 'none' | 'start' | 'end' | 'both'; // defaults to none
+  arrowSize?: number; // arrowhead length, defaults to 4 x strokeWidth (min 8)
+}
+
+// Instance of a component declared in SemanticSvgSpec.components. Positioned
+// like any other shape using its transformed bounding box.
+export interface ComponentInstance extends ShapeTransform {
+  shapeType: 'component';
+  component: string; // component id
+  overrides?: Record<string, ShapeStyle>; // per component layer id, applied over the instance style
+}
+
 // Union of all shape definitions
 export type ShapeDefinition =
   | TriangleShape
@@ -85,17 +153,42 @@ export type ShapeDefinition =
   | CircleShape
   | EllipseShape
   | LineShape
-  | DiamondShape;
+  | DiamondShape
+  | TextShape
+  | ConnectorShape
+  | ComponentInstance;
 
 // Semantic layer specification
 export interface SemanticLayer {
   id: string;
   shape: ShapeDefinition;
-  position: Position;
+  position?: Position; // required unless the layer is a connector or in a layout group
   style: ShapeStyle;
   description?: string;
 }
 
+// Layout group: places its member layers in a row, column or grid.
+// Members have no position of their own; the group is positioned as a whole
+// and its id can be used as a reference like a layer id.
+export interface LayoutGroup {
+  id: string;
+  layout: 'row' | 'column' | 'grid';
+  layers: string[]; // member layer ids, in order (grids fill row by row)
+  position: Position;
+  spacing?: number; // gap between neighbouring members (default 0)
+  columns?: number; // grid only
+  align?: AxisAlign; // cross-axis alignment of members (default center)
+}
+
+// Reusable symbol: semantic layers with their own local layout ("centered" = the
+// component's origin). The instance layer's style applies to every component layer.
+export interface ComponentDefinition {
+  id: string;
+  description?: string;
+  layers: SemanticLayer[]; // may not contain component instances
+  groups?: LayoutGroup[];
+}
+
 // Complete semantic SVG specification
 export interface SemanticSvgSpec {
   name: string;
@@ -105,4 +198,6 @@ export interface SemanticSvgSpec {
     height: number;
   };
   layers: SemanticLayer[];
+  groups?: LayoutGroup[];
+  components?: ComponentDefinition[];
 }
@@ -12,6 +12,14 @@ export interface BaseShapeProps {
   strokeWidth?: number;
   opacity?: number;
   transform?: string;
+  clipPath?: string; // "url(#id)" of a clipPath def
+}
+
+// Arrowheads and other markers drawn at the vertices of lines, polylines, polygons and paths
+export interface MarkerProps {
+  markerStart?: string; // "url(#id)" of a marker def
+  markerMid?: string;
+  markerEnd?: string;
 }
 
 // Rectangle
@@ -40,7 +48,7 @@ export interface EllipseProps extends BaseShapeProps {
 }
 
 // Line
-export interface LineProps extends BaseShapeProps {
+export interface LineProps extends BaseShapeProps, MarkerProps {
   x1: number;
   y1: number;
   x2: number;
@@ -48,17 +56,17 @@ export interface LineProps extends BaseShapeProps {
 }
 
 // Polyline (connected lines)
-export interface PolylineProps extends BaseShapeProps {
+export interface PolylineProps extends BaseShapeProps, MarkerProps {
   points: string; // e.g., "0,0 10,10 20,0"
 }
 
 // Polygon (closed shape)
-export interface PolygonProps extends BaseShapeProps {
+export interface PolygonProps extends BaseShapeProps, MarkerProps {
   points: string; // e.g., "0,0 10,10 20,0"
 }
 
 // Path (complex shapes with curves, arcs, etc.)
-export interface PathProps extends BaseShapeProps {
+export interface PathProps extends BaseShapeProps, MarkerProps {
   d: string; // SVG path data (e.g., "M 10,10 L 90,90 Z")
 }
 
@@ -66,13 +74,19 @@ export interface PathProps extends BaseShapeProps {
 export interface TextProps extends BaseShapeProps {
   x: number;
   y: number;
-  text: string;
+  text: string; // lines separated by "\n"
   fontSize?: number;
+  lineHeight?: number; // multiple of fontSize between lines, defaults to 1.2
   fontFamily?: string;
+  fontWeight?: 'normal' | 'bold';
   textAnchor?: 'start' | 'middle' | 'end';
   dominantBaseline?: 'auto' | 'middle' | 'hanging';
 }
 
+// Group of child layers moved and styled as a unit; fill, stroke, strokeWidth
+// and opacity are inherited by children that don't set their own
+export interface GroupProps extends BaseShapeProps {}
+
 // Union of all shape types
 export type ShapeProps =
   | RectProps
@@ -82,16 +96,81 @@ export type ShapeProps =
   | PolylineProps
   | PolygonProps
   | PathProps
-  | TextProps;
+  | TextProps
+  | GroupProps;
 
 // Individual layer/shape in the SVG
 export interface SvgLayer {
   id: string; // unique identifier for this layer
-  type: 'rect' | 'circle' | 'ellipse' | 'line' | 'polyline' | 'polygon' | 'path' | 'text';
+  type: 'rect' | 'circle' | 'ellipse' | 'line' | 'polyline' | 'polygon' | 'path' | 'text' | 'group';
   props: ShapeProps;
+  children?: SvgLayer[]; // group layers only - ordered like layers, first = bottom
   description?: string; // optional description of what this layer represents
 }
 
+// Color stop of a gradient
+export interface GradientStop {
+  offset: number; // 0 to 1 along the gradient
+  color: string;
+  opacity?: number;
+}
+
+// Linear gradient; coordinates are fractions of the filled shape's bounding box
+export interface LinearGradientDef {
+  id: string;
+  type: 'linearGradient';
+  x1?: number; // defaults to 0
+  y1?: number; // defaults to 0
+  x2?: number; // defaults to 1 (left to right)
+  y2?: number; // defaults to 0
+  stops: GradientStop[];
+}
+
+// Radial gradient; coordinates are fractions of the filled shape's bounding box
+export interface RadialGradientDef {
+  id: string;
+  type: 'radialGradient';
+  cx?: number; // defaults to 0.5
+  cy?: number; // defaults to 0.5
+  r?: number; // defaults to 0.5
+  fx?: number; // focal point, defaults to the center
+  fy?: number;
+  stops: GradientStop[];
+}
+
+// Tile repeated across the filled shape (e.g. hatching), in user units
+export interface PatternDef {
+  id: string;
+  type: 'pattern';
+  width: number; // tile size
+  height: number;
+  patternTransform?: string; // e.g. "rotate(45)" for diagonal hatching
+  layers: SvgLayer[]; // tile content, in tile coordinates
+}
+
+// Clip path: shapes referencing it are only drawn inside its layers
+export interface ClipPathDef {
+  id: string;
+  type: 'clipPath';
+  layers: SvgLayer[];
+}
+
+// Marker (e.g. arrowhead) drawn at line vertices; layers use a width x height box
+export interface MarkerDef {
+  id: string;
+  type: 'marker';
+  width: number;
+  height: number;
+  refX: number; // point in the box placed on the vertex (arrow tip)
+  refY: number;
+  orient?: 'auto' | 'auto-start-reverse'; // rotate with the line (default: not rotated)
+  units?: 'strokeWidth' | 'userSpaceOnUse'; // box scales with the stroke width (default) or not
+  layers: SvgLayer[];
+}
+
+// Reusable paint servers, clip paths and markers, referenced by id
+export type SvgDef = LinearGradientDef | RadialGradientDef | PatternDef | ClipPathDef | MarkerDef;
+
 // Complete SVG specification
 export interface SvgSpec {
   name: string; // short name/identifier (e.g., "centrifugal_pump")
@@ -102,6 +181,7 @@ export interface SvgSpec {
     minX?: number; // defaults to 0
     minY?: number; // defaults to 0
   };
+  defs?: SvgDef[]; // gradients, patterns, clip paths and markers
   layers: SvgLayer[]; // ordered array - first = bottom, last = top
 }
 
@@ -8,6 +8,12 @@ import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import type { SvgSpec } from './schema.js';
 import type { SemanticSvgSpec } from './schema-semantic.js';
+import type { RepairAttempt } from './repair.js';
+import type { SanitizeChange } from './sanitize.js';
+import type { FitOptions } from './fit.js';
+import type { ImportWarning } from './importer.js';
+import type { PngExport } from './raster.js';
+import type { OptimizeOptions } from './optimize.js';
 
 const OUTPUT_DIR = './diagrams';
 const METADATA_FILE = join(OUTPUT_DIR, 'metadata.json');
@@ -23,8 +29,18 @@ export interface SvgMetadata {
   prompt: string;
   mode: GenerationMode;
   spec: SvgSpec | SemanticSvgSpec;
+  repairs?: RepairAttempt[]; // LLM repair round-trips needed to get a valid spec
+  sanitized?: SanitizeChange[]; // values removed or rewritten by the sanitizer
+  fit?: FitOptions; // canvas was fitted to the content when rendering
+  importWarnings?: ImportWarning[]; // elements flattened or dropped when importing an SVG file
+  png?: PngExport[]; // PNG renderings saved next to the SVG
+  optimize?: OptimizeOptions; // markup was optimized (the spec is saved unoptimized)
+  source?: string; // filename of the SVG this one was refined or converted from
 }
 
+// Optional extra metadata recorded with a saved SVG
+export type SvgMetadataExtras = Partial<Pick<SvgMetadata, 'repairs' | 'sanitized' | 'fit' | 'importWarnings' | 'optimize' | 'source'>>;
+
 /**
  * Ensure output directory exists
  */
@@ -59,14 +75,19 @@ export function saveSvg(
   svgMarkup: string,
   spec: SvgSpec | SemanticSvgSpec,
   prompt: string,
-  mode: GenerationMode
+  mode: GenerationMode,
+  extras: SvgMetadataExtras = {}
 ): string {
   ensureOutputDir();
 
   // Generate filename with timestamp
   const timestamp = new Date().toISOString().replace(/:/g, '-').replace(/\..+/, '');
-  const filename = `${spec.name}_${timestamp}.svg`;
-  const filepath = join(OUTPUT_DIR, filename);
+  // Numbered if the same name was already saved this second (e.g. in a batch)
+  let filename = `${spec.name}_${timestamp}.svg`;
+  for (let n = 2; existsSync(outputPath(filename)); n++) {
+    filename = `${spec.name}_${timestamp}_${n}.svg`;
+  }
+  const filepath = outputPath(filename);
 
   // Save SVG file
   writeFileSync(filepath, svgMarkup);
@@ -81,12 +102,74 @@ export function saveSvg(
     prompt,
     mode,
     spec,
+    ...extras,
   });
   saveMetadata(metadata);
 
   return filepath;
 }
 
+/**
+ * Path of a saved SVG (or a file saved next to it)
+ */
+export function outputPath(filename: string): string {
+  return join(OUTPUT_DIR, filename);
+}
+
+/**
+ * Write a file next to the saved SVGs (exports), returning its path
+ */
+export function saveOutputFile(filename: string, content: string): string {
+  ensureOutputDir();
+  const filepath = outputPath(filename);
+  writeFileSync(filepath, content);
+  return filepath;
+}
+
+/**
+ * Record PNG renderings of a saved SVG, replacing earlier renderings of the same file
+ */
+export function recordPngExports(filename: string, exports: PngExport[]): void {
+  const metadata = loadMetadata();
+  // Newest entry first in case a filename was reused
+  const entry = metadata.slice().reverse().find(item => item.filename === filename);
+  if (!entry) {
+    throw new Error(`No saved SVG named ${filename}`);
+  }
+
+  const replaced = new Set(exports.map(png => png.filename));
+  entry.png = [...(entry.png ?? []).filter(png => !replaced.has(png.filename)), ...exports];
+  saveMetadata(metadata);
+}
+
+/**
+ * All saved SVG metadata, oldest first
+ */
+export function listSvgs(): SvgMetadata[] {
+  return loadMetadata();
+}
+
+/**
+ * Newest version of each saved SVG, oldest first. Refinements and conversions
+ * replace the SVG they came from, back to the first generation or import.
+ */
+export function latestVersions(metadata: SvgMetadata[]): SvgMetadata[] {
+  const firstVersion = new Map<string, string>(); // filename -> filename of its first version
+  const latestNamed = new Map<string, string>(); // spec name -> first version of its newest entry
+  const latest = new Map<string, SvgMetadata>(); // first version -> newest version
+
+  for (const entry of metadata) {
+    // Entries saved before sources were recorded: refinements kept the spec name
+    const source = entry.source ?? (entry.prompt.startsWith('refine: ') ? latestNamed.get(entry.name) : undefined);
+    const first = source !== undefined ? firstVersion.get(source) ?? source : entry.filename;
+    firstVersion.set(entry.filename, first);
+    latestNamed.set(entry.name, first);
+    latest.delete(first);
+    latest.set(first, entry);
+  }
+  return [...latest.values()];
+}
+
 /**
  * Get the most recent SVG metadata (for refinement)
  */
@@ -94,3 +177,21 @@ export function getLastSvg(): SvgMetadata | null {
   const metadata = loadMetadata();
   return metadata.length > 0 ? metadata[metadata.length - 1] : null;
 }
+
+/**
+ * Find saved SVG metadata by id (filename without extension) or "last"
+ */
+export function getSvgById(id: string): SvgMetadata | null {
+  if (id === 'last') {
+    return getLastSvg();
+  }
+  const filename = id.endsWith('.svg') ? id : `${id}.svg`;
+  const metadata = loadMetadata();
+  // Search newest first in case a filename was reused
+  for (let i = metadata.length - 1; i >= 0; i--) {
+    if (metadata[i].filename === filename) {
+      return metadata[i];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,414 @@
+/**
+ * Semantic Spec Validation
+ *
+ * Runtime checks for LLM-supplied SemanticSvgSpec JSON, mirroring the
+ * interfaces in schema-semantic.ts
+ */
+
+import type {
+  SemanticSvgSpec,
+  ShapeDefinition,
+  PositionType,
+  Alignment,
+  TriangleShape,
+  TriangleCorner,
+  TextShape,
+  ConnectorShape,
+  AxisAlign,
+  LayoutGroup,
+  SemanticLayer,
+  ComponentInstance,
+  ShapeTransform,
+} from './schema-semantic.js';
+import { rightAngleCorners } from './generator-semantic.js';
+import { diagnoseDependencies } from './dependencies-semantic.js';
+import {
+  SpecValidationError,
+  checkObject,
+  checkArray,
+  checkField,
+  checkFields,
+  joinPath,
+  req,
+  opt,
+  type FieldRules,
+  type ValidationIssue,
+} from './validate.js';
+
+const TRIANGLE_TYPES = ['equilateral', 'isosceles', 'right'] as const satisfies readonly TriangleShape['triangleType'][];
+const ORIENTATIONS = ['pointing_up', 'pointing_down', 'pointing_left', 'pointing_right'] as const satisfies readonly TriangleShape['orientation'][];
+const TRIANGLE_CORNERS = ['top_left', 'top_right', 'bottom_left', 'bottom_right'] as const satisfies readonly TriangleCorner[];
+const FONT_WEIGHTS = ['normal', 'bold'] as const satisfies readonly NonNullable<TextShape['fontWeight']>[];
+const ROUTINGS = ['straight', 'orthogonal'] as const satisfies readonly NonNullable<ConnectorShape['routing']>[];
+const ARROWHEADS = ['none', 'start', 'end', 'both'] as const satisfies readonly NonNullable<ConnectorShape['arrowheads']>[];
+const FLIPS = ['horizontal', 'vertical', 'both'] as const satisfies readonly NonNullable<ShapeTransform['flip']>[];
+const POSITION_TYPES = ['absolute', 'relative', 'centered', 'constrained', 'between'] as const satisfies readonly PositionType[];
+const AXIS_ALIGNS = ['start', 'center', 'end'] as const satisfies readonly AxisAlign[];
+const LAYOUTS = ['row', 'column', 'grid'] as const satisfies readonly LayoutGroup['layout'][];
+const ALIGNMENTS = [
+  'tip_touches_left', 'tip_touches_right',
+  'tip_touches_top', 'tip_touches_bottom',
+  'edge_touches_left', 'edge_touches_right',
+  'edge_touches_top', 'edge_touches_bottom',
+  'center_aligned', 'adjacent_left', 'adjacent_right',
+] as const satisfies readonly Alignment[];
+
+// Rotation, flip and scale shared by every positioned shape (not connectors)
+const TRANSFORM_FIELDS: FieldRules = {
+  rotation: opt('number'),
+  flip: opt(FLIPS),
+  scale: opt('positive'),
+};
+
+// Shape-specific properties per shapeType
+export const SHAPE_FIELDS: Record<ShapeDefinition['shapeType'], FieldRules> = {
+  triangle: {
+    triangleType: req(TRIANGLE_TYPES),
+    orientation: req(ORIENTATIONS),
+    size: req('number'),
+    height: opt('number'),
+    apexAngle: opt('number'),
+    rightAngleCorner: opt(TRIANGLE_CORNERS),
+    ...TRANSFORM_FIELDS,
+  },
+  rectangle: { width: req('number'), height: req('number'), rounded: opt('number'), ...TRANSFORM_FIELDS },
+  circle: { radius: req('positive'), ...TRANSFORM_FIELDS },
+  ellipse: { radiusX: req('positive'), radiusY: req('positive'), ...TRANSFORM_FIELDS },
+  line: { length: req('number'), angle: req('number'), ...TRANSFORM_FIELDS },
+  diamond: { size: req('number'), ...TRANSFORM_FIELDS },
+  text: {
+    text: req('string'),
+    fontSize: opt('number'),
+    fontFamily: opt('string'),
+    fontWeight: opt(FONT_WEIGHTS),
+    lineHeight: opt('number'),
+    ...TRANSFORM_FIELDS,
+  },
+  connector: {
+    from: req('string'),
+    to: req('string'),
+    routing: opt(ROUTINGS),
+    arrowheads: opt(ARROWHEADS),
+    arrowSize: opt('positive'),
+  },
+  component: { component: req('string'), ...TRANSFORM_FIELDS },
+};
+
+const SHAPE_TYPES = Object.keys(SHAPE_FIELDS) as ShapeDefinition['shapeType'][];
+
+export const STYLE_FIELDS: FieldRules = {
+  fill: opt('string'),
+  stroke: opt('string'),
+  strokeWidth: opt('number'),
+  opacity: opt('number'),
+};
+
+/**
+ * Cross-field checks for triangle parameters (run after field types are known to be valid)
+ */
+function validateTriangle(shape: TriangleShape, path: string, issues: ValidationIssue[]): void {
+  if (shape.apexAngle !== undefined) {
+    if (shape.triangleType !== 'isosceles') {
+      issues.push({ path: joinPath(path, 'apexAngle'), message: 'only applies to isosceles triangles' });
+    } else if (shape.apexAngle <= 0 || shape.apexAngle >= 180) {
+      issues.push({ path: joinPath(path, 'apexAngle'), message: 'must be between 0 and 180 degrees' });
+    }
+  }
+
+  if (shape.height !== undefined && shape.triangleType === 'equilateral') {
+    issues.push({ path: joinPath(path, 'height'), message: 'not allowed for equilateral triangles (height follows from size)' });
+  }
+
+  if (shape.rightAngleCorner !== undefined) {
+    const allowed = rightAngleCorners(shape.orientation);
+    if (shape.triangleType !== 'right') {
+      issues.push({ path: joinPath(path, 'rightAngleCorner'), message: 'only applies to right triangles' });
+    } else if (!allowed.includes(shape.rightAngleCorner)) {
+      issues.push({
+        path: joinPath(path, 'rightAngleCorner'),
+        message: `must be on the base side for ${shape.orientation}: ${allowed.join(', ')}`,
+      });
+    }
+  }
+}
+
+/**
+ * Check that a value is a pair of ids ("between" references)
+ */
+function checkPair(value: unknown, path: string, issues: ValidationIssue[]): boolean {
+  if (!checkArray(value, path, issues)) return false;
+  if (value.length !== 2) {
+    issues.push({ path, message: `expected 2 layer ids, got ${value.length}` });
+    return false;
+  }
+  let ok = true;
+  value.forEach((id, i) => {
+    ok = checkField(id, req('string'), joinPath(path, i), issues) && ok;
+  });
+  return ok;
+}
+
+/**
+ * Validate one axis of a constrained position: exactly one of value, relativeTo or between
+ */
+function validateAxis(axis: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  checkFields(axis, {
+    value: opt('number'),
+    relativeTo: opt('string'),
+    align: opt(AXIS_ALIGNS),
+    ratio: opt('number'),
+    offset: opt('number'),
+  }, path, issues);
+  if (axis.between !== undefined) checkPair(axis.between, joinPath(path, 'between'), issues);
+
+  const set = (['value', 'relativeTo', 'between'] as const).filter(key => axis[key] !== undefined);
+  if (set.length === 0) {
+    issues.push({ path, message: 'under-constrained: needs one of value, relativeTo or between' });
+  } else if (set.length > 1) {
+    issues.push({ path, message: `over-constrained: use only one of value, relativeTo or between (got ${set.join(', ')})` });
+  }
+  if (axis.align !== undefined && axis.relativeTo === undefined) {
+    issues.push({ path: joinPath(path, 'align'), message: 'only applies with relativeTo' });
+  }
+  if (axis.ratio !== undefined && axis.between === undefined) {
+    issues.push({ path: joinPath(path, 'ratio'), message: 'only applies with between' });
+  }
+}
+
+/**
+ * Validate a layer's or group's position
+ */
+function validatePosition(position: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  if (!checkField(position.type, req(POSITION_TYPES), joinPath(path, 'type'), issues)) return;
+
+  if (position.type === 'absolute') {
+    checkFields(position, { x: req('number'), y: req('number') }, path, issues);
+  }
+
+  if (position.type === 'relative') {
+    checkFields(position, { relativeTo: req('string'), alignment: opt(ALIGNMENTS), offset: opt('number') }, path, issues);
+  }
+
+  if (position.type === 'between') {
+    checkPair(position.between, joinPath(path, 'between'), issues);
+    checkField(position.ratio, opt('number'), joinPath(path, 'ratio'), issues);
+  }
+
+  if (position.type === 'constrained') {
+    for (const axis of ['horizontal', 'vertical'] as const) {
+      const axisPath = joinPath(path, axis);
+      if (position[axis] === undefined) {
+        issues.push({ path: axisPath, message: `under-constrained: required for constrained positioning` });
+      } else if (checkObject(position[axis], axisPath, issues)) {
+        validateAxis(position[axis], axisPath, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a layout group
+ */
+function validateGroup(group: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  checkFields(group, {
+    id: req('string'),
+    layout: req(LAYOUTS),
+    spacing: opt('number'),
+    columns: opt('positive'),
+    align: opt(AXIS_ALIGNS),
+  }, path, issues);
+
+  const layersPath = joinPath(path, 'layers');
+  if (checkArray(group.layers, layersPath, issues)) {
+    if (group.layers.length === 0) {
+      issues.push({ path: layersPath, message: 'must list at least one layer' });
+    }
+    group.layers.forEach((id, k) => checkField(id, req('string'), joinPath(layersPath, k), issues));
+  }
+
+  if (group.layout === 'grid' && group.columns === undefined) {
+    issues.push({ path: joinPath(path, 'columns'), message: 'required for grid layouts' });
+  } else if (group.layout !== 'grid' && group.columns !== undefined) {
+    issues.push({ path: joinPath(path, 'columns'), message: 'only applies to grid layouts' });
+  } else if (typeof group.columns === 'number' && !Number.isInteger(group.columns)) {
+    issues.push({ path: joinPath(path, 'columns'), message: 'must be a whole number' });
+  }
+
+  const positionPath = joinPath(path, 'position');
+  if (checkObject(group.position, positionPath, issues)) {
+    validatePosition(group.position, positionPath, issues);
+  }
+}
+
+/**
+ * Validate a component instance against the declared components
+ * (null = inside a component, where instances are not allowed)
+ */
+function validateInstance(
+  shape: ComponentInstance,
+  path: string,
+  components: ReadonlyMap<string, string[]> | null,
+  issues: ValidationIssue[]
+): void {
+  if (!components) {
+    issues.push({ path: joinPath(path, 'shapeType'), message: 'component instances can\'t be nested inside components' });
+    return;
+  }
+
+  const layerIds = components.get(shape.component);
+  if (!layerIds) {
+    const known = [...components.keys()];
+    issues.push({ path: joinPath(path, 'component'), message: `unknown component "${shape.component}"${known.length ? ` (declared: ${known.join(', ')})` : ''}` });
+    return;
+  }
+
+  const overridesPath = joinPath(path, 'overrides');
+  if (shape.overrides !== undefined && checkObject(shape.overrides, overridesPath, issues)) {
+    for (const [id, style] of Object.entries(shape.overrides)) {
+      const stylePath = joinPath(overridesPath, id);
+      if (!layerIds.includes(id)) {
+        issues.push({ path: stylePath, message: `component "${shape.component}" has no layer "${id}"` });
+      } else if (checkObject(style, stylePath, issues)) {
+        checkFields(style, STYLE_FIELDS, stylePath, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate the layers and groups of a spec or component, then their dependencies
+ */
+function validateLayout(
+  container: Record<string, unknown>,
+  prefix: string,
+  components: ReadonlyMap<string, string[]> | null,
+  issues: ValidationIssue[]
+): void {
+  const before = issues.length;
+  const layersPath = joinPath(prefix, 'layers');
+  const groupsPath = joinPath(prefix, 'groups');
+  if (!checkArray(container.layers, layersPath, issues)) return;
+
+  // Layers placed by a layout group (checked in full below)
+  const groupOf = new Map<unknown, unknown>();
+  if (Array.isArray(container.groups)) {
+    for (const group of container.groups) {
+      if (Array.isArray(group?.layers)) group.layers.forEach((id: unknown) => groupOf.set(id, group.id));
+    }
+  }
+
+  container.layers.forEach((layer, i) => {
+    const path = joinPath(layersPath, i);
+    if (!checkObject(layer, path, issues)) return;
+
+    checkField(layer.id, req('string'), joinPath(path, 'id'), issues);
+    checkField(layer.description, opt('string'), joinPath(path, 'description'), issues);
+
+    const shapePath = joinPath(path, 'shape');
+    if (checkObject(layer.shape, shapePath, issues)) {
+      const shapeType = layer.shape.shapeType;
+      if (checkField(shapeType, req(SHAPE_TYPES), joinPath(shapePath, 'shapeType'), issues)) {
+        const before = issues.length;
+        checkFields(layer.shape, SHAPE_FIELDS[shapeType as ShapeDefinition['shapeType']], shapePath, issues);
+        if (shapeType === 'triangle' && issues.length === before) {
+          validateTriangle(layer.shape as unknown as TriangleShape, shapePath, issues);
+        }
+        if (shapeType === 'component' && issues.length === before) {
+          validateInstance(layer.shape as unknown as ComponentInstance, shapePath, components, issues);
+        }
+      }
+    }
+
+    // Connectors are placed by their endpoints (any position is ignored),
+    // group members by their group
+    const positionPath = joinPath(path, 'position');
+    const isConnector = (layer.shape as { shapeType?: unknown } | undefined)?.shapeType === 'connector';
+    if (groupOf.has(layer.id)) {
+      if (isConnector) {
+        issues.push({ path: joinPath(path, 'id'), message: `connectors can't be in a layout group (group "${groupOf.get(layer.id)}")` });
+      } else if (layer.position !== undefined) {
+        issues.push({ path: positionPath, message: `over-constrained: layer is positioned by group "${groupOf.get(layer.id)}"` });
+      }
+    } else if (!isConnector && layer.position === undefined) {
+      issues.push({ path: positionPath, message: 'under-constrained: required unless the layer is in a layout group' });
+    } else if (!isConnector && checkObject(layer.position, positionPath, issues)) {
+      validatePosition(layer.position, positionPath, issues);
+    }
+
+    const stylePath = joinPath(path, 'style');
+    if (checkObject(layer.style, stylePath, issues)) {
+      checkFields(layer.style, STYLE_FIELDS, stylePath, issues);
+    }
+  });
+
+  if (container.groups !== undefined && checkArray(container.groups, groupsPath, issues)) {
+    container.groups.forEach((group, g) => {
+      const path = joinPath(groupsPath, g);
+      if (checkObject(group, path, issues)) validateGroup(group, path, issues);
+    });
+  }
+
+  // Dependency graph checks need structurally valid layers and groups
+  if (issues.length === before) {
+    issues.push(...diagnoseDependencies(
+      container.layers as SemanticLayer[],
+      container.groups as LayoutGroup[] | undefined,
+      prefix
+    ));
+  }
+}
+
+/**
+ * Validate component definitions. Returns the layer ids of each valid component.
+ */
+function validateComponents(components: unknown, issues: ValidationIssue[]): Map<string, string[]> {
+  const valid = new Map<string, string[]>();
+  if (components === undefined || !checkArray(components, 'components', issues)) return valid;
+
+  components.forEach((component, i) => {
+    const path = joinPath('components', i);
+    if (!checkObject(component, path, issues)) return;
+
+    checkFields(component, { id: req('string'), description: opt('string') }, path, issues);
+    if (typeof component.id === 'string' && valid.has(component.id)) {
+      issues.push({ path: joinPath(path, 'id'), message: `duplicate component id "${component.id}"` });
+    }
+
+    validateLayout(component, path, null, issues);
+    if (typeof component.id === 'string' && Array.isArray(component.layers)) {
+      valid.set(component.id, component.layers.map(layer => layer?.id).filter(id => typeof id === 'string'));
+    }
+  });
+
+  return valid;
+}
+
+/**
+ * Validate a SemanticSvgSpec and return all issues found (empty = valid)
+ */
+export function validateSemanticSvgSpec(spec: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!checkObject(spec, '', issues)) return issues;
+
+  checkField(spec.name, req('string'), 'name', issues);
+  checkField(spec.description, req('string'), 'description', issues);
+
+  if (checkObject(spec.canvasSize, 'canvasSize', issues)) {
+    checkFields(spec.canvasSize, { width: req('positive'), height: req('positive') }, 'canvasSize', issues);
+  }
+
+  const components = validateComponents(spec.components, issues);
+  validateLayout(spec, '', components, issues);
+
+  return issues;
+}
+
+/**
+ * Throw a SpecValidationError if the value is not a valid SemanticSvgSpec
+ */
+export function assertValidSemanticSvgSpec(spec: unknown): asserts spec is SemanticSvgSpec {
+  const issues = validateSemanticSvgSpec(spec);
+  if (issues.length > 0) {
+    throw new SpecValidationError(issues);
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * SVG Spec Validation
+ *
+ * Runtime checks for LLM-supplied SvgSpec JSON, mirroring the interfaces in
+ * schema.ts. Reports path-qualified issues like "layers[3].props.r: required number".
+ */
+
+import type { SvgSpec, SvgLayer, SvgDef, TextProps, MarkerDef } from './schema.js';
+
+// A single problem found in a spec
+export interface ValidationIssue {
+  path: string; // e.g. "layers[3].props.r"
+  message: string; // e.g. "required number"
+}
+
+// Thrown when a spec fails validation
+export class SpecValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid spec:\n${formatIssues(issues)}`);
+    this.name = 'SpecValidationError';
+    this.issues = issues;
+  }
+}
+
+// Field rule: primitive type or list of allowed string values
+export type FieldType = 'number' | 'positive' | 'string' | readonly string[];
+
+export interface FieldRule {
+  type: FieldType;
+  optional?: boolean;
+}
+
+export type FieldRules = Record<string, FieldRule>;
+
+export const req = (type: FieldType): FieldRule => ({ type });
+export const opt = (type: FieldType): FieldRule => ({ type, optional: true });
+
+/**
+ * Format issues one per line
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('\n');
+}
+
+/**
+ * Join a parent path and a key
+ */
+export function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check that a value is a plain object, recording an issue if not
+ */
+export function checkObject(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  optional = false
+): value is Record<string, unknown> {
+  if (value === undefined) {
+    if (!optional) issues.push({ path, message: 'required object' });
+    return false;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: `expected object, got ${describeType(value)}` });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check that a value is an array, recording an issue if not
+ */
+export function checkArray(value: unknown, path: string, issues: ValidationIssue[]): value is unknown[] {
+  if (value === undefined) {
+    issues.push({ path, message: 'required array' });
+    return false;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected array, got ${describeType(value)}` });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check a single value against a field rule
+ */
+export function checkField(value: unknown, rule: FieldRule, path: string, issues: ValidationIssue[]): boolean {
+  const { type } = rule;
+  const typeName = typeof type === 'string' ? (type === 'positive' ? 'number' : type) : 'string';
+
+  if (value === undefined) {
+    if (rule.optional) return true;
+    issues.push({ path, message: `required ${typeName}` });
+    return false;
+  }
+
+  if (typeName === 'number') {
+    if (typeof value !== 'number') {
+      issues.push({ path, message: `expected number, got ${describeType(value)}` });
+      return false;
+    }
+    if (!Number.isFinite(value)) {
+      issues.push({ path, message: 'expected finite number' });
+      return false;
+    }
+    if (type === 'positive' && value <= 0) {
+      issues.push({ path, message: 'must be greater than 0' });
+      return false;
+    }
+    return true;
+  }
+
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `expected string, got ${describeType(value)}` });
+    return false;
+  }
+  if (typeof type !== 'string' && !type.includes(value)) {
+    issues.push({ path, message: `must be one of: ${type.join(', ')} (got "${value}")` });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check every field of an object against a rule table
+ */
+export function checkFields(
+  obj: Record<string, unknown>,
+  rules: FieldRules,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  for (const [key, rule] of Object.entries(rules)) {
+    checkField(obj[key], rule, joinPath(path, key), issues);
+  }
+}
+
+// Properties shared by every coordinate shape (BaseShapeProps)
+export const BASE_PROPS: FieldRules = {
+  fill: opt('string'),
+  stroke: opt('string'),
+  strokeWidth: opt('number'),
+  opacity: opt('number'),
+  transform: opt('string'),
+  clipPath: opt('string'),
+};
+
+// Marker references, allowed on shapes with vertices (MarkerProps)
+const MARKER_PROPS: FieldRules = {
+  markerStart: opt('string'),
+  markerMid: opt('string'),
+  markerEnd: opt('string'),
+};
+
+const TEXT_ANCHORS = ['start', 'middle', 'end'] as const satisfies readonly NonNullable<TextProps['textAnchor']>[];
+const FONT_WEIGHTS = ['normal', 'bold'] as const satisfies readonly NonNullable<TextProps['fontWeight']>[];
+const DOMINANT_BASELINES = ['auto', 'middle', 'hanging'] as const satisfies readonly NonNullable<TextProps['dominantBaseline']>[];
+
+// Shape-specific properties per layer type
+export const SHAPE_PROPS: Record<SvgLayer['type'], FieldRules> = {
+  rect: { x: req('number'), y: req('number'), width: req('number'), height: req('number'), rx: opt('number'), ry: opt('number') },
+  circle: { cx: req('number'), cy: req('number'), r: req('number') },
+  ellipse: { cx: req('number'), cy: req('number'), rx: req('number'), ry: req('number') },
+  line: { x1: req('number'), y1: req('number'), x2: req('number'), y2: req('number'), ...MARKER_PROPS },
+  polyline: { points: req('string'), ...MARKER_PROPS },
+  polygon: { points: req('string'), ...MARKER_PROPS },
+  path: { d: req('string'), ...MARKER_PROPS },
+  text: {
+    x: req('number'),
+    y: req('number'),
+    text: req('string'),
+    fontSize: opt('number'),
+    lineHeight: opt('positive'),
+    fontFamily: opt('string'),
+    fontWeight: opt(FONT_WEIGHTS),
+    textAnchor: opt(TEXT_ANCHORS),
+    dominantBaseline: opt(DOMINANT_BASELINES),
+  },
+  group: {},
+};
+
+const LAYER_TYPES = Object.keys(SHAPE_PROPS) as SvgLayer['type'][];
+
+const MARKER_ORIENTS = ['auto', 'auto-start-reverse'] as const satisfies readonly NonNullable<MarkerDef['orient']>[];
+const MARKER_UNITS = ['strokeWidth', 'userSpaceOnUse'] as const satisfies readonly NonNullable<MarkerDef['units']>[];
+
+// Gradient color stop (GradientStop)
+export const STOP_FIELDS: FieldRules = { offset: req('number'), color: req('string'), opacity: opt('number') };
+
+// Def-specific fields per def type (besides id, type, stops and layers)
+export const DEF_FIELDS: Record<SvgDef['type'], FieldRules> = {
+  linearGradient: { x1: opt('number'), y1: opt('number'), x2: opt('number'), y2: opt('number') },
+  radialGradient: { cx: opt('number'), cy: opt('number'), r: opt('positive'), fx: opt('number'), fy: opt('number') },
+  pattern: { width: req('positive'), height: req('positive'), patternTransform: opt('string') },
+  clipPath: {},
+  marker: {
+    width: req('positive'),
+    height: req('positive'),
+    refX: req('number'),
+    refY: req('number'),
+    orient: opt(MARKER_ORIENTS),
+    units: opt(MARKER_UNITS),
+  },
+};
+
+const DEF_TYPES = Object.keys(DEF_FIELDS) as SvgDef['type'][];
+const GRADIENTS: readonly SvgDef['type'][] = ['linearGradient', 'radialGradient'];
+const PAINT_SERVERS: readonly SvgDef['type'][] = [...GRADIENTS, 'pattern'];
+
+// Def types each referencing prop may point at
+const REFERENCE_TARGETS: Record<string, readonly SvgDef['type'][]> = {
+  fill: PAINT_SERVERS,
+  stroke: PAINT_SERVERS,
+  clipPath: ['clipPath'],
+  markerStart: ['marker'],
+  markerMid: ['marker'],
+  markerEnd: ['marker'],
+};
+
+// Props that must always be a reference (fill and stroke may also be colors)
+const REFERENCE_ONLY = ['clipPath', 'markerStart', 'markerMid', 'markerEnd'];
+
+const URL_REFERENCE = /^url\(#([^)]+)\)$/;
+
+/**
+ * Validate a single coordinate layer
+ */
+function validateLayer(layer: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!checkObject(layer, path, issues)) return;
+
+  checkField(layer.id, req('string'), joinPath(path, 'id'), issues);
+  checkField(layer.description, opt('string'), joinPath(path, 'description'), issues);
+  const typeOk = checkField(layer.type, req(LAYER_TYPES), joinPath(path, 'type'), issues);
+
+  const propsPath = joinPath(path, 'props');
+  if (!checkObject(layer.props, propsPath, issues)) return;
+
+  checkFields(layer.props, BASE_PROPS, propsPath, issues);
+  if (typeOk) {
+    checkFields(layer.props, SHAPE_PROPS[layer.type as SvgLayer['type']], propsPath, issues);
+  }
+
+  const childrenPath = joinPath(path, 'children');
+  if (layer.type !== 'group') {
+    if (layer.children !== undefined) {
+      issues.push({ path: childrenPath, message: 'only group layers can have children' });
+    }
+    return;
+  }
+  if (!checkArray(layer.children, childrenPath, issues)) return;
+  if (layer.children.length === 0) {
+    issues.push({ path: childrenPath, message: 'a group needs at least one child layer' });
+  }
+  layer.children.forEach((child, i) => validateLayer(child, joinPath(childrenPath, i), issues));
+}
+
+/**
+ * Validate a single def: its fields, gradient stops or content layers
+ */
+function validateDef(def: unknown, path: string, issues: ValidationIssue[]): void {
+  if (!checkObject(def, path, issues)) return;
+
+  checkField(def.id, req('string'), joinPath(path, 'id'), issues);
+  if (!checkField(def.type, req(DEF_TYPES), joinPath(path, 'type'), issues)) return;
+  const type = def.type as SvgDef['type'];
+  checkFields(def, DEF_FIELDS[type], path, issues);
+
+  if (GRADIENTS.includes(type)) {
+    const stopsPath = joinPath(path, 'stops');
+    if (!checkArray(def.stops, stopsPath, issues)) return;
+    if (def.stops.length === 0) {
+      issues.push({ path: stopsPath, message: 'a gradient needs at least one stop' });
+    }
+    def.stops.forEach((stop, i) => {
+      const stopPath = joinPath(stopsPath, i);
+      if (!checkObject(stop, stopPath, issues)) return;
+      checkFields(stop, STOP_FIELDS, stopPath, issues);
+      if (typeof stop.offset === 'number' && (stop.offset < 0 || stop.offset > 1)) {
+        issues.push({ path: joinPath(stopPath, 'offset'), message: 'must be between 0 and 1' });
+      }
+    });
+    return;
+  }
+
+  const layersPath = joinPath(path, 'layers');
+  if (!checkArray(def.layers, layersPath, issues)) return;
+  if (def.layers.length === 0) {
+    issues.push({ path: layersPath, message: `a ${type} needs at least one layer` });
+  }
+  def.layers.forEach((layer, i) => validateLayer(layer, joinPath(layersPath, i), issues));
+}
+
+/**
+ * Check that every url(#id) reference in the layers points at a def of the right type
+ */
+function validateReferences(spec: Record<string, unknown>, issues: ValidationIssue[]): void {
+  const defs = Array.isArray(spec.defs) ? spec.defs : [];
+  const defTypes = new Map<string, SvgDef['type']>();
+
+  defs.forEach((def, i) => {
+    if (typeof def?.id !== 'string' || !DEF_TYPES.includes(def.type)) return;
+    if (defTypes.has(def.id)) {
+      issues.push({ path: joinPath(joinPath('defs', i), 'id'), message: `duplicate def id "${def.id}"` });
+    } else {
+      defTypes.set(def.id, def.type);
+    }
+  });
+
+  const checkProps = (props: unknown, path: string) => {
+    if (typeof props !== 'object' || props === null) return;
+    const fields = props as Record<string, unknown>;
+
+    for (const [key, targets] of Object.entries(REFERENCE_TARGETS)) {
+      const value = fields[key];
+      if (typeof value !== 'string') continue;
+      const propPath = joinPath(path, key);
+      const match = URL_REFERENCE.exec(value.trim());
+
+      if (!match) {
+        if (REFERENCE_ONLY.includes(key) || value.trim().startsWith('url(')) {
+          issues.push({ path: propPath, message: `expected url(#id) referencing a ${targets.join(' or ')} def (got "${value}")` });
+        }
+        continue;
+      }
+
+      const [, id] = match;
+      const type = defTypes.get(id);
+      if (type === undefined) {
+        const defined = [...defTypes.keys()];
+        issues.push({
+          path: propPath,
+          message: `unknown def "${id}" (${defined.length > 0 ? `defined: ${defined.join(', ')}` : 'no defs defined'})`,
+        });
+      } else if (!targets.includes(type)) {
+        issues.push({ path: propPath, message: `"${id}" is a ${type}, expected a ${targets.join(' or ')}` });
+      }
+    }
+  };
+
+  // Group children are checked after their group
+  const checkLayers = (layers: unknown, path: string) => {
+    if (!Array.isArray(layers)) return;
+    layers.forEach((layer, i) => {
+      checkProps(layer?.props, joinPath(joinPath(path, i), 'props'));
+      checkLayers(layer?.children, joinPath(joinPath(path, i), 'children'));
+    });
+  };
+
+  defs.forEach((def, i) => checkLayers(def?.layers, joinPath(joinPath('defs', i), 'layers')));
+  checkLayers(spec.layers, 'layers');
+}
+
+/**
+ * Validate an SvgSpec and return all issues found (empty = valid)
+ */
+export function validateSvgSpec(spec: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!checkObject(spec, '', issues)) return issues;
+
+  checkField(spec.name, req('string'), 'name', issues);
+  checkField(spec.description, req('string'), 'description', issues);
+
+  if (checkObject(spec.viewBox, 'viewBox', issues)) {
+    checkFields(spec.viewBox, {
+      width: req('positive'),
+      height: req('positive'),
+      minX: opt('number'),
+      minY: opt('number'),
+    }, 'viewBox', issues);
+  }
+
+  if (spec.defs !== undefined && checkArray(spec.defs, 'defs', issues)) {
+    spec.defs.forEach((def, i) => validateDef(def, joinPath('defs', i), issues));
+  }
+
+  if (checkArray(spec.layers, 'layers', issues)) {
+    spec.layers.forEach((layer, i) => validateLayer(layer, joinPath('layers', i), issues));
+  }
+
+  validateReferences(spec, issues);
+
+  return issues;
+}
+
+/**
+ * Throw a SpecValidationError if the value is not a valid SvgSpec
+ */
+export function assertValidSvgSpec(spec: unknown): asserts spec is SvgSpec {
+  const issues = validateSvgSpec(spec);
+  if (issues.length > 0) {
+    throw new SpecValidationError(issues);
+  }
+}
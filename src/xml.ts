@@ -0,0 +1,107 @@
+/**
+ * XML Parsing
+ *
+ * Minimal parser for SVG markup, shared by the importer and the optimizer:
+ * elements, attributes, text, CDATA and comments (no DTD or namespace
+ * processing). The XML prolog and doctype are skipped.
+ */
+
+// Parsed element
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | { text: string } | { comment: string };
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+// Largest Unicode code point, and the surrogates that aren't characters on their own
+const MAX_CODE_POINT = 0x10ffff;
+const SURROGATES = [0xd800, 0xdfff];
+
+/**
+ * Decode XML character and entity references (invalid is called with a
+ * character reference to a code point that isn't a character)
+ */
+function decodeEntities(value: string, invalid: (message: string) => never): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, ref: string) => {
+    if (!ref.startsWith('#')) return ENTITIES[ref] ?? match;
+    const code = ref.startsWith('#x') ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+    if (code > MAX_CODE_POINT || (code >= SURROGATES[0] && code <= SURROGATES[1])) {
+      invalid(`character reference ${match} is not a character`);
+    }
+    return String.fromCodePoint(code);
+  });
+}
+
+/**
+ * Parse XML markup into an element tree (no DTD or namespace processing)
+ */
+export function parseXml(markup: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid SVG at offset ${i}: ${message}`);
+  };
+  const skipPast = (terminator: string) => {
+    const end = markup.indexOf(terminator, i);
+    if (end === -1) fail(`missing "${terminator}"`);
+    const content = markup.slice(i, end);
+    i = end + terminator.length;
+    return content;
+  };
+
+  while (i < markup.length) {
+    const parent = stack[stack.length - 1];
+
+    if (markup[i] !== '<') {
+      const end = markup.indexOf('<', i);
+      const text = markup.slice(i, end === -1 ? markup.length : end);
+      parent.children.push({ text: decodeEntities(text, fail) });
+      i = end === -1 ? markup.length : end;
+    } else if (markup.startsWith('<!--', i)) {
+      i += 4;
+      parent.children.push({ comment: skipPast('-->').trim() });
+    } else if (markup.startsWith('<![CDATA[', i)) {
+      i += 9;
+      parent.children.push({ text: skipPast(']]>') });
+    } else if (markup.startsWith('<?', i)) {
+      skipPast('?>');
+    } else if (markup.startsWith('<!', i)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = markup.indexOf('[', i);
+      const close = markup.indexOf('>', i);
+      if (bracket !== -1 && bracket < close) {
+        i = bracket;
+        skipPast(']');
+      }
+      skipPast('>');
+    } else if (markup.startsWith('</', i)) {
+      i += 2;
+      const name = skipPast('>').trim();
+      if (stack.length === 1 || parent.name !== name) fail(`unexpected </${name}>`);
+      stack.pop();
+    } else {
+      const tag = /^<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(markup.slice(i));
+      if (!tag) fail('malformed tag');
+      const [whole, name, attributeText, selfClosing] = tag!;
+      const attributes: Record<string, string> = {};
+      for (const [, key, , doubleQuoted, singleQuoted] of attributeText.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        attributes[key] = decodeEntities(doubleQuoted ?? singleQuoted, fail);
+      }
+      const element: XmlElement = { name, attributes, children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+      i += whole.length;
+    }
+  }
+
+  if (stack.length > 1) fail(`unclosed <${stack[stack.length - 1].name}>`);
+  const svg = root.children.find((node): node is XmlElement => 'name' in node);
+  if (!svg || svg.name !== 'svg') fail('root element is not <svg>');
+  return svg!;
+}
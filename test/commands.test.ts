@@ -0,0 +1,73 @@
+/**
+ * Tests for the one-shot CLI commands
+ */
+
+import { test, before, after, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCommand, EXIT_OK } from '../src/commands.js';
+import type { SvgMetadata } from '../src/storage.js';
+
+const cwd = process.cwd();
+let dir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'aisvg-commands-'));
+  process.chdir(dir);
+});
+
+after(() => {
+  process.chdir(cwd);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function saved(filename: string, name: string, prompt: string, source?: string): SvgMetadata {
+  const spec = {
+    name,
+    description: prompt,
+    viewBox: { width: 10, height: 10 },
+    layers: [{ id: 'dot', type: 'circle', props: { cx: 5, cy: 5, r: 2 } }],
+  } as const;
+  return { timestamp: '', filename, name, description: prompt, prompt, mode: 'coordinate', spec, ...(source ? { source } : {}) } as SvgMetadata;
+}
+
+// Run a command, returning its exit code and parsed JSON result
+async function run(t: TestContext, argv: string[]) {
+  let stdout = '';
+  t.mock.method(process.stdout, 'write', (chunk: string) => {
+    stdout += chunk;
+    return true;
+  });
+  const warnings: string[] = [];
+  t.mock.method(console, 'error', (message: string) => warnings.push(message));
+  const code = await runCommand(argv);
+  return { code, result: JSON.parse(stdout), warnings };
+}
+
+test('components get distinct names when unrelated SVGs would share one', async t => {
+  mkdirSync('diagrams');
+  writeFileSync(join('diagrams', 'metadata.json'), JSON.stringify([
+    saved('valve-1_a.svg', 'valve-1', 'a valve'),
+    saved('valve_1_b.svg', 'valve_1', 'another valve'),
+    saved('pump_a.svg', 'pump', 'a pump'),
+    saved('pump_b.svg', 'pump', 'an unrelated pump'),
+    saved('pump_c.svg', 'pump', 'refine: bigger', 'pump_a.svg'),
+  ]));
+
+  const { code, result, warnings } = await run(t, ['components', 'icons']);
+  assert.equal(code, EXIT_OK);
+  assert.deepEqual(result.files.map(({ id, component }: { id: string, component: string }) => [id, component]), [
+    ['valve-1_a', 'Valve1'],
+    ['valve_1_b', 'Valve1_2'],
+    ['pump_b', 'Pump'],
+    ['pump_c', 'Pump_2'],
+  ]);
+  assert.ok(warnings.includes('Warning: valve_1_b exported as Valve1_2, Valve1 is already taken'));
+  assert.ok(warnings.includes('Warning: pump_c exported as Pump_2, Pump is already taken'));
+
+  assert.deepEqual(readdirSync('icons').sort(), ['Pump.tsx', 'Pump_2.tsx', 'Valve1.tsx', 'Valve1_2.tsx', 'index.ts']);
+  assert.match(readFileSync(join('icons', 'Pump_2.tsx'), 'utf-8'), /^\/\/ Generated by aisvg from "pump": refine: bigger\n/);
+  assert.match(readFileSync(join('icons', 'Pump_2.tsx'), 'utf-8'), /export function Pump_2\(/);
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for semantic layer dependency diagnostics
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diagnoseDependencies, sortByDependencies, sortLayersByDependencies } from '../src/dependencies-semantic.js';
+import { SpecValidationError } from '../src/validate.js';
+import type { SemanticLayer, Position, LayoutGroup } from '../src/schema-semantic.js';
+
+function layer(id: string, position: Position): SemanticLayer {
+  return { id, shape: { shapeType: 'circle', radius: 10 }, position, style: {} };
+}
+
+const relative = (relativeTo: string): Position => ({ type: 'relative', relativeTo, alignment: 'center_aligned' });
+
+test('sorts referenced layers first', () => {
+  const layers = [layer('a', relative('b')), layer('b', relative('c')), layer('c', { type: 'centered' })];
+  assert.deepEqual(diagnoseDependencies(layers), []);
+  assert.deepEqual(sortLayersByDependencies(layers).map(l => l.id), ['c', 'b', 'a']);
+});
+
+test('reports cycles with the full chain', () => {
+  const layers = [layer('a', relative('b')), layer('b', relative('c')), layer('c', relative('a'))];
+  assert.deepEqual(diagnoseDependencies(layers), [
+    { path: 'layers[2].position.relativeTo', message: 'dependency cycle: a -> b -> c -> a' },
+  ]);
+  assert.throws(() => sortLayersByDependencies(layers), SpecValidationError);
+});
+
+test('reports self references, unknown references, duplicate ids and missing alignment', () => {
+  const layers = [
+    layer('a', relative('a')),
+    layer('b', relative('nowhere')),
+    layer('b', { type: 'centered' }),
+    layer('c', { type: 'relative', relativeTo: 'b' }),
+  ];
+  assert.deepEqual(diagnoseDependencies(layers), [
+    { path: 'layers[2].id', message: 'duplicate layer id "b" (also layers[1])' },
+    { path: 'layers[0].position.relativeTo', message: 'layer "a" references itself' },
+    { path: 'layers[1].position.relativeTo', message: 'unknown layer "nowhere"' },
+    { path: 'layers[3].position.alignment', message: 'required for relative positioning' },
+  ]);
+});
+
+test('connector endpoints are dependencies', () => {
+  const pipe = (id: string, from: string, to: string): SemanticLayer =>
+    ({ id, shape: { shapeType: 'connector', from, to }, style: {} });
+  const layers = [pipe('pipe', 'pump.right', 'valve'), layer('pump', { type: 'centered' }), layer('valve', relative('pump'))];
+  assert.deepEqual(sortLayersByDependencies(layers).map(l => l.id), ['pump', 'valve', 'pipe']);
+
+  assert.deepEqual(diagnoseDependencies([pipe('pipe', 'pipe.left', 'pump.middle'), layer('pump', relative('pipe'))]), [
+    { path: 'layers[0].shape.from', message: 'layer "pipe" references itself' },
+    { path: 'layers[0].shape.to', message: 'unknown layer "pump.middle"' },
+  ]);
+});
+
+test('layout groups order their members and can be referenced', () => {
+  const member = (id: string): SemanticLayer => ({ id, shape: { shapeType: 'circle', radius: 10 }, style: {} });
+  const groups: LayoutGroup[] = [{ id: 'row', layout: 'row', layers: ['a', 'b'], position: relative('anchor') }];
+  const layers = [layer('label', relative('row')), member('a'), member('b'), layer('anchor', { type: 'centered' })];
+  assert.deepEqual(sortByDependencies(layers, groups).map(item => (item.kind === 'layer' ? item.layer.id : `group:${item.group.id}`)),
+    ['anchor', 'group:row', 'label', 'a', 'b']);
+
+  // A group positioned relative to its own member can never resolve
+  const cyclic: LayoutGroup[] = [{ id: 'row', layout: 'row', layers: ['a', 'b'], position: relative('a') }];
+  assert.deepEqual(diagnoseDependencies([member('a'), member('b')], cyclic), [
+    { path: 'groups[0].position.relativeTo', message: 'dependency cycle: a -> row -> a' },
+  ]);
+});
+
+test('group members must be existing layers', () => {
+  const member = (id: string): SemanticLayer => ({ id, shape: { shapeType: 'circle', radius: 10 }, style: {} });
+  const groups: LayoutGroup[] = [
+    { id: 'row', layout: 'row', layers: ['a', 'ghost'], position: { type: 'centered' } },
+    { id: 'column', layout: 'column', layers: ['row'], position: { type: 'centered' } },
+  ];
+  assert.deepEqual(diagnoseDependencies([member('a')], groups, 'components[0]'), [
+    { path: 'components[0].groups[0].layers[1]', message: 'unknown layer "ghost"' },
+    { path: 'components[0].groups[1].layers[0]', message: '"row" is a group, only layers can be members' },
+  ]);
+  assert.throws(() => sortByDependencies([member('a')], groups), /groups\[0\]\.layers\[1\]: unknown layer "ghost"/);
+});
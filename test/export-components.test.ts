@@ -0,0 +1,93 @@
+/**
+ * Tests for React / Vue component export
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import { exportComponent, componentIndex, componentName, colorProps } from '../src/export-components.js';
+import { compileSemanticSvgSpec } from '../src/generator-semantic.js';
+import type { SvgSpec } from '../src/schema.js';
+import type { SemanticSvgSpec } from '../src/schema-semantic.js';
+import { assertGolden, loadFixtures } from './golden.js';
+
+const coordinate = new Map(loadFixtures<SvgSpec>('coordinate'));
+const semantic = new Map(loadFixtures<SemanticSvgSpec>('semantic'));
+
+test('coordinate fixtures match golden components', () => {
+  // Defs need per-instance ids; groups have several colours
+  assertGolden('export/Defs.tsx', exportComponent(coordinate.get('defs')!, 'react').content);
+  assertGolden('export/Groups.vue', exportComponent(coordinate.get('groups')!, 'vue').content);
+});
+
+test('component names are PascalCase identifiers', () => {
+  assert.equal(componentName('ball_valve_isa'), 'BallValveIsa');
+  assert.equal(componentName('flow-transmitter FT101'), 'FlowTransmitterFt101');
+  assert.equal(componentName('3way_valve'), 'Icon3wayValve');
+});
+
+test('each distinct colour becomes a prop named after its first use', () => {
+  assert.deepEqual(colorProps(coordinate.get('groups')!), [
+    { name: 'headStroke', value: '#333' },
+    { name: 'leftEarFill', value: '#999' },
+    { name: 'leftEarInnerFill', value: 'pink' },
+    { name: 'faceFill', value: '#aaa' },
+    { name: 'noseFill', value: '#000' },
+  ]);
+
+  const { content } = exportComponent(coordinate.get('groups')!, 'react');
+  assert.match(content, /headStroke = "#333",/);
+  assert.match(content, /<g stroke=\{headStroke\} strokeWidth=\{2\}>/);
+  // Layer ids would repeat when the component is used twice
+  assert.doesNotMatch(content, /\bid=/);
+});
+
+test('single-colour drawings use currentColor', () => {
+  const spec = compileSemanticSvgSpec(semantic.get('ball-valve')!);
+  for (const framework of ['react', 'vue'] as const) {
+    const { content, filename } = exportComponent(spec, framework);
+    assert.equal(filename, `BallValveIsa.${framework === 'react' ? 'tsx' : 'vue'}`);
+    assert.match(content, /stroke="currentColor"/);
+    assert.doesNotMatch(content, /Stroke\?: string/);
+  }
+});
+
+test('text and attributes are escaped for JSX and Vue templates', () => {
+  const spec = coordinate.get('escaping')!;
+  assert.match(exportComponent(spec, 'react').content, /\{"Tom & \\"Jerry\\" <3"\}<\/text>/);
+  assert.match(exportComponent(spec, 'vue').content, />Tom &amp; "Jerry" &lt;3<\/text>/);
+
+  const braces: SvgSpec = { ...spec, layers: [{ id: 't', type: 'text', props: { x: 0, y: 0, text: '{{ secret }}' } }] };
+  assert.match(exportComponent(braces, 'vue').content, />&#123;&#123; secret }}<\/text>/);
+});
+
+test('index re-exports every component', () => {
+  const files = [exportComponent(coordinate.get('groups')!, 'vue'), exportComponent(coordinate.get('defs')!, 'vue')];
+  assert.equal(componentIndex(files, 'vue').content, [
+    "export { default as Defs } from './Defs.vue';",
+    "export { default as Groups } from './Groups.vue';",
+    '',
+  ].join('\n'));
+  assert.equal(componentIndex(files.map(file => ({ ...file, filename: `${file.component}.tsx` })), 'react').content, [
+    "export { default as Defs } from './Defs';",
+    "export { default as Groups } from './Groups';",
+    '',
+  ].join('\n'));
+});
+
+test('React golden type-checks as strict TSX', () => {
+  const file = fileURLToPath(new URL('./golden/export/Defs.tsx', import.meta.url));
+  const program = ts.createProgram([file], {
+    strict: true,
+    noEmit: true,
+    jsx: ts.JsxEmit.ReactJSX,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    types: [],
+    skipLibCheck: true,
+  });
+  const diagnostics = ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+  assert.deepEqual(diagnostics, []);
+});
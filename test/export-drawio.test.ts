@@ -0,0 +1,53 @@
+/**
+ * Tests for draw.io library export
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { drawioLibrary, drawioLibraryEntry } from '../src/export-drawio.js';
+import { compileSemanticSvgSpec } from '../src/generator-semantic.js';
+import { generateSvgMarkup } from '../src/generator.js';
+import type { SvgSpec } from '../src/schema.js';
+import type { SemanticSvgSpec } from '../src/schema-semantic.js';
+import { loadFixtures } from './golden.js';
+
+const semantic = new Map(loadFixtures<SemanticSvgSpec>('semantic'));
+
+function style(xml: string): Map<string, string> {
+  const value = /style="([^"]*)"/.exec(xml)![1];
+  return new Map(value.split(';').map(entry => entry.split('=', 2) as [string, string]));
+}
+
+test('library entry holds the SVG cropped to its content', () => {
+  const spec = compileSemanticSvgSpec(semantic.get('ball-valve')!);
+  const entry = drawioLibraryEntry(spec);
+  const image = style(entry.xml).get('image')!;
+
+  assert.ok(image.startsWith('data:image/svg+xml,'));
+  assert.equal(Buffer.from(image.slice('data:image/svg+xml,'.length), 'base64').toString(), generateSvgMarkup(spec, { padding: 0 }));
+  assert.match(entry.xml, new RegExp(`<mxGeometry width="${entry.w}" height="${entry.h}" as="geometry" />`));
+  assert.equal(entry.title, 'ball_valve_isa');
+});
+
+test('connection points sit where the symbol reaches its edges', () => {
+  const points = (name: string) => JSON.parse(style(drawioLibraryEntry(compileSemanticSvgSpec(semantic.get(name)!)).xml).get('points')!);
+
+  // Valve: both triangle tips, plus the triangles' outer edges above and below
+  assert.deepEqual(points('ball-valve'), [[0.188, 0], [0.812, 0], [1, 0.5], [0.188, 1], [0.812, 1], [0, 0.5]]);
+  // Bubble: the four sides of the circle, ignoring the label
+  assert.deepEqual(points('instrument-bubble'), [[0.5, 0], [0.927, 0.373], [0.5, 0.745], [0.073, 0.373]]);
+});
+
+test('library file wraps the entries as escaped JSON', () => {
+  const groups = new Map(loadFixtures<SvgSpec>('coordinate')).get('groups')!;
+  const library = drawioLibrary([drawioLibraryEntry(groups)]);
+
+  assert.match(library, /^<mxlibrary>\[\{"xml":"&lt;mxGraphModel&gt;/);
+  const json = library.replace(/^<mxlibrary>|<\/mxlibrary>\n$/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  assert.deepEqual(JSON.parse(json), [drawioLibraryEntry(groups)]);
+});
+
+test('specs without drawn content cannot be exported', () => {
+  const empty: SvgSpec = { name: 'empty', description: 'Nothing', viewBox: { width: 10, height: 10 }, layers: [] };
+  assert.throws(() => drawioLibraryEntry(empty), /no drawn content/);
+});
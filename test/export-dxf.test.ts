@@ -0,0 +1,147 @@
+/**
+ * Tests for DXF export
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import DxfParser from 'dxf-parser';
+import { exportDxf } from '../src/export-dxf.js';
+import { flattenPath, parsePathData } from '../src/path.js';
+import { compileSemanticSvgSpec } from '../src/generator-semantic.js';
+import type { SvgSpec, SvgLayer } from '../src/schema.js';
+import type { SemanticSvgSpec } from '../src/schema-semantic.js';
+import { assertGolden, loadFixtures } from './golden.js';
+
+/**
+ * Code/value pairs of a DXF file
+ */
+function pairs(dxf: string): [number, string][] {
+  const lines = dxf.trimEnd().split('\n');
+  const result: [number, string][] = [];
+  for (let i = 0; i < lines.length; i += 2) result.push([Number(lines[i]), lines[i + 1]]);
+  return result;
+}
+
+/**
+ * Entities of a DXF file as code -> value maps (last value wins for repeated codes)
+ */
+function entities(dxf: string): Map<number, string>[] {
+  const all = pairs(dxf);
+  const start = all.findIndex(([code, value], i) => code === 2 && value === 'ENTITIES' && all[i - 1][1] === 'SECTION');
+  const result: Map<number, string>[] = [];
+  for (const [code, value] of all.slice(start + 1)) {
+    if (code === 0 && value === 'ENDSEC') break;
+    if (code === 0) result.push(new Map());
+    result[result.length - 1].set(code, value);
+  }
+  return result;
+}
+
+function spec(layers: SvgLayer[]): SvgSpec {
+  return { name: 'test', description: 'Test', viewBox: { width: 100, height: 100 }, layers };
+}
+
+test('coordinate fixture with nested groups matches golden DXF', () => {
+  const groups = new Map(loadFixtures<SvgSpec>('coordinate')).get('groups')!;
+  const { dxf, skipped } = exportDxf(groups);
+  assert.deepEqual(skipped, []);
+  assertGolden('export/groups.dxf', dxf);
+});
+
+test('compiled semantic fixture matches golden DXF', () => {
+  const components = new Map(loadFixtures<SemanticSvgSpec>('semantic')).get('components')!;
+  assertGolden('export/components.dxf', exportDxf(compileSemanticSvgSpec(components)).dxf);
+});
+
+test('files are R2000 with a handle and owner for every object', () => {
+  const { dxf } = exportDxf(spec([{ id: 'ring', type: 'ellipse', props: { cx: 50, cy: 50, rx: 20, ry: 10 } }]));
+  const all = pairs(dxf);
+
+  assert.deepEqual(all.slice(2, 4), [[9, '$ACADVER'], [1, 'AC1015']]);
+  assert.deepEqual(all.filter(([code], i) => code === 2 && all[i - 1][1] === 'SECTION').map(([, value]) => value),
+    ['HEADER', 'CLASSES', 'TABLES', 'BLOCKS', 'ENTITIES', 'OBJECTS']);
+  assert.deepEqual(all.filter(([code], i) => code === 2 && all[i - 1][1] === 'TABLE').map(([, value]) => value),
+    ['VPORT', 'LTYPE', 'LAYER', 'STYLE', 'VIEW', 'UCS', 'APPID', 'DIMSTYLE', 'BLOCK_RECORD']);
+  assert.deepEqual(all.at(-1), [0, 'EOF']);
+
+  // Handles are unique and below $HANDSEED, owners are known handles (0 for the tables and root dictionary)
+  const handles = all.filter(([code], i) => code === 5 && all[i - 1][1] !== '$HANDSEED').map(([, value]) => parseInt(value, 16));
+  const seed = parseInt(all[all.findIndex(([, value]) => value === '$HANDSEED') + 1][1], 16);
+  assert.equal(new Set(handles).size, handles.length);
+  assert.equal(seed, Math.max(...handles) + 1);
+  for (const [, owner] of all.filter(([code]) => code === 330 || code === 350)) {
+    assert.ok(owner === '0' || handles.includes(parseInt(owner, 16)), owner);
+  }
+
+  // Every entity has a handle, the model space as owner and a layer
+  const modelSpace = all[all.findIndex(([, value]) => value === '*Model_Space') - 4][1];
+  const [ring] = entities(dxf);
+  assert.deepEqual([ring.get(0), ring.get(330), ring.get(8)], ['ELLIPSE', modelSpace, 'ring']);
+  assert.ok(ring.has(5));
+});
+
+test('golden DXF files open in an independent DXF reader', () => {
+  for (const [name, layers, counts] of [
+    ['groups', 7, { CIRCLE: 5, ELLIPSE: 1 }],
+    ['components', 12, { CIRCLE: 3, LWPOLYLINE: 6, TEXT: 1, LINE: 1 }],
+  ] as const) {
+    const dxf = readFileSync(new URL(`./golden/export/${name}.dxf`, import.meta.url), 'utf-8');
+    const parsed = new DxfParser().parseSync(dxf)!;
+    const types: Record<string, number> = {};
+    for (const entity of parsed.entities) types[entity.type] = (types[entity.type] ?? 0) + 1;
+
+    assert.equal(parsed.header.$ACADVER, 'AC1015', name);
+    assert.equal(Object.keys(parsed.tables.layer.layers).length, layers, name);
+    assert.deepEqual(types, counts, name);
+  }
+});
+
+test('entities use the layer id as DXF layer and a y axis pointing up', () => {
+  const [line, text] = entities(exportDxf(spec([
+    { id: 'pipe', type: 'line', props: { x1: 10, y1: 20, x2: 90, y2: 20 } },
+    { id: 'tag:1', type: 'text', props: { x: 50, y: 50, text: 'FIC-101 °C', fontSize: 10, textAnchor: 'end', transform: 'rotate(-90 50 50)' } },
+  ])).dxf);
+
+  assert.equal(line.get(0), 'LINE');
+  assert.equal(line.get(8), 'pipe');
+  assert.deepEqual([line.get(10), line.get(20), line.get(11), line.get(21)], ['10', '80', '90', '80']);
+
+  assert.equal(text.get(8), 'tag_1');
+  assert.equal(text.get(1), 'FIC-101 \\U+00B0C');
+  assert.equal(text.get(40), '10');
+  assert.equal(text.get(50), '90');
+  assert.equal(text.get(72), '2');
+  assert.deepEqual([text.get(11), text.get(21)], ['50', '50']);
+});
+
+test('transformed circles become ellipses along their principal axes', () => {
+  const [uniform, stretched] = entities(exportDxf(spec([
+    { id: 'uniform', type: 'circle', props: { cx: 0, cy: 0, r: 10, transform: 'translate(50 50) rotate(30) scale(2)' } },
+    { id: 'stretched', type: 'circle', props: { cx: 0, cy: 0, r: 10, transform: 'translate(50 50) rotate(90) scale(3 1)' } },
+  ])).dxf);
+
+  assert.equal(uniform.get(0), 'CIRCLE');
+  assert.equal(uniform.get(40), '20');
+  assert.equal(stretched.get(0), 'ELLIPSE');
+  // Long axis (30) now vertical
+  assert.deepEqual([stretched.get(11), stretched.get(21), stretched.get(40)], ['0', '-30', '0.333333']);
+});
+
+test('paths are flattened into one polyline per subpath', () => {
+  const flat = flattenPath(parsePathData('M0 0 L10 0 L10 10 Z M20 0 Q30 10 40 0 A5 5 0 0 1 50 0'));
+  assert.equal(flat.length, 2);
+  assert.deepEqual(flat[0], { points: [[0, 0], [10, 0], [10, 10]], closed: true });
+  assert.equal(flat[1].closed, false);
+  assert.deepEqual(flat[1].points.at(-1), [50, 0]);
+
+  const { dxf, skipped } = exportDxf(spec([
+    { id: 'outline', type: 'path', props: { d: 'M0 0 L10 0 L10 10 Z M20 0 L30 0' } },
+    { id: 'broken', type: 'path', props: { d: 'M0 0 Q' } },
+  ]));
+  assert.deepEqual(entities(dxf).map(entity => [entity.get(0), entity.get(8), entity.get(70)]), [
+    ['LWPOLYLINE', 'outline', '1'],
+    ['LWPOLYLINE', 'outline', '0'],
+  ]);
+  assert.deepEqual(skipped, ['broken']);
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for content bounds and canvas fitting
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { layerBounds, parseTransform } from '../src/bounds.js';
+import { parsePathData } from '../src/path.js';
+import { fitCanvas, parseFitSize, type Bounds } from '../src/fit.js';
+import { generateSvgMarkup } from '../src/generator.js';
+import { generateSemanticSvg } from '../src/generator-semantic.js';
+import type { SvgLayer, SvgSpec } from '../src/schema.js';
+import type { SemanticSvgSpec } from '../src/schema-semantic.js';
+import { assertGolden, assertClose, loadFixtures } from './golden.js';
+
+function bounds(type: SvgLayer['type'], props: Record<string, unknown>): Bounds {
+  const result = layerBounds({ id: 'shape', type, props: props as unknown as SvgLayer['props'] });
+  assert.ok(result, 'expected bounds');
+  return result;
+}
+
+function assertBounds(actual: Bounds, expected: Bounds): void {
+  for (const side of ['left', 'right', 'top', 'bottom'] as const) {
+    assertClose(actual[side], expected[side], side);
+  }
+}
+
+test('path bounds include curve extrema, not just end points', () => {
+  // Cubic bulging up, then a smooth cubic mirroring it below
+  assertBounds(bounds('path', { d: 'M0,0 C0,-10 10,-10 10,0 s10,10 10,0' }), { left: 0, right: 20, top: -7.5, bottom: 7.5 });
+  // Relative quadratic and smooth quadratic
+  assertBounds(bounds('path', { d: 'M10 10 q10 -20 20 0 t20 0 z' }), { left: 10, right: 50, top: 0, bottom: 20 });
+  // H and V
+  assertBounds(bounds('path', { d: 'M5 5 h10 v-20 H0 V30' }), { left: 0, right: 15, top: -15, bottom: 30 });
+});
+
+test('path bounds follow arcs through their extreme points', () => {
+  // Half circle above the chord, and below it with the sweep flag flipped
+  assertBounds(bounds('path', { d: 'M0 0 A10 10 0 0 1 20 0' }), { left: 0, right: 20, top: -10, bottom: 0 });
+  assertBounds(bounds('path', { d: 'M0 0 A10 10 0 0 0 20 0' }), { left: 0, right: 20, top: 0, bottom: 10 });
+  // Three-quarter arc around (20, 0) from its left point to its bottom point, compact flags
+  assertBounds(bounds('path', { d: 'M10 0a10 10 0 1110 10' }), { left: 10, right: 30, top: -10, bottom: 10 });
+  // Radii too small to reach the end point are scaled up
+  assertBounds(bounds('path', { d: 'M0 0 A1 1 0 0 1 20 0' }), { left: 0, right: 20, top: -10, bottom: 0 });
+});
+
+test('bounds apply the layer transform and half the stroke width', () => {
+  assertBounds(bounds('circle', { cx: 0, cy: 0, r: 10, transform: 'scale(2, 1) rotate(45)' }), { left: -20, right: 20, top: -10, bottom: 10 });
+
+  const half = Math.SQRT2 * 5;
+  assertBounds(
+    bounds('rect', { x: 0, y: 0, width: 10, height: 10, transform: 'rotate(45 5 5)', stroke: '#000', strokeWidth: 2 }),
+    { left: 5 - half - 1, right: 5 + half + 1, top: 5 - half - 1, bottom: 5 + half + 1 }
+  );
+  assertBounds(bounds('line', { x1: 0, y1: 0, x2: 10, y2: 0, stroke: 'none', strokeWidth: 4 }), { left: 0, right: 10, top: 0, bottom: 0 });
+  assert.equal(parseTransform('rotate(45) wobble(2)'), null);
+});
+
+test('group bounds combine nested transforms and the inherited stroke', () => {
+  const groups = new Map(loadFixtures<SvgSpec>('coordinate')).get('groups')!;
+  // Ears scaled 1.2 around (90,70) and (210,70), including the scaled 2px stroke; face below
+  assertBounds(layerBounds(groups.layers[0])!, { left: 40.8, right: 259.2, top: 20.8, bottom: 221 });
+});
+
+test('text bounds are estimated from font size and anchor', () => {
+  assertBounds(bounds('text', { x: 50, y: 50, text: 'Hi', textAnchor: 'middle' }), { left: 40.4, right: 59.6, top: 37.2, bottom: 53.2 });
+  assertBounds(
+    bounds('text', { x: 50, y: 50, text: 'Hi', fontSize: 10, textAnchor: 'end', dominantBaseline: 'hanging' }),
+    { left: 38, right: 50, top: 50, bottom: 60 }
+  );
+});
+
+test('malformed path data is reported with its position', () => {
+  assert.throws(() => parsePathData('M0 0 L10 x'), /Invalid path data at 9: expected a number/);
+  assert.throws(() => parsePathData('L10 10'), /path must start with M/);
+  assert.throws(() => parsePathData('M0 0 A5 5 0 2 0 10 10'), /arc flag/);
+  assert.equal(layerBounds({ id: 'bad', type: 'path', props: { d: 'M0 0 Q' } }), null);
+});
+
+test('fitted canvas adds padding, or centers content in a fixed size', () => {
+  const content = { left: 10, right: 50, top: 20, bottom: 40 };
+
+  assert.deepEqual(fitCanvas(content, { padding: 5 }), {
+    viewBox: { minX: 5, minY: 15, width: 50, height: 30 },
+    width: 50,
+    height: 30,
+  });
+
+  // Wide content in a square: viewBox grows vertically around the content center
+  assert.deepEqual(fitCanvas(content, { padding: 0, size: { width: 24, height: 24 } }), {
+    viewBox: { minX: 10, minY: 10, width: 40, height: 40 },
+    width: 24,
+    height: 24,
+  });
+
+  assert.deepEqual(parseFitSize('24'), { width: 24, height: 24 });
+  assert.deepEqual(parseFitSize('64x48'), { width: 64, height: 48 });
+  assert.equal(parseFitSize('0'), null);
+  assert.equal(parseFitSize('big'), null);
+});
+
+test('coordinate fixture fitted into a 24x24 icon matches golden output', () => {
+  const spec = new Map(loadFixtures<SvgSpec>('coordinate')).get('all-shapes')!;
+  assertGolden('coordinate/all-shapes-fit-24.svg', generateSvgMarkup(spec, { padding: 2, size: { width: 24, height: 24 } }));
+});
+
+test('semantic fixture fitted with padding matches golden output', () => {
+  const spec = new Map(loadFixtures<SemanticSvgSpec>('semantic')).get('connectors')!;
+  assertGolden('semantic/connectors-fit.svg', generateSemanticSvg(spec, { padding: 10 }));
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for LLM record/replay fixtures
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RECORD_DIR_ENV, REPLAY_DIR_ENV, fixtureKey, type LLMFixture } from '../src/fixtures.js';
+import { registerProvider, setCurrentProvider } from '../src/providers.js';
+import { generateSvg } from '../src/llm.js';
+import { setProgressStream } from '../src/log.js';
+
+const SPEC = JSON.stringify({
+  name: 'dot',
+  description: 'a dot',
+  viewBox: { width: 10, height: 10 },
+  layers: [{ id: 'dot', type: 'circle', props: { cx: 5, cy: 5, r: 2 } }],
+});
+
+// Live provider stand-in: research calls get a description, generation calls the spec
+let liveCalls = 0;
+registerProvider({
+  name: 'scripted',
+  description: 'test',
+  requiredEnv: [],
+  model: () => 'scripted-1',
+  async complete(prompt, systemPrompt) {
+    liveCalls++;
+    return systemPrompt ? SPEC : `A circle for: ${prompt.length} chars`;
+  },
+});
+
+let dir: string;
+const savedProvider = process.env.LLM_PROVIDER;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'aisvg-fixtures-'));
+  setProgressStream(new PassThrough());
+});
+
+after(() => {
+  setProgressStream(process.stdout);
+  delete process.env[RECORD_DIR_ENV];
+  delete process.env[REPLAY_DIR_ENV];
+  if (savedProvider === undefined) delete process.env.LLM_PROVIDER;
+  else process.env.LLM_PROVIDER = savedProvider;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('a recorded flow replays offline with the same result', async () => {
+  process.env[RECORD_DIR_ENV] = dir;
+  setCurrentProvider('scripted');
+  const recorded = await generateSvg('a dot');
+  assert.equal(liveCalls, 2);
+
+  // One fixture per request, keyed by prompt and system prompt
+  const files = readdirSync(dir).sort();
+  assert.equal(files.length, 2);
+  for (const file of files) {
+    const fixture: LLMFixture = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+    assert.equal(file, `${fixtureKey(fixture.prompt, fixture.systemPrompt)}.json`);
+    assert.equal(fixture.provider, 'scripted');
+    assert.equal(fixture.model, 'scripted-1');
+  }
+
+  delete process.env[RECORD_DIR_ENV];
+  process.env[REPLAY_DIR_ENV] = dir;
+  setCurrentProvider('replay');
+  const replayed = await generateSvg('a dot');
+
+  assert.equal(liveCalls, 2);
+  assert.deepEqual(replayed, recorded);
+  assert.equal(readdirSync(dir).length, 2);
+});
+
+test('an unrecorded request fails naming the missing fixture', async () => {
+  process.env[REPLAY_DIR_ENV] = dir;
+  setCurrentProvider('replay');
+
+  await assert.rejects(generateSvg('a square'), (error: Error) => {
+    assert.match(error.message, /^Unrecorded LLM request \(fixture [0-9a-f]{16}\.json not found in /);
+    assert.ok(error.message.includes(dir));
+    assert.match(error.message, /Prompt: "Analyze this request: "a square"/);
+    assert.match(error.message, new RegExp(`Record it by running once with ${RECORD_DIR_ENV}=`));
+    return true;
+  });
+  assert.equal(liveCalls, 2);
+});
@@ -0,0 +1,437 @@
+/**
+ * Golden-file and numeric tests for the semantic generator
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  generateSemanticSvg,
+  resolveSemanticLayout,
+  calculateBounds,
+  calculatePosition,
+  calculateTriangleVertices,
+  rightAngleCorners,
+  calculateConnector,
+  contactPoint,
+  compileSemanticSvgSpec,
+  type CalculatedShape,
+} from '../src/generator-semantic.js';
+import { generateSvgMarkup } from '../src/generator.js';
+import { validateSemanticSvgSpec } from '../src/validate-semantic.js';
+import { validateSvgSpec } from '../src/validate.js';
+import type { SemanticSvgSpec, SemanticLayer, ShapeDefinition, Alignment, TriangleShape, ConnectorShape } from '../src/schema-semantic.js';
+import { assertGolden, assertClose, loadFixtures } from './golden.js';
+
+const ALIGNMENTS: Alignment[] = [
+  'tip_touches_left', 'tip_touches_right',
+  'tip_touches_top', 'tip_touches_bottom',
+  'edge_touches_left', 'edge_touches_right',
+  'edge_touches_top', 'edge_touches_bottom',
+  'center_aligned', 'adjacent_left', 'adjacent_right',
+];
+
+const ORIENTATIONS: TriangleShape['orientation'][] = ['pointing_up', 'pointing_down', 'pointing_left', 'pointing_right'];
+
+// Every shape variant the generator distinguishes
+const SHAPE_VARIANTS: [string, ShapeDefinition][] = [
+  ...ORIENTATIONS.map((orientation): [string, ShapeDefinition] => [
+    `triangle-equilateral-${orientation}`,
+    { shapeType: 'triangle', triangleType: 'equilateral', orientation, size: 40 },
+  ]),
+  ...ORIENTATIONS.map((orientation): [string, ShapeDefinition] => [
+    `triangle-isosceles-${orientation}`,
+    { shapeType: 'triangle', triangleType: 'isosceles', orientation, size: 40, height: 60 },
+  ]),
+  ...ORIENTATIONS.flatMap(orientation => rightAngleCorners(orientation).map((rightAngleCorner): [string, ShapeDefinition] => [
+    `triangle-right-${orientation}-${rightAngleCorner}`,
+    { shapeType: 'triangle', triangleType: 'right', orientation, size: 40, height: 30, rightAngleCorner },
+  ])),
+  ['rectangle', { shapeType: 'rectangle', width: 40, height: 20 }],
+  ['circle', { shapeType: 'circle', radius: 15 }],
+  ['ellipse', { shapeType: 'ellipse', radiusX: 20, radiusY: 10 }],
+  ['line', { shapeType: 'line', length: 40, angle: 30 }],
+  ['diamond', { shapeType: 'diamond', size: 30 }],
+  ['text', { shapeType: 'text', text: 'Label', fontSize: 12 }],
+];
+
+const STYLE = { fill: 'none', stroke: '#000', strokeWidth: 1 };
+
+/**
+ * Spec with a centered reference rectangle and one layer per alignment
+ */
+function alignmentMatrixSpec(name: string, shape: ShapeDefinition): SemanticSvgSpec {
+  return {
+    name,
+    description: `${name} in every alignment`,
+    canvasSize: { width: 400, height: 400 },
+    layers: [
+      {
+        id: 'reference',
+        shape: { shapeType: 'rectangle', width: 100, height: 60 },
+        position: { type: 'centered' },
+        style: STYLE,
+      },
+      ...ALIGNMENTS.map((alignment): SemanticLayer => ({
+        id: alignment,
+        shape,
+        position: { type: 'relative', relativeTo: 'reference', alignment, offset: 5 },
+        style: STYLE,
+      })),
+    ],
+  };
+}
+
+for (const [name, spec] of loadFixtures<SemanticSvgSpec>('semantic')) {
+  test(`semantic fixture ${name} is a valid spec`, () => {
+    assert.deepEqual(validateSemanticSvgSpec(spec), []);
+  });
+
+  test(`semantic fixture ${name} matches golden output`, () => {
+    assertGolden(`semantic/${name}.svg`, generateSemanticSvg(spec));
+  });
+
+  test(`semantic fixture ${name} compiles to a valid coordinate spec`, () => {
+    const compiled = compileSemanticSvgSpec(spec);
+    assert.deepEqual(validateSvgSpec(compiled), []);
+    assert.equal(generateSvgMarkup(compiled), generateSemanticSvg(spec));
+  });
+}
+
+for (const [name, shape] of SHAPE_VARIANTS) {
+  test(`semantic ${name} in every alignment matches golden output`, () => {
+    const spec = alignmentMatrixSpec(name, shape);
+    assert.deepEqual(validateSemanticSvgSpec(spec), []);
+    assertGolden(`semantic/alignments/${name}.svg`, generateSemanticSvg(spec));
+  });
+}
+
+test('calculateBounds returns exact bounds for each shape', () => {
+  const cases: [ShapeDefinition, CalculatedShape['bounds']][] = [
+    [{ shapeType: 'circle', radius: 10 }, { left: 90, right: 110, top: 40, bottom: 60 }],
+    [{ shapeType: 'rectangle', width: 40, height: 20 }, { left: 80, right: 120, top: 40, bottom: 60 }],
+    [{ shapeType: 'diamond', size: 30 }, { left: 85, right: 115, top: 35, bottom: 65 }],
+    // 2 lines x 1.5 line height x 10px; 4 chars x 0.6 x 10px
+    [{ shapeType: 'text', text: 'ab\nwxyz', fontSize: 10, lineHeight: 1.5 }, { left: 88, right: 112, top: 35, bottom: 65 }],
+    [
+      { shapeType: 'triangle', triangleType: 'equilateral', orientation: 'pointing_up', size: 40 },
+      { left: 80, right: 120, top: 50 - 10 * Math.sqrt(3), bottom: 50 + 10 * Math.sqrt(3) },
+    ],
+    [
+      { shapeType: 'triangle', triangleType: 'equilateral', orientation: 'pointing_right', size: 40 },
+      { left: 100 - 10 * Math.sqrt(3), right: 100 + 10 * Math.sqrt(3), top: 30, bottom: 70 },
+    ],
+    [
+      { shapeType: 'triangle', triangleType: 'isosceles', orientation: 'pointing_down', size: 40, height: 60 },
+      { left: 80, right: 120, top: 20, bottom: 80 },
+    ],
+    [
+      { shapeType: 'triangle', triangleType: 'right', orientation: 'pointing_left', size: 40, height: 30 },
+      { left: 85, right: 115, top: 30, bottom: 70 },
+    ],
+  ];
+
+  for (const [shape, expected] of cases) {
+    const bounds = calculateBounds(shape, 100, 50);
+    for (const side of ['left', 'right', 'top', 'bottom'] as const) {
+      assertClose(bounds[side], expected[side], `${shape.shapeType}.${side}`);
+    }
+  }
+});
+
+test('triangle vertices follow type, orientation and corner', () => {
+  const vertices = (shape: Partial<TriangleShape>) => calculateTriangleVertices({
+    shapeType: 'triangle',
+    triangleType: 'isosceles',
+    orientation: 'pointing_up',
+    size: 40,
+    ...shape,
+  }, 0, 0);
+
+  // Isosceles by height: tip centered over the base
+  assert.deepEqual(vertices({ height: 60 }), [[0, -30], [-20, 30], [20, 30]]);
+
+  // Isosceles by apex angle: 90 degrees over a 40 base gives height 20
+  const [tip, baseLeft] = vertices({ apexAngle: 90 });
+  assertClose(tip[1], -10, 'tip y');
+  assertClose(baseLeft[1], 10, 'base y');
+
+  // Right triangle: tip sits over the square corner
+  assert.deepEqual(
+    vertices({ triangleType: 'right', height: 30, rightAngleCorner: 'bottom_right' }),
+    [[20, -15], [-20, 15], [20, 15]]
+  );
+  assert.deepEqual(
+    vertices({ triangleType: 'right', orientation: 'pointing_right', height: 30, rightAngleCorner: 'top_left' }),
+    [[15, -20], [-15, -20], [-15, 20]]
+  );
+});
+
+test('labels align to the edges of other shapes', () => {
+  const [, spec] = loadFixtures<SemanticSvgSpec>('semantic').find(([name]) => name === 'instrument-bubble')!;
+  const shapes = new Map(resolveSemanticLayout(spec).map(({ layer, shape }) => [layer.id, shape]));
+
+  // "FT" sits 4px above the divider, "101" 4px below, caption 6px below the bubble
+  assertClose(shapes.get('function_letters')!.bounds.bottom, 96, 'FT bottom');
+  assertClose(shapes.get('loop_number')!.bounds.top, 104, '101 top');
+  assertClose(shapes.get('caption')!.bounds.top, 146, 'caption top');
+});
+
+test('calculatePosition places layers relative to a reference', () => {
+  const reference: CalculatedShape = {
+    id: 'ref',
+    centerX: 100,
+    centerY: 100,
+    bounds: { left: 80, right: 120, top: 90, bottom: 110 },
+  };
+  const shapes = new Map([['ref', reference]]);
+  const layer = (position: SemanticLayer['position']): SemanticLayer => ({
+    id: 'test',
+    shape: { shapeType: 'circle', radius: 5 },
+    position,
+    style: {},
+  });
+
+  assert.deepEqual(calculatePosition(layer({ type: 'centered' }), 300, 200, shapes), { x: 150, y: 100 });
+  assert.deepEqual(calculatePosition(layer({ type: 'absolute', x: 7, y: 9 }), 300, 200, shapes), { x: 7, y: 9 });
+  assert.deepEqual(
+    calculatePosition(layer({ type: 'relative', relativeTo: 'ref', alignment: 'center_aligned' }), 300, 200, shapes),
+    { x: 100, y: 100 }
+  );
+  assert.throws(
+    () => calculatePosition(layer({ type: 'relative', relativeTo: 'missing' }), 300, 200, shapes),
+    /Reference shape "missing" not found/
+  );
+});
+
+test('resolveSemanticLayout resolves the ball valve in dependency order', () => {
+  const [, spec] = loadFixtures<SemanticSvgSpec>('semantic').find(([name]) => name === 'ball-valve')!;
+  const resolved = resolveSemanticLayout(spec);
+
+  assert.deepEqual(resolved.map(r => r.layer.id), ['center_circle', 'left_triangle', 'right_triangle']);
+
+  const circle = resolved[0].shape;
+  assert.deepEqual(circle.bounds, { left: 170, right: 230, top: 170, bottom: 230 });
+
+  // Triangle tips touch the circle's left and right edges
+  assertClose(resolved[1].shape.bounds.right, 170, 'left triangle tip');
+  assertClose(resolved[2].shape.bounds.left, 230, 'right triangle tip');
+});
+
+test('calculatePosition uses both shapes\' geometry for contact alignments', () => {
+  const reference: CalculatedShape = {
+    id: 'ref',
+    centerX: 100,
+    centerY: 100,
+    bounds: { left: 80, right: 120, top: 90, bottom: 110 },
+  };
+  const shapes = new Map([['ref', reference]]);
+  const place = (shape: ShapeDefinition, alignment: Alignment, offset?: number) => calculatePosition({
+    id: 'test',
+    shape,
+    position: { type: 'relative', relativeTo: 'ref', alignment, offset },
+    style: {},
+  }, 400, 400, shapes);
+
+  const rect: ShapeDefinition = { shapeType: 'rectangle', width: 30, height: 10 };
+
+  // Adjacent/edge alignments sit beside the reference, offset is a gap
+  assert.deepEqual(place(rect, 'adjacent_right'), { x: 135, y: 100 });
+  assert.deepEqual(place(rect, 'adjacent_left', 4), { x: 61, y: 100 });
+  assert.deepEqual(place(rect, 'edge_touches_top'), { x: 100, y: 85 });
+  assert.deepEqual(place(rect, 'edge_touches_bottom', 2), { x: 100, y: 117 });
+
+  // Right triangle: its tip (not its center) lines up with the reference edge
+  const right: ShapeDefinition = {
+    shapeType: 'triangle',
+    triangleType: 'right',
+    orientation: 'pointing_right',
+    size: 40,
+    height: 30,
+    rightAngleCorner: 'top_left',
+  };
+  const center = place(right, 'tip_touches_left');
+  const [tip] = calculateTriangleVertices(right as TriangleShape, center.x, center.y);
+  assertClose(tip[0], 80, 'tip x');
+  assertClose(tip[1], 100, 'tip y');
+});
+
+test('connectors attach to anchors and route with elbows', () => {
+  const [, spec] = loadFixtures<SemanticSvgSpec>('semantic').find(([name]) => name === 'connectors')!;
+  const resolved = new Map(resolveSemanticLayout(spec).map(r => [r.layer.id, r]));
+
+  // pump.right (85,160) -> valve.left (185,160)
+  assert.deepEqual(resolved.get('suction_pipe')!.connector, { points: [[85, 160], [185, 160]], arrowheads: {} });
+
+  // valve.right (215,160) -> tank.bottom (340,130): one elbow, trimmed by an 8px arrowhead
+  const discharge = resolved.get('discharge_pipe')!.connector!;
+  assert.deepEqual(discharge.points, [[215, 160], [340, 160], [340, 138]]);
+  assert.deepEqual(discharge.arrowheads.end, [[340, 130], [344, 138], [336, 138]]);
+
+  // Unanchored start faces the valve (transmitter.bottom); both ends vertical, so the elbow is at mid height
+  const signal = resolved.get('signal')!;
+  assert.deepEqual(signal.connector!.points, [[130, 76], [130, 107.5], [200, 107.5], [200, 139]]);
+  assert.deepEqual(signal.shape.bounds, { left: 127, right: 203, top: 70, bottom: 145 });
+});
+
+test('straight connectors between unanchored layers face each other', () => {
+  const shapes = new Map<string, CalculatedShape>([
+    ['a', { id: 'a', centerX: 0, centerY: 0, bounds: { left: -10, right: 10, top: -10, bottom: 10 } }],
+    ['b', { id: 'b', centerX: 20, centerY: 100, bounds: { left: 10, right: 30, top: 90, bottom: 110 } }],
+  ]);
+  const { points } = calculateConnector({ shapeType: 'connector', from: 'a', to: 'b' }, 1, shapes);
+  assert.deepEqual(points, [[0, 10], [20, 90]]);
+});
+
+// Two 20x20 boxes placed edge to edge (gap 0) or 4 apart, joined right to left
+function touchingBoxes(gap: number, connector: Partial<ConnectorShape>): SemanticSvgSpec {
+  const box = { shapeType: 'rectangle', width: 20, height: 20 } as const;
+  return {
+    name: 'touching',
+    description: 'd',
+    canvasSize: { width: 100, height: 40 },
+    layers: [
+      { id: 'a', shape: box, position: { type: 'absolute', x: 20, y: 20 }, style: STYLE },
+      { id: 'b', shape: box, position: { type: 'relative', relativeTo: 'a', alignment: 'adjacent_right', offset: gap }, style: STYLE },
+      { id: 'link', shape: { shapeType: 'connector', from: 'a.right', to: 'b.left', ...connector }, style: STYLE },
+    ],
+  };
+}
+
+test('zero-length connectors render as a point without arrowheads', () => {
+  for (const routing of ['straight', 'orthogonal'] as const) {
+    const spec = touchingBoxes(0, { routing, arrowheads: 'both' });
+    const link = resolveSemanticLayout(spec).find(r => r.layer.id === 'link')!;
+    assert.deepEqual(link.connector, { points: [[30, 20], [30, 20]], arrowheads: {} }, routing);
+
+    const svg = generateSemanticSvg(spec);
+    assert.doesNotMatch(svg, /NaN/, routing);
+    assert.match(svg, /<line id="link" [^>]*x1="30" y1="20" x2="30" y2="20"/, routing);
+  }
+});
+
+test('arrowheads are capped at half a short segment', () => {
+  const spec = touchingBoxes(4, { arrowheads: 'both', arrowSize: 10 });
+  const { connector } = resolveSemanticLayout(spec).find(r => r.layer.id === 'link')!;
+
+  // Both 2px heads meet in the middle instead of drawing the line backwards
+  assert.deepEqual(connector, {
+    points: [[32, 20], [32, 20]],
+    arrowheads: {
+      start: [[30, 20], [32, 19], [32, 21]],
+      end: [[34, 20], [32, 21], [32, 19]],
+    },
+  });
+
+  const end = resolveSemanticLayout(touchingBoxes(4, { arrowheads: 'end', arrowSize: 10 })).find(r => r.layer.id === 'link')!;
+  assert.deepEqual(end.connector!.points, [[30, 20], [32, 20]]);
+});
+
+test('validation reports over- and under-constrained positions', () => {
+  const [, base] = loadFixtures<SemanticSvgSpec>('semantic').find(([name]) => name === 'layout-groups')!;
+  const spec = structuredClone(base);
+  const layer = (id: string) => spec.layers.find(l => l.id === id)!;
+
+  layer('p2').position = { type: 'centered' };
+  delete layer('tank').position;
+  layer('gauge').position = { type: 'constrained', horizontal: { value: 10, relativeTo: 'p1' } };
+
+  assert.deepEqual(validateSemanticSvgSpec(spec), [
+    { path: 'layers[0].position', message: 'under-constrained: required unless the layer is in a layout group' },
+    { path: 'layers[2].position', message: 'over-constrained: layer is positioned by group "pumps"' },
+    { path: 'layers[6].position.horizontal', message: 'over-constrained: use only one of value, relativeTo or between (got value, relativeTo)' },
+    { path: 'layers[6].position.vertical', message: 'under-constrained: required for constrained positioning' },
+  ]);
+});
+
+test('layout groups pack members and position as a whole', () => {
+  const [, spec] = loadFixtures<SemanticSvgSpec>('semantic').find(([name]) => name === 'layout-groups')!;
+  const shapes = new Map(resolveSemanticLayout(spec).map(({ layer, shape }) => [layer.id, shape]));
+
+  // Row of r=15 circles, 20 apart, centered at x=120 and level with the tank
+  assert.deepEqual(['p1', 'p2', 'p3'].map(id => [shapes.get(id)!.centerX, shapes.get(id)!.centerY]), [[70, 80], [120, 80], [170, 80]]);
+  // Label sits under the group's bounding box
+  assertClose(shapes.get('pump_label')!.bounds.top, 101, 'label top');
+  // Midway between p3 and the tank
+  assert.equal(shapes.get('valve')!.centerX, 250);
+  // Left edge aligned with p1, vertically between tank and legend centers
+  assert.deepEqual(shapes.get('gauge')!.bounds.left, 55);
+  assert.equal(shapes.get('gauge')!.centerY, 170);
+  // 2-column grid with equal 30x10 cells, members top-left aligned in their cells
+  assert.deepEqual(shapes.get('key_pump')!.bounds, { left: 297.5, right: 307.5, top: 262.5, bottom: 272.5 });
+});
+
+test('component instances are placed by their transformed bounds', () => {
+  const [, spec] = loadFixtures<SemanticSvgSpec>('semantic').find(([name]) => name === 'components')!;
+  const resolved = new Map(resolveSemanticLayout(spec).map(r => [r.layer.id, r]));
+
+  // 80x40 valve, rotated 90 degrees and scaled by 0.5 -> 20x40, 30 below the inlet valve
+  const bypass = resolved.get('bypass_valve')!;
+  assert.deepEqual(bypass.shape.bounds, { left: 90, right: 110, top: 150, bottom: 190 });
+  assert.equal(bypass.instance!.transform, 'translate(100,170) rotate(90) scale(0.5)');
+
+  // Instance style applies to every layer, overrides to one
+  const outlet = resolved.get('outlet_valve')!.instance!.layers.map(({ layer }) => [layer.id, layer.style.fill, layer.style.stroke]);
+  assert.deepEqual(outlet, [['outlet_valve-body', '#c00', '#c00'], ['outlet_valve-left', 'none', '#c00'], ['outlet_valve-right', 'none', '#c00']]);
+});
+
+test('validation checks component references', () => {
+  const [, base] = loadFixtures<SemanticSvgSpec>('semantic').find(([name]) => name === 'components')!;
+  const spec = structuredClone(base);
+  spec.layers[0].shape = { shapeType: 'component', component: 'gate_valve' };
+  spec.layers[1].shape = { shapeType: 'component', component: 'ball_valve', overrides: { stem: { fill: '#000' } } };
+  spec.components![0].layers.push({ id: 'nested', shape: { shapeType: 'component', component: 'ball_valve' }, position: { type: 'centered' }, style: {} });
+
+  assert.deepEqual(validateSemanticSvgSpec(spec), [
+    { path: 'components[0].layers[3].shape.shapeType', message: 'component instances can\'t be nested inside components' },
+    { path: 'layers[0].shape.component', message: 'unknown component "gate_valve" (declared: ball_valve)' },
+    { path: 'layers[1].shape.overrides.stem', message: 'component "ball_valve" has no layer "stem"' },
+  ]);
+});
+
+test('rotated, flipped and scaled shapes report their real bounds', () => {
+  const rect: ShapeDefinition = { shapeType: 'rectangle', width: 40, height: 20, rotation: 45 };
+  const half = 30 / Math.SQRT2;
+  const bounds = calculateBounds(rect, 0, 0);
+  assertClose(bounds.right, half, 'rotated rect right');
+  assertClose(bounds.bottom, half, 'rotated rect bottom');
+
+  // Rotating by 90 degrees swaps width and height exactly
+  assert.deepEqual(calculateBounds({ ...rect, rotation: 90 } as ShapeDefinition, 100, 100), { left: 90, right: 110, top: 80, bottom: 120 });
+
+  const ellipse: ShapeDefinition = { shapeType: 'ellipse', radiusX: 30, radiusY: 10, rotation: 30, scale: 2 };
+  assertClose(calculateBounds(ellipse, 0, 0).bottom, 2 * Math.sqrt(300), 'rotated ellipse bottom');
+
+  // Flipping a right triangle horizontally moves its square corner to the other side
+  const ramp: ShapeDefinition = { shapeType: 'triangle', triangleType: 'right', orientation: 'pointing_up', size: 40, height: 30, flip: 'horizontal' };
+  assert.deepEqual(contactPoint(ramp, 'top'), [20, -15]);
+});
+
+test('alignment uses the contact points of rotated shapes', () => {
+  const [, spec] = loadFixtures<SemanticSvgSpec>('semantic').find(([name]) => name === 'transforms')!;
+  const shapes = new Map(resolveSemanticLayout(spec).map(({ layer, shape }) => [layer.id, shape]));
+
+  // The rotated triangle's tip (now pointing up) touches the bottom of the hub
+  const outlet = shapes.get('outlet')!;
+  assertClose(outlet.bounds.top, 123, 'outlet top');
+  assertClose(outlet.centerX, 100, 'outlet centerX');
+
+  // A 30 degree ellipse's topmost point sits 20px left of its center
+  const disc = shapes.get('disc')!;
+  assertClose(disc.centerX, 270, 'disc centerX');
+  assertClose(disc.bounds.top, shapes.get('tag')!.bounds.bottom + 10, 'disc top');
+});
+
+test('compiled spec keeps layer ids and descriptions', () => {
+  const [, spec] = loadFixtures<SemanticSvgSpec>('semantic').find(([name]) => name === 'instrument-bubble')!;
+  const compiled = compileSemanticSvgSpec(spec);
+
+  assert.deepEqual(compiled.viewBox, { width: spec.canvasSize.width, height: spec.canvasSize.height });
+  assert.deepEqual(compiled.layers.map(layer => layer.id), ['bubble', 'divider', 'function_letters', 'loop_number', 'caption']);
+  assert.deepEqual(compiled.layers.find(layer => layer.id === 'bubble')?.props, { fill: 'none', stroke: '#000', strokeWidth: 2, cx: 100, cy: 100, r: 40 });
+  assert.equal(compiled.layers[4].description, spec.layers.find(layer => layer.id === 'caption')?.description);
+
+  // Multi-line text stays one layer, its y at the first line
+  assert.deepEqual(compiled.layers[4].props, {
+    fill: '#333', x: 100, y: 152, text: 'Flow transmitter\nfield mounted', fontSize: 10, textAnchor: 'middle', dominantBaseline: 'middle',
+  });
+});
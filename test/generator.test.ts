@@ -0,0 +1,85 @@
+/**
+ * Golden-file tests for the coordinate generator
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateSvgMarkup } from '../src/generator.js';
+import { layerBounds } from '../src/bounds.js';
+import { validateSvgSpec, SHAPE_PROPS } from '../src/validate.js';
+import type { SvgSpec } from '../src/schema.js';
+import { assertGolden, loadFixtures } from './golden.js';
+
+const fixtures = loadFixtures<SvgSpec>('coordinate');
+
+for (const [name, spec] of fixtures) {
+  test(`coordinate fixture ${name} is a valid spec`, () => {
+    assert.deepEqual(validateSvgSpec(spec), []);
+  });
+
+  test(`coordinate fixture ${name} matches golden output`, () => {
+    assertGolden(`coordinate/${name}.svg`, generateSvgMarkup(spec));
+  });
+}
+
+test('coordinate fixtures cover every shape type', () => {
+  const covered = new Set(fixtures.flatMap(([, spec]) => spec.layers.map(layer => layer.type)));
+  for (const type of Object.keys(SHAPE_PROPS)) {
+    assert.ok(covered.has(type as SvgSpec['layers'][number]['type']), `no fixture layer of type "${type}"`);
+  }
+});
+
+test('def references must point at a def of the right type', () => {
+  const spec = structuredClone(new Map(fixtures).get('defs')!) as SvgSpec;
+  const props = (id: string) => spec.layers.find(layer => layer.id === id)!.props as unknown as Record<string, unknown>;
+  props('background').fill = 'url(#missing)';
+  props('ball').fill = 'url(#window)';
+  props('view').clipPath = 'window';
+  props('dimension').markerEnd = 'url(#sky)';
+  spec.defs!.push({ id: 'sky', type: 'clipPath', layers: [] });
+
+  assert.deepEqual(validateSvgSpec(spec), [
+    { path: 'defs[5].layers', message: 'a clipPath needs at least one layer' },
+    { path: 'defs[5].id', message: 'duplicate def id "sky"' },
+    { path: 'layers[0].props.fill', message: 'unknown def "missing" (defined: sky, shade, hatch, window, arrow)' },
+    { path: 'layers[1].props.fill', message: '"window" is a clipPath, expected a linearGradient or radialGradient or pattern' },
+    { path: 'layers[3].props.clipPath', message: 'expected url(#id) referencing a clipPath def (got "window")' },
+    { path: 'layers[4].props.markerEnd', message: '"sky" is a linearGradient, expected a marker' },
+  ]);
+});
+
+test('group layers need children, and only groups may have them', () => {
+  const spec = structuredClone(new Map(fixtures).get('groups')!) as SvgSpec;
+  const head = spec.layers[0];
+  head.children![0].children = [];
+  head.children![2].children = [];
+  head.children!.push({ id: 'whiskers', type: 'group', props: { stroke: 'url(#missing)' } });
+
+  assert.deepEqual(validateSvgSpec(spec), [
+    { path: 'layers[0].children[0].children', message: 'a group needs at least one child layer' },
+    { path: 'layers[0].children[2].children', message: 'only group layers can have children' },
+    { path: 'layers[0].children[4].children', message: 'required array' },
+    { path: 'layers[0].children[4].props.stroke', message: 'unknown def "missing" (no defs defined)' },
+  ]);
+});
+
+test('multi-line text is one element with a tspan per line', () => {
+  const spec: SvgSpec = {
+    name: 'note',
+    description: 'd',
+    viewBox: { width: 100, height: 100 },
+    layers: [{ id: 'note', type: 'text', props: { x: 10, y: 20, text: 'first\nsecond <2>', fontSize: 10, lineHeight: 1.5 } }],
+  };
+  assert.deepEqual(validateSvgSpec(spec), []);
+  assert.match(generateSvgMarkup(spec), new RegExp([
+    '  <text id="note" font-size="10">',
+    '    <tspan x="10" y="20">first</tspan>',
+    '    <tspan x="10" y="35">second &lt;2&gt;</tspan>',
+    '  </text>',
+  ].join('\n')));
+
+  // Bounds cover every line: 8px above the first baseline to 2px below the last
+  const bounds = layerBounds(spec.layers[0])!;
+  assert.equal(bounds.top, 12);
+  assert.equal(bounds.bottom, 37);
+});
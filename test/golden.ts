@@ -0,0 +1,56 @@
+/**
+ * Golden File Helpers
+ *
+ * Compares generated output against files in test/golden/.
+ * Run with UPDATE_GOLDEN=1 (npm run test:update) to rewrite them after an intentional change.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { join, dirname, basename } from 'path';
+import { fileURLToPath } from 'url';
+
+const TEST_DIR = dirname(fileURLToPath(import.meta.url));
+const GOLDEN_DIR = join(TEST_DIR, 'golden');
+const FIXTURE_DIR = join(TEST_DIR, 'fixtures');
+
+export const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+/**
+ * Assert that output matches test/golden/<name>, or rewrite it in update mode
+ */
+export function assertGolden(name: string, actual: string): void {
+  const filepath = join(GOLDEN_DIR, name);
+
+  if (UPDATE_GOLDEN) {
+    mkdirSync(dirname(filepath), { recursive: true });
+    writeFileSync(filepath, actual);
+    return;
+  }
+
+  if (!existsSync(filepath)) {
+    assert.fail(`Missing golden file ${name} (run "npm run test:update" to create it)`);
+  }
+  assert.equal(actual, readFileSync(filepath, 'utf-8'), `Output differs from golden file ${name}`);
+}
+
+/**
+ * Load every JSON fixture in test/fixtures/<dir> as [name, spec] pairs
+ */
+export function loadFixtures<T>(dir: string): [string, T][] {
+  const fixtureDir = join(FIXTURE_DIR, dir);
+  return readdirSync(fixtureDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => [basename(file, '.json'), JSON.parse(readFileSync(join(fixtureDir, file), 'utf-8'))]);
+}
+
+/**
+ * Assert that two numbers are equal within a tolerance
+ */
+export function assertClose(actual: number, expected: number, message?: string, epsilon = 1e-9): void {
+  assert.ok(
+    Math.abs(actual - expected) <= epsilon,
+    `${message ? `${message}: ` : ''}expected ${expected}, got ${actual}`
+  );
+}
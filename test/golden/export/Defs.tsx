@@ -0,0 +1,52 @@
+// Generated by aisvg from "defs": Gradient, hatching pattern, clip path and arrow marker definitions
+import { useId } from 'react';
+
+export interface DefsProps {
+  size?: number | string;
+  className?: string;
+  title?: string;
+  hatchLineStroke?: string;
+  viewFill?: string;
+}
+
+export function Defs({
+  size = 300,
+  className,
+  title,
+  hatchLineStroke = "#000",
+  viewFill = "orange",
+}: DefsProps) {
+  const uid = useId();
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 300 200" width={size} height={size} className={className} role="img" aria-hidden={title ? undefined : true}>
+      {title && <title>{title}</title>}
+      <defs>
+        <linearGradient id={`${uid}-sky`} x1={0} y1={0} x2={0} y2={1}>
+          <stop offset={0} stopColor="#87ceeb" />
+          <stop offset={1} stopColor="#ffffff" stopOpacity={0.5} />
+        </linearGradient>
+        <radialGradient id={`${uid}-shade`} fx={0.3} fy={0.3}>
+          <stop offset={0} stopColor="#ffffff" />
+          <stop offset={1} stopColor="#3366cc" />
+        </radialGradient>
+        <pattern id={`${uid}-hatch`} width={8} height={8} patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+          <line stroke={hatchLineStroke} strokeWidth={1} x1={0} y1={0} x2={0} y2={8} />
+        </pattern>
+        <clipPath id={`${uid}-window`}>
+          <circle cx={230} cy={60} r={30} />
+        </clipPath>
+        <marker id={`${uid}-arrow`} viewBox="0 0 10 10" markerWidth={10} markerHeight={10} refX={10} refY={5} orient="auto-start-reverse" markerUnits="strokeWidth">
+          <polygon fill={hatchLineStroke} points="0,0 10,5 0,10" />
+        </marker>
+      </defs>
+      <rect fill={`url(#${uid}-sky)`} x={0} y={0} width={300} height={200} />
+      <circle fill={`url(#${uid}-shade)`} cx={60} cy={60} r={40} />
+      <rect fill={`url(#${uid}-hatch)`} stroke={hatchLineStroke} x={120} y={30} width={60} height={60} />
+      <rect fill={viewFill} clipPath={`url(#${uid}-window)`} x={190} y={20} width={80} height={80} />
+      <line stroke={hatchLineStroke} strokeWidth={2} markerStart={`url(#${uid}-arrow)`} markerEnd={`url(#${uid}-arrow)`} x1={20} y1={150} x2={280} y2={150} />
+    </svg>
+  );
+}
+
+export default Defs;
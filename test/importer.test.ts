@@ -0,0 +1,117 @@
+/**
+ * Tests for importing SVG files into coordinate specs
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { importSvg } from '../src/importer.js';
+import { validateSvgSpec } from '../src/validate.js';
+import type { SvgSpec } from '../src/schema.js';
+import { loadFixtures } from './golden.js';
+
+const LEGACY = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="64px" height="48px">
+  <title>Legacy gate valve</title>
+  <defs>
+    <linearGradient id="shine"><stop offset="0" stop-color="#fff" /></linearGradient>
+  </defs>
+  <g id="body" transform="translate(10,5)" stroke="#000" style="stroke-width:2" opacity="0.5">
+    <polygon points="0,0  20,10
+      0,20" fill="none" />
+    <circle id="stem" cx="10" cy="10" r="3" fill="url(#shine)" stroke-linecap="round" inkscape:label="stem" />
+  </g>
+  <rect id="stem" x="1" y="2" width="3px" height="4" />
+  <rect x="0" y="0" width="50%" height="4" />
+  <rect x="0" y="0" height="4" />
+  <text x="32" y="44" font-size="8px" font-weight="700" text-anchor="middle">PN <tspan>16</tspan> &amp; up</text>
+  <use href="#body" x="30" />
+</svg>`;
+
+test('importing generated markup gives back the coordinate spec', () => {
+  const [, fixture] = loadFixtures<SvgSpec>('coordinate').find(([name]) => name === 'all-shapes')!;
+  const markup = readFileSync(new URL('./golden/coordinate/all-shapes.svg', import.meta.url), 'utf-8');
+  const { spec, warnings } = importSvg(markup, 'all-shapes');
+
+  assert.deepEqual(warnings, []);
+  assert.equal(spec.description, fixture.description);
+  assert.deepEqual(spec.viewBox, fixture.viewBox);
+  assert.deepEqual(spec.layers, fixture.layers);
+});
+
+test('groups are flattened onto their children', () => {
+  const { spec } = importSvg(LEGACY, 'gate valve');
+
+  assert.equal(spec.name, 'gate_valve');
+  assert.equal(spec.description, 'Legacy gate valve');
+  assert.deepEqual(spec.viewBox, { width: 64, height: 48 });
+  assert.deepEqual(validateSvgSpec(spec), []);
+  assert.deepEqual(spec.layers.slice(0, 2), [
+    {
+      id: 'polygon_1',
+      type: 'polygon',
+      props: { points: '0,0 20,10 0,20', fill: 'none', stroke: '#000', strokeWidth: 2, opacity: 0.5, transform: 'translate(10,5)' },
+    },
+    {
+      id: 'stem',
+      type: 'circle',
+      props: { cx: 10, cy: 10, r: 3, stroke: '#000', strokeWidth: 2, opacity: 0.5, transform: 'translate(10,5)' },
+    },
+  ]);
+});
+
+test('ids are made unique, and text keeps its font settings', () => {
+  const { spec } = importSvg(LEGACY, 'gate_valve');
+
+  assert.deepEqual(spec.layers.map(layer => layer.id), ['polygon_1', 'stem', 'stem_2', 'text_4']);
+  assert.deepEqual(spec.layers[2].props, { x: 1, y: 2, width: 3, height: 4 });
+  assert.deepEqual(spec.layers[3].props, { x: 32, y: 44, text: 'PN 16 & up', fontSize: 8, fontWeight: 'bold', textAnchor: 'middle' });
+});
+
+test('unsupported elements and values are reported', () => {
+  const { warnings } = importSvg(LEGACY, 'gate_valve');
+
+  assert.deepEqual(warnings, [
+    { element: 'defs', action: 'dropped', reason: 'unsupported element' },
+    { element: 'circle#stem', action: 'dropped', reason: 'fill url(#shine) (paint servers are not imported)' },
+    { element: 'circle#stem', action: 'dropped', reason: 'unsupported attributes: stroke-linecap' },
+    { element: 'g#body', action: 'flattened', reason: 'group style and transform moved onto 2 layer(s)' },
+    { element: 'rect', action: 'dropped', reason: 'unsupported width "50%"' },
+    { element: 'rect', action: 'dropped', reason: 'missing width' },
+    { element: 'text', action: 'flattened', reason: 'tspans merged into one line of text' },
+    { element: 'use', action: 'dropped', reason: 'unsupported element' },
+  ]);
+});
+
+test('presentation attributes on the root svg are inherited', () => {
+  const icon = importSvg([
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">',
+    '  <path d="M4 12h16" />',
+    '  <g stroke-width="1"><circle cx="12" cy="12" r="3" fill="red" /></g>',
+    '</svg>',
+  ].join('\n'), 'icon');
+
+  assert.deepEqual(icon.spec.layers.map(layer => layer.props), [
+    { d: 'M4 12h16', fill: 'none', stroke: 'currentColor', strokeWidth: 2 },
+    { cx: 12, cy: 12, r: 3, fill: 'red', stroke: 'currentColor', strokeWidth: 1 },
+  ]);
+
+  const { spec, warnings } = importSvg('<svg width="10" height="10" fill="red" opacity="0.5"><rect width="10" height="10" /></svg>', 'box');
+  assert.deepEqual(spec.layers[0].props, { x: 0, y: 0, width: 10, height: 10, fill: 'red', opacity: 0.5 });
+  assert.deepEqual(warnings, []);
+});
+
+test('viewBox is derived from the content when the file has no size', () => {
+  const { spec, warnings } = importSvg('<svg><circle cx="50" cy="40" r="10" /></svg>', 'dot');
+
+  assert.deepEqual(spec.viewBox, { width: 20, height: 20, minX: 40, minY: 30 });
+  assert.deepEqual(warnings, [{ element: 'svg', action: 'flattened', reason: 'no viewBox or size, derived from the content bounds' }]);
+});
+
+test('malformed markup is rejected', () => {
+  assert.throws(() => importSvg('<svg><g></svg>', 'bad'), /Invalid SVG at offset \d+: unexpected <\/svg>/);
+  assert.throws(() => importSvg('<html></html>', 'bad'), /root element is not <svg>/);
+  assert.throws(() => importSvg('<svg><text>&#x110000;</text></svg>', 'bad'), /Invalid SVG at offset \d+: character reference &#x110000; is not a character/);
+  assert.throws(() => importSvg('<svg><text id="&#55296;" /></svg>', 'bad'), /Invalid SVG at offset \d+: character reference &#55296; is not a character/);
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for geometric lint checks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { lintSvgSpec, lintSemanticSvgSpec, lintFeedback, normalizeColor, type LintFinding } from '../src/lint.js';
+import type { SvgLayer, SvgSpec } from '../src/schema.js';
+import type { SemanticSvgSpec } from '../src/schema-semantic.js';
+import { loadFixtures } from './golden.js';
+
+function layer(id: string, type: SvgLayer['type'], props: Record<string, unknown>, children?: SvgLayer[]): SvgLayer {
+  return { id, type, props: props as unknown as SvgLayer['props'], ...(children ? { children } : {}) };
+}
+
+function spec(layers: SvgLayer[], defs: SvgSpec['defs'] = undefined): SvgSpec {
+  return { name: 'lint', description: 'lint test', viewBox: { width: 100, height: 100 }, ...(defs ? { defs } : {}), layers };
+}
+
+// Findings as "rule path" for compact comparisons
+function summary(findings: LintFinding[]): string[] {
+  return findings.map(finding => `${finding.rule} ${finding.path}`);
+}
+
+test('fixtures have no lint findings', () => {
+  for (const [name, fixture] of loadFixtures<SvgSpec>('coordinate')) {
+    assert.deepEqual(lintSvgSpec(fixture), [], name);
+  }
+  for (const [name, fixture] of loadFixtures<SemanticSvgSpec>('semantic')) {
+    assert.deepEqual(lintSemanticSvgSpec(fixture), [], name);
+  }
+});
+
+test('zero-sized shapes, short polygons and broken path data are errors', () => {
+  const findings = lintSvgSpec(spec([
+    layer('dot', 'circle', { cx: 50, cy: 50, r: 0 }),
+    layer('flat', 'rect', { x: 10, y: 10, width: 10, height: -1 }),
+    layer('oval', 'ellipse', { cx: 50, cy: 50, rx: 5, ry: 5 }),
+    layer('wedge', 'polygon', { points: '10,10 20,20' }),
+    layer('stub', 'polyline', { points: '10,10 x,20' }),
+    layer('triangle', 'polygon', { points: '10,10 20,20 10,20' }),
+    layer('scribble', 'path', { d: 'M10 10 L20' }),
+    layer('curve', 'path', { d: 'M10 10 Q20 0 30 10' }),
+  ]));
+
+  assert.deepEqual(summary(findings), [
+    'invalid-path layers[6]',
+    'too-few-points layers[3]',
+    'too-few-points layers[4]',
+    'zero-size layers[0]',
+    'zero-size layers[1]',
+  ]);
+  assert.ok(findings.every(finding => finding.severity === 'error'));
+  assert.equal(findings[1].message, 'polygon has 2 point(s) but needs at least 3');
+  assert.equal(findings[3].message, 'circle r is 0, so nothing is drawn');
+});
+
+test('duplicate ids are found across groups, defs and def content', () => {
+  const findings = lintSvgSpec(spec(
+    [
+      layer('body', 'rect', { x: 0, y: 0, width: 10, height: 10 }),
+      layer('parts', 'group', {}, [layer('body', 'circle', { cx: 5, cy: 5, r: 2 })]),
+      layer('shade', 'rect', { x: 0, y: 0, width: 10, height: 10 }),
+    ],
+    [
+      { id: 'shade', type: 'linearGradient', stops: [{ offset: 0, color: '#fff' }] },
+      { id: 'arrow', type: 'marker', width: 4, height: 4, refX: 4, refY: 2, layers: [layer('parts', 'path', { d: 'M0 0 L4 2 L0 4 Z' })] },
+    ]
+  ));
+
+  assert.deepEqual(summary(findings), [
+    'duplicate-id layers[1].children[0]',
+    'duplicate-id layers[2]',
+    'duplicate-id defs[1].layers[0]',
+  ]);
+  assert.equal(findings[0].message, 'id "body" is already used by layers[0]');
+  assert.equal(findings[1].message, 'id "shade" is already used by defs[0]');
+});
+
+test('layers outside the viewBox are found through group transforms and strokes', () => {
+  const findings = lintSvgSpec(spec([
+    layer('offscreen', 'circle', { cx: 150, cy: 50, r: 10 }),
+    // Touches the canvas only with its stroke
+    layer('edge', 'rect', { x: -20, y: 10, width: 20, height: 10, stroke: '#000', strokeWidth: 2 }),
+    layer('shifted', 'group', { transform: 'translate(0, 200)' }, [
+      layer('a', 'rect', { x: 0, y: 0, width: 10, height: 10 }),
+      layer('b', 'rect', { x: 20, y: 0, width: 10, height: 10 }),
+    ]),
+    layer('mixed', 'group', {}, [
+      layer('inside', 'rect', { x: 0, y: 0, width: 10, height: 10 }),
+      layer('outside', 'text', { x: 10, y: -20, text: 'label' }),
+    ]),
+  ], [
+    // Def content has its own coordinates
+    { id: 'tile', type: 'pattern', width: 4, height: 4, layers: [layer('hatch', 'line', { x1: 500, y1: 0, x2: 504, y2: 4, stroke: '#000' })] },
+  ]));
+
+  // A group outside the canvas is reported once, not once per child
+  assert.deepEqual(summary(findings), ['outside-viewbox layers[0]', 'outside-viewbox layers[2]', 'outside-viewbox layers[3].children[1]']);
+  assert.ok(findings.every(finding => finding.severity === 'warning'));
+  assert.equal(findings[0].message, 'circle is drawn entirely outside the viewBox (0 0 100 100)');
+});
+
+test('fitted canvases are checked against the viewBox they are rendered with', () => {
+  const offscreen = spec([layer('offscreen', 'circle', { cx: 150, cy: 50, r: 10 })]);
+  assert.deepEqual(summary(lintSvgSpec(offscreen)), ['outside-viewbox layers[0]']);
+  assert.deepEqual(lintSvgSpec(offscreen, { padding: 0 }), []);
+  assert.deepEqual(lintSvgSpec(offscreen, { size: { width: 24, height: 24 } }), []);
+});
+
+test('text in the same colour as the shape behind it is a warning', () => {
+  const findings = lintSvgSpec(spec([
+    layer('panel', 'rect', { x: 0, y: 0, width: 100, height: 50, fill: 'white' }),
+    layer('title', 'text', { x: 50, y: 25, text: 'Pump', fill: '#FFF', textAnchor: 'middle' }),
+    // Outlines don't hide the panel, so the panel is still what the text is on
+    layer('frame', 'rect', { x: 10, y: 10, width: 80, height: 30, fill: 'none', stroke: '#fff' }),
+    layer('subtitle', 'text', { x: 50, y: 35, text: 'P-101', fill: 'rgb(255, 255, 255)', textAnchor: 'middle' }),
+    // Black by default, on a group filled black
+    layer('badge', 'group', { fill: '#000000' }, [layer('dot', 'circle', { cx: 50, cy: 75, r: 20 })]),
+    layer('tag', 'text', { x: 50, y: 75, text: 'A', textAnchor: 'middle', dominantBaseline: 'middle' }),
+    // Readable: different colour, or nothing behind it
+    layer('note', 'text', { x: 50, y: 20, text: 'ok', fill: '#333', textAnchor: 'middle' }),
+    layer('free', 'text', { x: 0, y: 95, text: 'free', fill: 'white' }),
+  ]));
+
+  assert.deepEqual(summary(findings), ['text-same-color layers[1]', 'text-same-color layers[3]', 'text-same-color layers[5]']);
+  assert.equal(findings[0].message, 'text "Pump" is #FFF on "panel" filled white, so it can\'t be read');
+  assert.equal(findings[2].message, 'text "A" is black on "dot" filled #000000, so it can\'t be read');
+});
+
+test('semantic specs are linted by their resolved layout', () => {
+  const bubble = new Map(loadFixtures<SemanticSvgSpec>('semantic')).get('instrument-bubble')!;
+  const filled: SemanticSvgSpec = {
+    ...bubble,
+    layers: bubble.layers.map(layer => layer.id === 'bubble' ? { ...layer, style: { ...layer.style, fill: 'black' } } : layer),
+  };
+
+  assert.deepEqual(lintSemanticSvgSpec(filled).map(finding => `${finding.rule} ${finding.id}`), [
+    'text-same-color function_letters',
+    'text-same-color loop_number',
+  ]);
+});
+
+test('feedback lists every finding by layer id', () => {
+  assert.equal(lintFeedback([]), '');
+  const findings = lintSvgSpec(spec([
+    layer('dot', 'circle', { cx: 50, cy: 50, r: 0 }),
+    layer('offscreen', 'circle', { cx: 150, cy: 50, r: 10 }),
+  ]));
+  assert.equal(lintFeedback(findings), [
+    'Fix these problems in the drawing, keeping everything else as it is:',
+    '- layer "dot": circle r is 0, so nothing is drawn',
+    '- layer "offscreen": circle is drawn entirely outside the viewBox (0 0 100 100)',
+  ].join('\n'));
+});
+
+test('colours are compared in a common form', () => {
+  assert.equal(normalizeColor('#ABC'), '#aabbcc');
+  assert.equal(normalizeColor(' White '), '#ffffff');
+  assert.equal(normalizeColor('rgb(0, 128, 0)'), normalizeColor('green'));
+  assert.equal(normalizeColor('hsl(0, 0%, 0%)'), 'hsl(0, 0%, 0%)');
+});
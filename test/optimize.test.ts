@@ -0,0 +1,152 @@
+/**
+ * Tests for the SVG optimizer
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  optimizeSvg,
+  parseOptimizeOptions,
+  formatOptimize,
+  formatSavings,
+  DEFAULT_OPTIMIZE,
+  type OptimizeOptions,
+} from '../src/optimize.js';
+import { rewritePathData } from '../src/path.js';
+import { generateSvgMarkup } from '../src/generator.js';
+import { generateSemanticSvg } from '../src/generator-semantic.js';
+import { renderPng } from '../src/raster.js';
+import type { SvgSpec } from '../src/schema.js';
+import type { SemanticSvgSpec } from '../src/schema-semantic.js';
+import { assertGolden, loadFixtures } from './golden.js';
+
+const coordinate = new Map(loadFixtures<SvgSpec>('coordinate'));
+const semantic = new Map(loadFixtures<SemanticSvgSpec>('semantic'));
+
+// Only the named pass, so each test shows what that pass does
+const NO_PASSES: OptimizeOptions = { dropDefaults: false, stripComments: true, mergeStyles: false, shapesToPaths: false };
+
+function svg(body: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">${body}</svg>`;
+}
+
+test('fixtures match golden optimized SVGs', () => {
+  assertGolden('optimize/ball-valve.svg', optimizeSvg(generateSemanticSvg(semantic.get('ball-valve')!)).markup);
+  assertGolden('optimize/groups.svg', optimizeSvg(generateSvgMarkup(coordinate.get('groups')!)).markup);
+  assertGolden(
+    'optimize/all-shapes.min.svg',
+    optimizeSvg(generateSvgMarkup(coordinate.get('all-shapes')!), { ...DEFAULT_OPTIMIZE, minify: true }).markup
+  );
+});
+
+test('optimized markup renders the same pixels at full precision', async () => {
+  const markups = [
+    ...['all-shapes', 'defs', 'groups'].map(name => generateSvgMarkup(coordinate.get(name)!)),
+    ...['components', 'transforms'].map(name => generateSemanticSvg(semantic.get(name)!)),
+  ];
+  for (const markup of markups) {
+    for (const minify of [false, true]) {
+      const optimized = optimizeSvg(markup, { ...DEFAULT_OPTIMIZE, precision: undefined, minify }).markup;
+      const [before, after] = await Promise.all([renderPng(markup, { scale: 1 }), renderPng(optimized, { scale: 1 })]);
+      assert.deepEqual(after.data, before.data);
+    }
+  }
+});
+
+test('numbers are rounded in attributes, point lists, transforms and path data', () => {
+  const { markup } = optimizeSvg(svg(
+    '<circle cx="163.39745962155615" cy="-0.0001" r="10" transform="rotate(33.3333 1.005 2)" />' +
+    '<polygon points="1.23456,2 3,4.56789 5,6" />' +
+    '<path d="M 0.5,0.25 a 10.123,10.123 0 0,1 -5.5,-.75 L 1e-7 2" />'
+  ), { ...NO_PASSES, precision: 2 });
+
+  assert.match(markup, /<circle cx="163.4" cy="0" r="10" transform="rotate\(33.3333 1 2\)" \/>/);
+  assert.match(markup, /points="1.23,2 3,4.57 5,6"/);
+  assert.match(markup, /d="M0.5 0.25 a10.12 10.12 0 0 1 -5.5 -0.75 L0 2"/);
+});
+
+test('opacities, offsets and transform factors keep their decimals when coordinates are rounded', () => {
+  const { markup } = optimizeSvg(svg(
+    '<linearGradient id="fade"><stop offset="0.35" stop-opacity="0.123456" /></linearGradient>' +
+    '<rect x="10.4" y="0.6" width="20" height="20" opacity="0.3" fill-opacity="0.25" ' +
+    'transform="matrix(0.7071 0.7071 -0.7071 0.7071 12.34 5.6) scale(0.5) translate(1.5 2.5)" />'
+  ), { ...NO_PASSES, precision: 0 });
+
+  assert.match(markup, /<stop offset="0.35" stop-opacity="0.1235" \/>/);
+  assert.match(markup, /x="10" y="1" width="20" height="20" opacity="0.3" fill-opacity="0.25"/);
+  assert.match(markup, /transform="matrix\(0.7071 0.7071 -0.7071 0.7071 12 6\) scale\(0.5\) translate\(2 3\)"/);
+});
+
+test('compact path data leaves out separators only where unambiguous', () => {
+  const format = (value: number) => String(value).replace(/^(-?)0\./, '$1.');
+  assert.equal(rewritePathData('M 0.5 0.25 L -3 .5 l 1.5 .5 1 .5', format, true), 'M.5.25L-3 .5l1.5.5 1 .5');
+  // Arc flags may be written without separators
+  assert.equal(rewritePathData('M0 0A5 5 0 015 5', format, true), 'M0 0A5 5 0 0 1 5 5');
+  assert.throws(() => rewritePathData('M0 0 X', format), /unknown command/);
+});
+
+test('defaults and inherited values are dropped', () => {
+  const { markup } = optimizeSvg(svg(
+    '<g stroke="#333" stroke-width="2">' +
+    '<rect x="0" y="0" width="10" height="10" fill="#000" stroke="#333" stroke-width="1" opacity="1" />' +
+    '</g>' +
+    '<g fill="black" stroke="none"><circle r="5" /></g>'
+  ), { ...NO_PASSES, dropDefaults: true });
+
+  // stroke-width 1 differs from the inherited 2, so it stays
+  assert.match(markup, /<g stroke="#333" stroke-width="2">\n    <rect width="10" height="10" stroke-width="1" \/>/);
+  // A group left without attributes is unwrapped
+  assert.match(markup, /<\/g>\n  <circle r="5" \/>/);
+});
+
+test('comments and the XML prolog are stripped only when asked', () => {
+  const markup = generateSvgMarkup(coordinate.get('groups')!);
+  assert.doesNotMatch(optimizeSvg(markup, NO_PASSES).markup, /<\?xml|<!--/);
+
+  const kept = optimizeSvg(markup, { ...NO_PASSES, stripComments: false }).markup;
+  assert.ok(kept.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg'));
+  assert.match(kept, /\n    <!-- Ear drawn around its own center -->\n    <g id="left_ear"/);
+});
+
+test('adjacent elements with identical styles share a group when it is shorter', () => {
+  const lines = ['<line x1="0" y1="0" x2="10" y2="0" stroke="#123456" stroke-width="3" />',
+    '<line x1="0" y1="5" x2="10" y2="5" stroke="#123456" stroke-width="3" />',
+    '<line x1="0" y1="9" x2="10" y2="9" stroke="#123456" stroke-width="3" />'];
+  const merged = optimizeSvg(svg(lines.join('')), { ...NO_PASSES, mergeStyles: true }).markup;
+  assert.match(merged, /<g stroke="#123456" stroke-width="3">\n    <line x1="0" y1="0" x2="10" y2="0" \/>/);
+
+  // Two short styles don't pay for the group
+  const short = svg('<circle r="1" fill="red" /><circle r="2" fill="red" />');
+  assert.doesNotMatch(optimizeSvg(short, { ...NO_PASSES, mergeStyles: true }).markup, /<g/);
+
+  // Clip paths can't contain groups
+  const clip = svg(`<defs><clipPath id="c">${lines.join('')}</clipPath></defs>`);
+  assert.doesNotMatch(optimizeSvg(clip, { ...NO_PASSES, mergeStyles: true }).markup, /<g/);
+});
+
+test('simple shapes become paths where shorter', () => {
+  const { markup } = optimizeSvg(svg(
+    '<rect id="box" x="10" y="10" width="30" height="20" fill="red" />' +
+    '<rect x="0" y="0" width="0" height="20" stroke="red" />' +
+    '<rect x="0" y="0" width="10" height="20" rx="2" />' +
+    '<polygon points="0,0 10,0 5,8" />' +
+    '<circle cx="5" cy="5" r="5" />'
+  ), { ...NO_PASSES, shapesToPaths: true, minify: true });
+
+  assert.match(markup, /<path id="box" d="M10 10H40V30H10Z" fill="red"\/>/);
+  // Empty rects aren't drawn, rounded ones have no short path
+  assert.match(markup, /<rect x="0" y="0" width="0" height="20" stroke="red"\/><rect x="0" y="0" width="10" height="20" rx="2"\/>/);
+  assert.match(markup, /<path d="M0 0L10 0 5 8Z"\/><circle cx="5" cy="5" r="5"\/>/);
+});
+
+test('optimize settings parse and format', () => {
+  assert.deepEqual(parseOptimizeOptions(''), DEFAULT_OPTIMIZE);
+  assert.deepEqual(parseOptimizeOptions('2,min no-merge'), { ...DEFAULT_OPTIMIZE, precision: 2, minify: true, mergeStyles: false });
+  assert.equal(parseOptimizeOptions('no-round')!.precision, undefined);
+  assert.equal(parseOptimizeOptions('fast'), null);
+  assert.equal(parseOptimizeOptions('11'), null);
+
+  assert.equal(formatOptimize(DEFAULT_OPTIMIZE), 'precision 3, pretty');
+  assert.equal(formatOptimize(parseOptimizeOptions('no-round,min,no-paths')!), 'full precision, minified, no paths');
+  assert.equal(formatSavings({ markup: '', before: 2000, after: 1500 }), '2000 -> 1500 bytes (25% smaller)');
+});
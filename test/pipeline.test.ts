@@ -0,0 +1,108 @@
+/**
+ * Tests for the generation pipeline
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runGeneration, savedLint } from '../src/pipeline.js';
+import { RECORD_DIR_ENV, REPLAY_DIR_ENV } from '../src/fixtures.js';
+import { registerProvider, setCurrentProvider } from '../src/providers.js';
+import { listSvgs } from '../src/storage.js';
+import { setProgressStream } from '../src/log.js';
+import type { SvgSpec } from '../src/schema.js';
+
+function sky(moonX: number): string {
+  return JSON.stringify({
+    name: 'sky',
+    description: 'a sun and a moon',
+    viewBox: { width: 100, height: 100 },
+    layers: [
+      { id: 'sun', type: 'circle', props: { cx: 30, cy: 50, r: 10 } },
+      { id: 'moon', type: 'circle', props: { cx: moonX, cy: 50, r: 10 } },
+    ],
+  });
+}
+
+// Live provider stand-in: draws the moon off the canvas until asked to fix it
+let liveCalls = 0;
+registerProvider({
+  name: 'scripted-sky',
+  description: 'test',
+  requiredEnv: [],
+  model: () => 'scripted-1',
+  async complete(prompt, systemPrompt) {
+    liveCalls++;
+    if (!systemPrompt) return 'Two circles side by side';
+    return sky(prompt.includes('Fix these problems') ? 70 : 150);
+  },
+});
+
+const cwd = process.cwd();
+const savedProvider = process.env.LLM_PROVIDER;
+let dir: string;
+let fixtureDir: string;
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'aisvg-pipeline-'));
+  fixtureDir = join(dir, 'fixtures');
+  process.chdir(dir);
+  setProgressStream(new PassThrough());
+});
+
+after(() => {
+  setProgressStream(process.stdout);
+  process.chdir(cwd);
+  delete process.env[RECORD_DIR_ENV];
+  delete process.env[REPLAY_DIR_ENV];
+  if (savedProvider === undefined) delete process.env.LLM_PROVIDER;
+  else process.env.LLM_PROVIDER = savedProvider;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('lint findings are refined away, and the round replays from fixtures', async () => {
+  process.env[RECORD_DIR_ENV] = fixtureDir;
+  setCurrentProvider('scripted-sky');
+  const recorded = await runGeneration('a sun and a moon', 'coordinate', { fixLint: 2 });
+  delete process.env[RECORD_DIR_ENV];
+
+  // Generation and one refinement, each a research and a generation request
+  assert.equal(liveCalls, 4);
+  assert.equal(readdirSync(fixtureDir).length, 4);
+  assert.deepEqual(recorded.lint, []);
+  assert.match(recorded.prompt, /^refine: Fix these problems/);
+  assert.match(recorded.prompt, /layer "moon": circle is drawn entirely outside the viewBox \(0 0 100 100\)/);
+
+  process.env[REPLAY_DIR_ENV] = fixtureDir;
+  setCurrentProvider('replay');
+  const replayed = await runGeneration('a sun and a moon', 'coordinate', { fixLint: 2 });
+
+  assert.equal(liveCalls, 4);
+  assert.deepEqual(replayed.lint, []);
+  assert.equal(replayed.prompt, recorded.prompt);
+  assert.deepEqual(replayed.spec, recorded.spec);
+  assert.equal(((replayed.spec as SvgSpec).layers[1].props as { cx: number }).cx, 70);
+
+  // The refinements point back at the SVG they fixed
+  const [first, fixed] = listSvgs().slice(-2);
+  assert.equal(fixed.source, first.filename);
+  assert.equal(first.prompt, 'a sun and a moon');
+});
+
+test('fitted canvases are linted as rendered, so nothing is refined', async () => {
+  process.env[REPLAY_DIR_ENV] = fixtureDir;
+  setCurrentProvider('replay');
+  const count = listSvgs().length;
+  const result = await runGeneration('a sun and a moon', 'coordinate', { fixLint: 2, fit: { padding: 0 } });
+
+  assert.deepEqual(result.lint, []);
+  assert.equal(result.prompt, 'a sun and a moon');
+  assert.equal(listSvgs().length, count + 1);
+  assert.deepEqual(savedLint(listSvgs().at(-1)!), []);
+
+  // Unfitted, the moon is still off the canvas
+  assert.deepEqual(savedLint({ ...listSvgs().at(-1)!, fit: undefined }).map(finding => finding.id), ['moon']);
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the LLM provider registry
+ */
+
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  findProvider,
+  setCurrentProvider,
+  getCurrentProvider,
+  getCurrentProviderName,
+  registerProvider,
+  createOpenAICompatibleProvider,
+} from '../src/providers.js';
+
+const saved = process.env.LLM_PROVIDER;
+
+afterEach(() => {
+  if (saved === undefined) delete process.env.LLM_PROVIDER;
+  else process.env.LLM_PROVIDER = saved;
+});
+
+/**
+ * Chat completions server answering with its own name
+ */
+async function chatServer(name: string): Promise<{ server: Server, url: string }> {
+  const server = createServer((request, response) => {
+    request.resume();
+    request.on('end', () => {
+      response.setHeader('content-type', 'application/json');
+      response.end(JSON.stringify({
+        id: 'x',
+        object: 'chat.completion',
+        created: 0,
+        model: 'test',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: name } }],
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1` };
+}
+
+test('providers are found by name or alias, ignoring case and spaces', () => {
+  assert.equal(findProvider('anthropic')?.name, 'anthropic');
+  assert.equal(findProvider(' Claude ')?.name, 'anthropic');
+  assert.equal(findProvider('O')?.name, 'openai');
+  assert.equal(findProvider('gpt')?.name, 'openai');
+  assert.equal(findProvider('l')?.name, 'local');
+  assert.equal(findProvider('replay')?.name, 'replay');
+  assert.equal(findProvider('mistral'), null);
+});
+
+test('the current provider name is resolved from aliases', () => {
+  delete process.env.LLM_PROVIDER;
+  assert.equal(getCurrentProviderName(), 'anthropic');
+
+  process.env.LLM_PROVIDER = 'gpt';
+  assert.equal(getCurrentProviderName(), 'openai');
+  assert.equal(getCurrentProvider().name, 'openai');
+
+  assert.equal(setCurrentProvider('l')?.name, 'local');
+  assert.equal(process.env.LLM_PROVIDER, 'local');
+  assert.equal(setCurrentProvider('nope'), null);
+  assert.equal(getCurrentProviderName(), 'local');
+
+  // Unknown names are shown as given and rejected on use
+  process.env.LLM_PROVIDER = 'mistral';
+  assert.equal(getCurrentProviderName(), 'mistral');
+  assert.throws(() => getCurrentProvider(), /Unknown LLM provider "mistral" \(available: anthropic, openai, local, replay\)/);
+});
+
+test('OpenAI-compatible providers follow base URL changes', async () => {
+  const first = await chatServer('first');
+  const second = await chatServer('second');
+  try {
+    const provider = createOpenAICompatibleProvider({
+      name: 'test-compatible',
+      description: 'test',
+      baseURLEnv: 'AISVG_TEST_BASE_URL',
+      modelEnv: 'AISVG_TEST_MODEL',
+      defaultModel: 'test',
+    });
+    registerProvider(provider);
+    assert.deepEqual(provider.requiredEnv, ['AISVG_TEST_BASE_URL']);
+
+    process.env.AISVG_TEST_BASE_URL = first.url;
+    assert.equal(await provider.complete('hi'), 'first');
+    process.env.AISVG_TEST_BASE_URL = second.url;
+    assert.equal(await provider.complete('hi'), 'second');
+    process.env.AISVG_TEST_BASE_URL = first.url;
+    assert.equal(await provider.complete('hi'), 'first');
+  } finally {
+    delete process.env.AISVG_TEST_BASE_URL;
+    first.server.close();
+    second.server.close();
+  }
+});
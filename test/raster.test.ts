@@ -0,0 +1,51 @@
+/**
+ * Tests for PNG rasterization
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePngSizes, pngFilename, renderPng } from '../src/raster.js';
+import { generateSvgMarkup } from '../src/generator.js';
+import type { SvgSpec } from '../src/schema.js';
+import { loadFixtures } from './golden.js';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Width and height from a PNG's IHDR chunk
+ */
+function pngDimensions(data: Uint8Array): { width: number, height: number } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+test('PNG sizes parse as scales or pixel widths', () => {
+  assert.deepEqual(parsePngSizes('1x,2x, 3x'), [{ scale: 1 }, { scale: 2 }, { scale: 3 }]);
+  assert.deepEqual(parsePngSizes('16 32 64 256'), [{ width: 16 }, { width: 32 }, { width: 64 }, { width: 256 }]);
+  assert.deepEqual(parsePngSizes('1.5x,48'), [{ scale: 1.5 }, { width: 48 }]);
+  assert.equal(parsePngSizes(''), null);
+  assert.equal(parsePngSizes('0x'), null);
+  assert.equal(parsePngSizes('16.5'), null);
+  assert.equal(parsePngSizes('2x,big'), null);
+});
+
+test('PNG filenames follow the SVG name and size', () => {
+  assert.equal(pngFilename('diagrams/pump_2026.svg', { scale: 1 }), 'pump_2026.png');
+  assert.equal(pngFilename('pump_2026.svg', { scale: 2 }), 'pump_2026@2x.png');
+  assert.equal(pngFilename('pump_2026.svg', { width: 256 }), 'pump_2026_256px.png');
+});
+
+test('generated markup renders to PNG at scaled and fixed-width sizes', async () => {
+  const spec = new Map(loadFixtures<SvgSpec>('coordinate')).get('defs')!;
+  const markup = generateSvgMarkup(spec);
+
+  for (const [size, expected] of [
+    [{ scale: 2 }, { width: 600, height: 400 }],
+    [{ width: 64 }, { width: 64, height: 43 }],
+  ] as const) {
+    const png = await renderPng(markup, size);
+    assert.deepEqual([...png.data.subarray(0, 8)], PNG_SIGNATURE);
+    assert.deepEqual(pngDimensions(png.data), expected);
+    assert.deepEqual({ width: png.width, height: png.height }, expected);
+  }
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for the LLM spec repair loop
+ */
+
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import { parseWithRepair, extractJson, getMaxRepairAttempts } from '../src/repair.js';
+import { assertValidSvgSpec } from '../src/validate.js';
+import { setProgressStream } from '../src/log.js';
+import type { SvgSpec } from '../src/schema.js';
+
+const VALID = JSON.stringify({
+  name: 'dot',
+  description: 'a dot',
+  viewBox: { width: 10, height: 10 },
+  layers: [{ id: 'dot', type: 'circle', props: { cx: 5, cy: 5, r: 2 } }],
+});
+const MISSING_RADIUS = VALID.replace(',"r":2', '');
+
+// LLM stand-in answering with the given responses in order, recording the prompts it got
+function scriptedLLM(responses: string[]) {
+  const prompts: string[] = [];
+  const call = async (prompt: string) => {
+    prompts.push(prompt);
+    const response = responses.shift();
+    assert.ok(response !== undefined, 'unexpected LLM call');
+    return response;
+  };
+  return { call, prompts };
+}
+
+function parse(text: string, llm: ReturnType<typeof scriptedLLM>) {
+  return parseWithRepair<SvgSpec>(text, assertValidSvgSpec, llm.call, 'system', 'test');
+}
+
+beforeEach(() => {
+  setProgressStream(new PassThrough());
+  delete process.env.AISVG_MAX_REPAIRS;
+});
+
+afterEach(() => {
+  setProgressStream(process.stdout);
+  delete process.env.AISVG_MAX_REPAIRS;
+});
+
+test('valid output needs no repair', async () => {
+  const llm = scriptedLLM([]);
+  const { spec, repairs } = await parse(`\`\`\`json\n${VALID}\n\`\`\``, llm);
+  assert.equal(spec.name, 'dot');
+  assert.deepEqual(repairs, []);
+  assert.equal(llm.prompts.length, 0);
+});
+
+test('invalid JSON and invalid specs are sent back until one is valid', async () => {
+  const llm = scriptedLLM([MISSING_RADIUS, VALID]);
+  const { spec, repairs } = await parse('{"name": ', llm);
+
+  assert.equal(spec.layers.length, 1);
+  assert.deepEqual(repairs.map(({ attempt, provider, succeeded }) => ({ attempt, provider, succeeded })), [
+    { attempt: 1, provider: 'test', succeeded: false },
+    { attempt: 2, provider: 'test', succeeded: true },
+  ]);
+  assert.match(repairs[0].error, /^JSON parse error: /);
+  assert.equal(repairs[1].error, 'Invalid spec:\nlayers[0].props.r: required number');
+
+  // Each repair prompt carries the error and the output it refers to
+  assert.match(llm.prompts[0], /JSON parse error/);
+  assert.match(llm.prompts[0], /\{"name": /);
+  assert.match(llm.prompts[1], /layers\[0\]\.props\.r: required number/);
+  assert.ok(llm.prompts[1].includes(MISSING_RADIUS));
+});
+
+test('gives up with the last error after the maximum number of repairs', async () => {
+  process.env.AISVG_MAX_REPAIRS = '2';
+  const llm = scriptedLLM([MISSING_RADIUS, MISSING_RADIUS]);
+  await assert.rejects(parse(MISSING_RADIUS, llm), {
+    message: 'Invalid spec:\nlayers[0].props.r: required number (after 2 repair attempt(s))',
+  });
+  assert.equal(llm.prompts.length, 2);
+});
+
+test('repair can be disabled', async () => {
+  process.env.AISVG_MAX_REPAIRS = '0';
+  const llm = scriptedLLM([]);
+  await assert.rejects(parse(MISSING_RADIUS, llm), { message: 'Invalid spec:\nlayers[0].props.r: required number' });
+});
+
+test('other errors are not repaired', async () => {
+  const llm = scriptedLLM([]);
+  const failing = (): never => {
+    throw new TypeError('boom');
+  };
+  await assert.rejects(parseWithRepair(VALID, failing, llm.call, 'system', 'test'), { name: 'TypeError', message: 'boom' });
+});
+
+test('repair limit comes from AISVG_MAX_REPAIRS', () => {
+  assert.equal(getMaxRepairAttempts(), 2);
+  process.env.AISVG_MAX_REPAIRS = '5';
+  assert.equal(getMaxRepairAttempts(), 5);
+  process.env.AISVG_MAX_REPAIRS = '-1';
+  assert.equal(getMaxRepairAttempts(), 2);
+  assert.equal(extractJson('```\n{}\n```'), '{}');
+});
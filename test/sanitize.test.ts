@@ -0,0 +1,109 @@
+/**
+ * Tests for output escaping and spec sanitizing
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sanitizeSvgSpec, escapeAttr, escapeText, escapeComment, formatChanges } from '../src/sanitize.js';
+import { sanitizeSemanticSvgSpec } from '../src/sanitize-semantic.js';
+import { generateSvgMarkup } from '../src/generator.js';
+import { generateSemanticSvg } from '../src/generator-semantic.js';
+import type { SvgSpec } from '../src/schema.js';
+import type { SemanticSvgSpec } from '../src/schema-semantic.js';
+import { loadFixtures } from './golden.js';
+
+const semantic = new Map(loadFixtures<SemanticSvgSpec>('semantic'));
+
+function coordinate(layers: unknown[]): SvgSpec {
+  return { name: 'sanitize', description: 'd', viewBox: { width: 100, height: 100 }, layers } as SvgSpec;
+}
+
+test('values are escaped for attributes, text and comments', () => {
+  assert.equal(escapeAttr('a"b\'<c>&'), 'a&quot;b&apos;&lt;c&gt;&amp;');
+  assert.equal(escapeText('<b> & "q"'), '&lt;b&gt; &amp; "q"');
+  assert.equal(escapeComment('a--b-'), 'a- -b- ');
+});
+
+test('fixtures need no sanitizing', () => {
+  for (const [name, fixture] of loadFixtures<SvgSpec>('coordinate')) {
+    assert.deepEqual(sanitizeSvgSpec(fixture).changes, [], name);
+  }
+  for (const [name, fixture] of semantic) {
+    assert.deepEqual(sanitizeSemanticSvgSpec(fixture).changes, [], name);
+  }
+});
+
+test('event handlers, links, script URLs and malformed values are removed', () => {
+  const input = coordinate([
+    { id: 'box', type: 'rect', props: { x: '10', y: 0, width: 10, height: 10, onclick: 'alert(1)', href: '#x', fill: 'javascript:alert(1)' } },
+    { id: 'ring', type: 'circle', props: { cx: 5, cy: 5, r: 2, stroke: 'url(javascript:alert(1))', transform: 'rotate(45) evil()' } },
+    { id: 'bad id!', type: 'line', props: { x1: 0, y1: 0, x2: 1, y2: 1 } },
+  ]);
+  const { spec, changes } = sanitizeSvgSpec(input);
+
+  assert.equal(formatChanges(changes), [
+    'layers[0].props.onclick: removed (event handler or link attribute)',
+    'layers[0].props.href: removed (event handler or link attribute)',
+    'layers[0].props.fill: removed (script URL)',
+    'layers[0].props.x: replaced (numeric string converted to number)',
+    'layers[1].props.stroke: removed (script URL)',
+    'layers[1].props.transform: removed (not a list of transform functions)',
+    'layers[2].id: replaced (unsafe characters in id "bad id!")',
+  ].join('\n'));
+  assert.deepEqual(spec.layers[0].props, { x: 10, y: 0, width: 10, height: 10 });
+  assert.equal(spec.layers[2].id, 'bad_id_');
+  // The input is left as it was
+  assert.equal((input.layers[0].props as { fill?: string }).fill, 'javascript:alert(1)');
+});
+
+test('text mentioning a script URL is kept and escaped, not dropped', () => {
+  const { spec, changes } = sanitizeSvgSpec(coordinate([
+    { id: 'note', type: 'text', props: { x: 0, y: 20, text: 'Never follow javascript: links <here>', fontFamily: 'javascript:Arial' } },
+  ]));
+
+  assert.deepEqual(changes, []);
+  assert.match(generateSvgMarkup(spec), />Never follow javascript: links &lt;here&gt;</);
+
+  const bubble = structuredClone(semantic.get('instrument-bubble')!);
+  const caption = bubble.layers.find(layer => layer.id === 'caption')!;
+  (caption.shape as { text: string }).text = 'javascript: docs';
+  assert.deepEqual(sanitizeSemanticSvgSpec(bubble).changes, []);
+});
+
+test('layers with unsafe required values are dropped', () => {
+  const { spec, changes } = sanitizeSvgSpec(coordinate([
+    { id: 'squiggle', type: 'path', props: { d: 'M0 0 L10 10"/><script>' } },
+    { id: 'dot', type: 'circle', props: { cx: 5, cy: 5, r: 2 } },
+  ]));
+
+  assert.deepEqual(spec.layers.map(layer => layer.id), ['dot']);
+  assert.equal(formatChanges(changes), 'layers[0].props.d: dropped layer (contains characters not allowed in path data)');
+});
+
+test('semantic layers other layers refer to are repaired, not dropped', () => {
+  const valve: SemanticSvgSpec = {
+    name: 'valve',
+    description: 'd',
+    canvasSize: { width: 200, height: 200 },
+    layers: [
+      { id: 'body', shape: { shapeType: 'diamond', size: 40 }, position: { type: 'centered' }, style: {} },
+      { id: 'stem', shape: { shapeType: 'line', length: 30, angle: 90 }, position: { type: 'relative', relativeTo: 'body', alignment: 'edge_touches_top' }, style: {} },
+      { id: 'actuator', shape: { shapeType: 'rectangle', width: 30, height: 10 }, position: { type: 'relative', relativeTo: 'stem', alignment: 'edge_touches_top' }, style: {} },
+      { id: 'badge', shape: { shapeType: 'circle', radius: 5 }, position: { type: 'absolute', x: 20, y: 20 }, style: {} },
+    ],
+  };
+  const shape = (id: string) => valve.layers.find(layer => layer.id === id)!.shape as unknown as Record<string, unknown>;
+  // The actuator is placed against the stem; nothing refers to the badge
+  shape('stem').length = 'long';
+  shape('badge').radius = 'big';
+
+  const { spec, changes } = sanitizeSemanticSvgSpec(valve);
+  assert.equal(formatChanges(changes), [
+    'layers[1].shape.length: replaced (non-numeric value in numeric field; kept because other layers reference it)',
+    'layers[3].shape.radius: dropped layer (non-numeric value in numeric field)',
+  ].join('\n'));
+  assert.deepEqual(spec.layers.map(layer => layer.id), ['body', 'stem', 'actuator']);
+
+  // The layout still resolves
+  assert.match(generateSemanticSvg(spec), /id="actuator"/);
+});
@@ -0,0 +1,34 @@
+/**
+ * Tests for saved SVG history
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { latestVersions, type SvgMetadata } from '../src/storage.js';
+
+function saved(filename: string, name: string, prompt: string, source?: string): SvgMetadata {
+  const spec = { name, description: name, viewBox: { width: 10, height: 10 }, layers: [] };
+  return { timestamp: '', filename, name, description: name, prompt, mode: 'coordinate', spec, ...(source ? { source } : {}) };
+}
+
+const ids = (metadata: SvgMetadata[]) => latestVersions(metadata).map(entry => entry.filename);
+
+test('refinements and conversions replace the SVG they came from', () => {
+  assert.deepEqual(ids([
+    saved('pump_1.svg', 'pump', 'a pump'),
+    saved('valve_1.svg', 'valve', 'a valve'),
+    saved('pump_2.svg', 'pump', 'refine: bigger', 'pump_1.svg'),
+    saved('pump_3.svg', 'pump', 'another pump'),
+    saved('pump_4.svg', 'centrifugal_pump', 'refine: rename', 'pump_2.svg'),
+    saved('valve_2.svg', 'valve', 'convert: valve_1.svg', 'valve_1.svg'),
+  ]), ['pump_3.svg', 'pump_4.svg', 'valve_2.svg']);
+});
+
+test('refinements saved without a source follow the spec name', () => {
+  assert.deepEqual(ids([
+    saved('pump_1.svg', 'pump', 'a pump'),
+    saved('pump_2.svg', 'pump', 'refine: bigger'),
+    saved('tank_1.svg', 'tank', 'a tank'),
+    saved('pump_3.svg', 'pump', 'refine: smaller'),
+  ]), ['tank_1.svg', 'pump_3.svg']);
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for path-qualified spec validation
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateSvgSpec,
+  assertValidSvgSpec,
+  formatIssues,
+  joinPath,
+  SpecValidationError,
+  type ValidationIssue,
+} from '../src/validate.js';
+import { validateSemanticSvgSpec } from '../src/validate-semantic.js';
+import type { SvgSpec } from '../src/schema.js';
+import type { SemanticSvgSpec } from '../src/schema-semantic.js';
+import { loadFixtures } from './golden.js';
+
+// Issues as "path: message" lines
+function lines(issues: ValidationIssue[]): string[] {
+  return formatIssues(issues).split('\n').filter(Boolean);
+}
+
+test('fixtures are valid specs', () => {
+  for (const [name, fixture] of loadFixtures<SvgSpec>('coordinate')) {
+    assert.deepEqual(validateSvgSpec(fixture), [], name);
+  }
+  for (const [name, fixture] of loadFixtures<SemanticSvgSpec>('semantic')) {
+    assert.deepEqual(validateSemanticSvgSpec(fixture), [], name);
+  }
+});
+
+test('paths join keys and indexes', () => {
+  assert.equal(joinPath('', 'layers'), 'layers');
+  assert.equal(joinPath('layers', 3), 'layers[3]');
+  assert.equal(joinPath(joinPath('layers', 3), 'props'), 'layers[3].props');
+});
+
+test('coordinate issues name the offending field', () => {
+  const issues = validateSvgSpec({
+    name: 'x',
+    description: 3,
+    viewBox: { width: 0, height: 10 },
+    layers: [
+      { id: 'a', type: 'circle', props: { cx: 1, cy: 'two' } },
+      { id: 'b', type: 'hexagon', props: {} },
+      { id: 'g', type: 'group', props: {}, children: [{ id: 'c', type: 'rect', props: { x: 0, y: 0, width: 1, height: 1, fill: 'url(#nope)' } }] },
+      { id: 'd', type: 'line', props: { x1: 0, y1: 0, x2: 1, y2: 1 }, children: [] },
+      'oops',
+    ],
+  });
+
+  assert.deepEqual(lines(issues), [
+    'description: expected string, got number',
+    'viewBox.width: must be greater than 0',
+    'layers[0].props.cy: expected number, got string',
+    'layers[0].props.r: required number',
+    'layers[1].type: must be one of: rect, circle, ellipse, line, polyline, polygon, path, text, group (got "hexagon")',
+    'layers[3].children: only group layers can have children',
+    'layers[4]: expected object, got string',
+    'layers[2].children[0].props.fill: unknown def "nope" (no defs defined)',
+  ]);
+});
+
+test('missing top-level fields and non-objects are reported at the root', () => {
+  assert.deepEqual(lines(validateSvgSpec(null)), ['(root): expected object, got null']);
+  assert.deepEqual(lines(validateSvgSpec({})), [
+    'name: required string',
+    'description: required string',
+    'viewBox: required object',
+    'layers: required array',
+  ]);
+});
+
+test('defs are checked for fields, stops and reference types', () => {
+  const issues = validateSvgSpec({
+    name: 'x',
+    description: 'd',
+    viewBox: { width: 10, height: 10 },
+    defs: [
+      { id: 'fade', type: 'linearGradient', stops: [{ offset: 2, color: '#fff' }] },
+      { id: 'fade', type: 'clipPath', layers: [] },
+      { id: 'tip', type: 'marker', width: 4, refX: 4, refY: 2, layers: [{ id: 'm', type: 'path', props: { d: 'M0 0 L4 2' } }] },
+    ],
+    layers: [
+      { id: 'a', type: 'line', props: { x1: 0, y1: 0, x2: 1, y2: 1, markerEnd: 'url(#fade)', clipPath: 'fade' } },
+    ],
+  });
+
+  assert.deepEqual(lines(issues), [
+    'defs[0].stops[0].offset: must be between 0 and 1',
+    'defs[1].layers: a clipPath needs at least one layer',
+    'defs[2].height: required number',
+    'defs[1].id: duplicate def id "fade"',
+    'layers[0].props.clipPath: expected url(#id) referencing a clipPath def (got "fade")',
+    'layers[0].props.markerEnd: "fade" is a linearGradient, expected a marker',
+  ]);
+});
+
+test('semantic issues name the offending field', () => {
+  const issues = validateSemanticSvgSpec({
+    name: 'x',
+    description: 'd',
+    canvasSize: { width: 100, height: -1 },
+    layers: [
+      { id: 'a', shape: { shapeType: 'circle', radius: 'big' }, position: { type: 'centered' }, style: {} },
+      { id: 'b', shape: { shapeType: 'circle', radius: 5 }, style: {} },
+      { id: 'c', shape: { shapeType: 'star' }, position: { type: 'centered' }, style: {} },
+    ],
+  });
+
+  assert.deepEqual(lines(issues), [
+    'canvasSize.height: must be greater than 0',
+    'layers[0].shape.radius: expected number, got string',
+    'layers[1].position: under-constrained: required unless the layer is in a layout group',
+    'layers[2].shape.shapeType: must be one of: triangle, rectangle, circle, ellipse, line, diamond, text, connector, component (got "star")',
+  ]);
+});
+
+test('semantic circles and ellipses need positive radii', () => {
+  const issues = validateSemanticSvgSpec({
+    name: 'x',
+    description: 'd',
+    canvasSize: { width: 100, height: 100 },
+    layers: [
+      { id: 'dot', shape: { shapeType: 'circle', radius: 0, rotation: 30 }, position: { type: 'centered' }, style: {} },
+      { id: 'lens', shape: { shapeType: 'ellipse', radiusX: 10, radiusY: -2, rotation: 45 }, position: { type: 'centered' }, style: {} },
+    ],
+  });
+
+  assert.deepEqual(lines(issues), [
+    'layers[0].shape.radius: must be greater than 0',
+    'layers[1].shape.radiusY: must be greater than 0',
+  ]);
+});
+
+test('assert throws a SpecValidationError listing every issue', () => {
+  assert.throws(
+    () => assertValidSvgSpec({ name: 'x', description: 'd', viewBox: { width: 10, height: 10 }, layers: [{ id: 'a', type: 'circle', props: {} }] }),
+    (error: unknown) => {
+      assert.ok(error instanceof SpecValidationError);
+      assert.deepEqual(error.issues.map(issue => issue.path), ['layers[0].props.cx', 'layers[0].props.cy', 'layers[0].props.r']);
+      assert.equal(error.message, 'Invalid spec:\nlayers[0].props.cx: required number\nlayers[0].props.cy: required number\nlayers[0].props.r: required number');
+      return true;
+    }
+  );
+});